@@ -0,0 +1,16 @@
+/**
+ * Migration script — Adds `isArchived: false` to coupons created before archiving existed,
+ * so getCoupons (which filters on that field) lists them again.
+ *
+ * Usage:
+ *   GCLOUD_PROJECT=<project> npm run migrate:archived
+ *
+ * Against the emulator, also set FIRESTORE_EMULATOR_HOST=127.0.0.1:8082.
+ *
+ * Safe to run more than once — coupons that already have the field are left untouched.
+ */
+
+import { backfillArchivedFlag } from "./src/functions/coupons/migrations.js";
+
+const updated = await backfillArchivedFlag();
+console.log(`✅ ${updated} coupon(s) backfilled with isArchived: false`);
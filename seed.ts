@@ -32,6 +32,48 @@ const USER2_ID = "user789";
 const USER2_EMAIL = "rival@webgo.cl";
 const SITE2_ID = "site999";
 
+const ALL_DISCOUNT_TYPES = ["percentage", "fixed", "free_shipping", "buy_x_get_y", "tiered"];
+
+// Same plans as DEFAULT_PLANS in src/lib/limits.ts; edit these documents to change a plan without a deploy
+const PLANS = [
+  {
+    id: "free",
+    name: "Free",
+    couponLimit: 3,
+    features: {
+      discountTypes: ["percentage", "fixed", "free_shipping"],
+      campaigns: false,
+      analytics: false,
+      usageShards: false,
+      webhooks: false,
+    },
+  },
+  {
+    id: "servicio",
+    name: "Servicio",
+    couponLimit: 10,
+    features: {
+      discountTypes: ALL_DISCOUNT_TYPES,
+      campaigns: false,
+      analytics: true,
+      usageShards: false,
+      webhooks: true,
+    },
+  },
+  {
+    id: "tienda",
+    name: "Tienda",
+    couponLimit: -1,
+    features: {
+      discountTypes: ALL_DISCOUNT_TYPES,
+      campaigns: true,
+      analytics: true,
+      usageShards: true,
+      webhooks: true,
+    },
+  },
+];
+
 const PRODUCTS = [
   { id: "prod001", name: "Camiseta Básica", price: 15000, stock: 100 },
   { id: "prod002", name: "Jeans Slim Fit", price: 29990, stock: 50 },
@@ -44,7 +86,11 @@ const PRODUCTS = [
  * Delete all documents in the given top-level collections (idempotent re-run).
  */
 async function clearCollections() {
-  const collections = ["users", "sites", "coupons", "products"];
+  const collections = [
+    "users", "sites", "coupons", "products", "redemptions",
+    "campaigns", "couponStats", "couponAudit", "reservations", "siteCounters", "plans",
+    "webhookEndpoints", "webhookDeliveries",
+  ];
   for (const col of collections) {
     const snapshot = await db.collection(col).get();
     const batch = db.batch();
@@ -76,7 +122,12 @@ async function seed() {
     console.log(`⚠️  Auth user creation skipped: ${message}. Continuing...`);
   }
 
-  // 2. Create user document with plan
+  // 2. Create plans and the user document with its plan
+  for (const { id, ...plan } of PLANS) {
+    await db.doc(`plans/${id}`).set(plan);
+  }
+  console.log(`✅ Plans: ${PLANS.map((plan) => plan.id).join(", ")}`);
+
   await db.doc(`users/${USER_ID}`).set({
     email: USER_EMAIL,
     displayName: "Usuario de Prueba",
@@ -126,6 +177,7 @@ async function seed() {
   });
   console.log(`✅ Site: sites/${SITE2_ID} (owner: ${USER2_ID})`);
 
+  // Coupon dates are stored as UTC ISO strings (as createCoupon does) so range filters and sorting work
   // Coupon with same code "BIENVENIDO" but on site2 (valid — unique per site, not global)
   await db.collection("coupons").doc("coupon002").set({
     siteId: SITE2_ID,
@@ -136,11 +188,14 @@ async function seed() {
     minPurchase: 20000,
     maxUses: 10,
     usedCount: 0,
-    validFrom: "2025-01-01T00:00:00-03:00",
-    validUntil: "2026-12-31T23:59:59-03:00",
+    reservedCount: 0,
+    validFrom: new Date("2025-01-01T00:00:00-03:00").toISOString(),
+    validUntil: new Date("2026-12-31T23:59:59-03:00").toISOString(),
     isActive: true,
-    createdAt: Timestamp.now(),
-    updatedAt: Timestamp.now(),
+    isArchived: false,
+    archivedAt: null,
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
   });
   console.log(`✅ Coupon: "BIENVENIDO" (coupon002) on site2 — $5,000 off, 0/10 uses`);
 
@@ -170,11 +225,14 @@ async function seed() {
     minPurchase: null,
     maxUses: 100,
     usedCount: 0,
-    validFrom: "2025-01-01T00:00:00-03:00",
-    validUntil: "2026-12-31T23:59:59-03:00",
+    reservedCount: 0,
+    validFrom: new Date("2025-01-01T00:00:00-03:00").toISOString(),
+    validUntil: new Date("2026-12-31T23:59:59-03:00").toISOString(),
     isActive: true,
-    createdAt: Timestamp.now(),
-    updatedAt: Timestamp.now(),
+    isArchived: false,
+    archivedAt: null,
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
   });
   console.log(`✅ Coupon: "BIENVENIDO" (coupon001) — 10% off, 0/100 uses, active`);
 
@@ -188,11 +246,14 @@ async function seed() {
     minPurchase: null,
     maxUses: 1,
     usedCount: 0,
-    validFrom: "2025-01-01T00:00:00-03:00",
-    validUntil: "2027-12-31T23:59:59-03:00",
+    reservedCount: 0,
+    validFrom: new Date("2025-01-01T00:00:00-03:00").toISOString(),
+    validUntil: new Date("2027-12-31T23:59:59-03:00").toISOString(),
     isActive: true,
-    createdAt: Timestamp.now(),
-    updatedAt: Timestamp.now(),
+    isArchived: false,
+    archivedAt: null,
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
   });
   console.log(`✅ Coupon: "UNUSO" (coupon004) — $1,000 off, 0/1 uses, active (para maxUses test)`);
 
@@ -206,11 +267,14 @@ async function seed() {
     minPurchase: null,
     maxUses: 50,
     usedCount: 0,
-    validFrom: "2025-01-01T00:00:00-03:00",
-    validUntil: "2026-12-31T23:59:59-03:00",
+    reservedCount: 0,
+    validFrom: new Date("2025-01-01T00:00:00-03:00").toISOString(),
+    validUntil: new Date("2026-12-31T23:59:59-03:00").toISOString(),
     isActive: true,
-    createdAt: Timestamp.now(),
-    updatedAt: Timestamp.now(),
+    isArchived: false,
+    archivedAt: null,
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
   });
   console.log(`✅ Coupon: "BIENVENIDO3" (coupon003) — 5% off, 0/50 uses, active (para delete test)`);
 
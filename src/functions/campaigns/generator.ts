@@ -0,0 +1,182 @@
+import { randomInt } from "node:crypto";
+import { logger } from "firebase-functions";
+
+import { db } from "../../lib/firebase.js";
+import type { CampaignDocument, CodePattern } from "../../types/campaign.js";
+import { buildCouponData, couponByCodeQuery, couponsCollection } from "../coupons/helpers.js";
+import { recordCouponAudit } from "../coupons/audit.js";
+import { readSiteCouponCount, writeSiteCouponCount } from "../coupons/counters.js";
+
+export const campaignsCollection = db.collection("campaigns");
+
+/** Códigos por transacción (cada uno suma una lectura y dos escrituras, cupón e historial; el límite es 500). */
+export const CAMPAIGN_BATCH_SIZE = 200;
+
+/** Lotes seguidos sin ningún código nuevo antes de dar la campaña por fallida. */
+const MAX_STALLED_BATCHES = 5;
+
+/**
+ * Sin avance por este tiempo, una campaña `pending` o `generating` se da por interrumpida:
+ * cada lote actualiza `updatedAt` y el trigger corre a lo sumo 9 minutos.
+ */
+export const CAMPAIGN_STALE_AFTER_MS = 15 * 60 * 1000;
+
+/** Campañas interrumpidas que retoma cada ejecución del job. */
+const RESUME_BATCH_SIZE = 10;
+
+/**
+ * Genera un código con el patrón de la campaña. `random(max)` retorna un entero en [0, max);
+ * por defecto usa `crypto.randomInt` para que los códigos no sean predecibles.
+ */
+export function generateCode(pattern: CodePattern, random: (max: number) => number = randomInt): string {
+  let code = pattern.prefix;
+  for (let i = 0; i < pattern.length; i++) {
+    code += pattern.alphabet[random(pattern.alphabet.length)];
+  }
+  return code;
+}
+
+/**
+ * Genera `count` códigos distintos entre sí y que no estén en `exclude`.
+ * Falla si no los consigue en un número razonable de intentos (patrón casi agotado).
+ */
+export function generateDistinctCodes(
+  pattern: CodePattern,
+  count: number,
+  exclude: ReadonlySet<string> = new Set(),
+  random: (max: number) => number = randomInt,
+): string[] {
+  const codes = new Set<string>();
+  const maxAttempts = count * 20;
+  for (let attempt = 0; codes.size < count && attempt < maxAttempts; attempt++) {
+    const code = generateCode(pattern, random);
+    if (!exclude.has(code)) codes.add(code);
+  }
+  if (codes.size < count) {
+    throw new Error("No se pudieron generar códigos distintos con este patrón");
+  }
+  return [...codes];
+}
+
+/**
+ * Escribe un lote de códigos en una transacción: descarta los que ya existen en el sitio
+ * (según `couponByCodeQuery`) y avanza `generatedCount` junto con los cupones creados,
+ * así un reintento retoma desde el último lote confirmado.
+ * Retorna cuántos códigos creó y el `generatedCount` resultante.
+ */
+async function writeCodeBatch(
+  campaign: CampaignDocument,
+  codes: string[],
+): Promise<{ created: number; generatedCount: number }> {
+  const campaignRef = campaignsCollection.doc(campaign.id);
+
+  return db.runTransaction(async (transaction) => {
+    const [campaignDoc, couponCount, existing] = await Promise.all([
+      transaction.get(campaignRef),
+      readSiteCouponCount(transaction, campaign.siteId),
+      Promise.all(codes.map((code) => transaction.get(couponByCodeQuery(campaign.siteId, code)))),
+    ]);
+
+    const generatedCount = (campaignDoc.data()?.generatedCount as number | undefined) ?? 0;
+    const fresh = codes
+      .filter((_, index) => existing[index].empty)
+      .slice(0, Math.max(campaign.quantity - generatedCount, 0));
+
+    const now = new Date().toISOString();
+    const settings = { ...campaign.settings, maxUses: 1, visibility: "private" as const };
+    for (const code of fresh) {
+      const couponData = buildCouponData(settings, {
+        siteId: campaign.siteId,
+        userId: campaign.userId,
+        code,
+        now,
+        campaignId: campaign.id,
+      });
+      const couponRef = couponsCollection.doc();
+      transaction.create(couponRef, couponData);
+      recordCouponAudit(transaction, {
+        couponId: couponRef.id,
+        actorUid: campaign.userId,
+        handler: "generateCampaignCodes",
+        before: null,
+        after: couponData,
+        now,
+      });
+    }
+    transaction.update(campaignRef, { generatedCount: generatedCount + fresh.length, updatedAt: now });
+    if (fresh.length > 0) writeSiteCouponCount(transaction, campaign.siteId, couponCount + fresh.length, now);
+
+    return { created: fresh.length, generatedCount: generatedCount + fresh.length };
+  });
+}
+
+/**
+ * Genera los códigos de una campaña en lotes hasta completar `quantity`.
+ * Es idempotente: una campaña terminada no se vuelve a procesar y una interrumpida
+ * (timeout o caída del trigger) continúa desde su `generatedCount` cuando la retoma
+ * `resumeStaleCampaigns`.
+ */
+export async function generateCampaignCodes(campaignId: string): Promise<void> {
+  const campaignRef = campaignsCollection.doc(campaignId);
+  const snapshot = await campaignRef.get();
+  if (!snapshot.exists) return;
+
+  const campaign = { id: snapshot.id, ...snapshot.data() } as CampaignDocument;
+  if (campaign.status === "completed" || campaign.status === "failed") return;
+
+  await campaignRef.update({ status: "generating", updatedAt: new Date().toISOString() });
+
+  let generatedCount = campaign.generatedCount;
+  let stalledBatches = 0;
+  try {
+    while (generatedCount < campaign.quantity) {
+      const batchSize = Math.min(CAMPAIGN_BATCH_SIZE, campaign.quantity - generatedCount);
+      const batch = await writeCodeBatch(campaign, generateDistinctCodes(campaign.codePattern, batchSize));
+      generatedCount = batch.generatedCount;
+      const created = batch.created;
+
+      stalledBatches = created === 0 ? stalledBatches + 1 : 0;
+      if (stalledBatches >= MAX_STALLED_BATCHES) {
+        throw new Error("No se encontraron códigos libres: el patrón está casi agotado en este sitio");
+      }
+    }
+
+    const now = new Date().toISOString();
+    await campaignRef.update({ status: "completed", completedAt: now, updatedAt: now });
+  } catch (error) {
+    logger.error("generateCampaignCodes failed", { campaignId, generatedCount, error });
+    await campaignRef.update({
+      status: "failed",
+      error: error instanceof Error ? error.message : "Error interno",
+      updatedAt: new Date().toISOString(),
+    });
+  }
+}
+
+/** Si una campaña quedó sin terminar y sin avance desde hace `CAMPAIGN_STALE_AFTER_MS`. */
+export function isCampaignStale(campaign: Pick<CampaignDocument, "status" | "updatedAt">, now: Date): boolean {
+  if (campaign.status !== "pending" && campaign.status !== "generating") return false;
+  return Date.parse(campaign.updatedAt) <= now.getTime() - CAMPAIGN_STALE_AFTER_MS;
+}
+
+/**
+ * Retoma las campañas interrumpidas: sin esto, una campaña cuyo trigger se cortó queda
+ * `generating` para siempre y su cantidad pendiente sigue ocupando el límite del plan.
+ * Procesa hasta `RESUME_BATCH_SIZE` por ejecución, una a la vez. Retorna cuántas retomó.
+ */
+export async function resumeStaleCampaigns(now: Date): Promise<number> {
+  const cutoff = new Date(now.getTime() - CAMPAIGN_STALE_AFTER_MS).toISOString();
+  const snapshot = await campaignsCollection
+    .where("status", "in", ["pending", "generating"])
+    .where("updatedAt", "<=", cutoff)
+    .orderBy("updatedAt", "asc")
+    .limit(RESUME_BATCH_SIZE)
+    .get();
+
+  for (const doc of snapshot.docs) {
+    if (!isCampaignStale(doc.data() as CampaignDocument, now)) continue;
+    logger.warn("Resuming stale campaign", { campaignId: doc.id, generatedCount: doc.get("generatedCount") });
+    await generateCampaignCodes(doc.id);
+  }
+  return snapshot.size;
+}
@@ -0,0 +1,132 @@
+import { createCampaignSchema, getCampaignSchema } from "./schemas.js";
+import { campaignsCollection } from "./generator.js";
+import {
+  formatZodError,
+  withSiteOwner,
+  couponsCollection,
+  validateSiteProducts,
+  referencedProductIds,
+} from "../coupons/helpers.js";
+import { couponLimitError, readSiteCouponCount } from "../coupons/counters.js";
+import { checkCouponEntitlements, checkPlanFeature } from "../coupons/entitlements.js";
+import { db } from "../../lib/firebase.js";
+import { getUserPlan } from "../../lib/limits.js";
+import { ErrorCode } from "../../types/common.js";
+import type { FunctionResponse } from "../../types/common.js";
+import type { CampaignDocument, GetCampaignResult } from "../../types/campaign.js";
+
+// ── 1. createCampaign ───────────────────────────────────
+
+/**
+ * Crea una campaña de códigos de un solo uso.
+ * Solo registra la campaña en estado `pending`; los códigos los escribe en lotes
+ * el trigger `onCampaignCreated`. El límite del plan se verifica contra la cantidad completa,
+ * contando también los códigos que otras campañas aún están generando.
+ */
+export const createCampaignHandler = withSiteOwner<CampaignDocument>(
+  "createCampaign",
+  async (request, { userId }) => {
+    const parsed = createCampaignSchema.safeParse(request.data);
+    if (!parsed.success) {
+      return { data: null, error: formatZodError(parsed.error), errorCode: ErrorCode.INVALID_INPUT };
+    }
+
+    const { siteId, name, codePattern, quantity, settings } = parsed.data;
+
+    // Verificar que el plan incluya las campañas y el tipo de descuento
+    const plan = await getUserPlan(userId);
+    const entitlementError = checkPlanFeature(plan, "campaigns") ?? checkCouponEntitlements(plan, settings);
+    if (entitlementError) return entitlementError;
+
+    // Verificar que los productos referenciados pertenecen al sitio
+    const productError = await validateSiteProducts(siteId, referencedProductIds(settings));
+    if (productError) return productError;
+
+    const now = new Date().toISOString();
+    const campaignData: Omit<CampaignDocument, "id"> = {
+      siteId,
+      userId,
+      name,
+      settings,
+      codePattern,
+      quantity,
+      status: "pending",
+      generatedCount: 0,
+      error: null,
+      createdAt: now,
+      updatedAt: now,
+      completedAt: null,
+    };
+
+    const docRef = campaignsCollection.doc();
+
+    // Verificar límites del plan y registrar la campaña en una transacción,
+    // contando los códigos que otras campañas aún no escriben
+    return db.runTransaction(async (transaction): Promise<FunctionResponse<CampaignDocument>> => {
+      const [couponCount, inProgress] = await Promise.all([
+        readSiteCouponCount(transaction, siteId),
+        transaction.get(
+          campaignsCollection.where("siteId", "==", siteId).where("status", "in", ["pending", "generating"]),
+        ),
+      ]);
+      const pending = inProgress.docs.reduce(
+        (sum, doc) => sum + (doc.data().quantity as number) - (doc.data().generatedCount as number),
+        0,
+      );
+      const limitError = couponLimitError(couponCount + pending, plan.couponLimit, quantity);
+      if (limitError) return limitError;
+
+      transaction.create(docRef, campaignData);
+      return { data: { id: docRef.id, ...campaignData }, error: null };
+    });
+  },
+);
+
+// ── 2. getCampaign ──────────────────────────────────────
+
+/**
+ * Retorna una campaña con su progreso de generación y el uso de sus códigos.
+ * Se puede consultar mientras la generación está en curso.
+ */
+export const getCampaignHandler = withSiteOwner<GetCampaignResult>(
+  "getCampaign",
+  async (request) => {
+    const parsed = getCampaignSchema.safeParse(request.data);
+    if (!parsed.success) {
+      return { data: null, error: formatZodError(parsed.error), errorCode: ErrorCode.INVALID_INPUT };
+    }
+
+    const { siteId, campaignId } = parsed.data;
+
+    const campaignDoc = await campaignsCollection.doc(campaignId).get();
+    if (!campaignDoc.exists) {
+      return { data: null, error: "Campaña no encontrada", errorCode: ErrorCode.CAMPAIGN_NOT_FOUND };
+    }
+
+    const campaign = { id: campaignDoc.id, ...campaignDoc.data() } as CampaignDocument;
+    if (campaign.siteId !== siteId) {
+      return { data: null, error: "La campaña no pertenece a esta tienda", errorCode: ErrorCode.FORBIDDEN };
+    }
+
+    const redeemed = await couponsCollection
+      .where("campaignId", "==", campaignId)
+      .where("usedCount", ">", 0)
+      .count()
+      .get();
+    const redeemedCodes = redeemed.data().count;
+
+    return {
+      data: {
+        campaign,
+        stats: {
+          quantity: campaign.quantity,
+          generatedCount: campaign.generatedCount,
+          progress: campaign.quantity > 0 ? campaign.generatedCount / campaign.quantity : 0,
+          redeemedCodes,
+          redemptionRate: campaign.generatedCount > 0 ? redeemedCodes / campaign.generatedCount : 0,
+        },
+      },
+      error: null,
+    };
+  },
+);
@@ -0,0 +1,30 @@
+import { type CallableOptions, onCall } from "firebase-functions/v2/https";
+import { onDocumentCreated } from "firebase-functions/v2/firestore";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { FUNCTION_REGION } from "../../lib/config.js";
+import { createCampaignHandler, getCampaignHandler } from "./handlers.js";
+import { generateCampaignCodes, resumeStaleCampaigns } from "./generator.js";
+
+const functionConfig: CallableOptions = {
+  region: FUNCTION_REGION,
+  memory: "256MiB",
+  invoker: "public",
+  cors: true,
+};
+
+export const createCampaign = onCall(functionConfig, createCampaignHandler);
+export const getCampaign = onCall(functionConfig, getCampaignHandler);
+
+/** Genera los códigos en segundo plano al crear la campaña (hasta 10.000 códigos por ejecución). */
+export const onCampaignCreated = onDocumentCreated(
+  { document: "campaigns/{campaignId}", region: FUNCTION_REGION, memory: "512MiB", timeoutSeconds: 540 },
+  (event) => generateCampaignCodes(event.params.campaignId),
+);
+
+/** Retoma cada 10 minutos las campañas cuya generación se interrumpió (timeout o caída). */
+export const resumeCampaignsJob = onSchedule(
+  { schedule: "every 10 minutes", region: FUNCTION_REGION, memory: "512MiB", timeoutSeconds: 540 },
+  async (event) => {
+    await resumeStaleCampaigns(new Date(event.scheduleTime));
+  },
+);
@@ -0,0 +1,57 @@
+import { z } from "zod";
+import { AMBIGUOUS_CODE_CHARACTERS, DEFAULT_CODE_ALPHABET, MAX_CAMPAIGN_QUANTITY } from "../../types/campaign.js";
+import { campaignCouponSettingsSchema } from "../coupons/schemas.js";
+
+// ── Helpers ─────────────────────────────────────────────
+
+const codePattern = z.object({
+  prefix: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .regex(/^[A-Z0-9-]{0,12}$/, "prefix admite hasta 12 letras, números o guiones")
+    .default(""),
+  length: z.number().int().min(4, "length debe ser al menos 4").max(16, "length no puede superar 16"),
+  alphabet: z
+    .string()
+    .toUpperCase()
+    .regex(/^[A-Z0-9]+$/, "alphabet solo admite letras y números")
+    .refine((val: string) => new Set(val).size === val.length, { message: "alphabet no puede repetir caracteres" })
+    .refine((val: string) => ![...val].some((char) => AMBIGUOUS_CODE_CHARACTERS.includes(char)), {
+      message: "alphabet no puede incluir caracteres ambiguos (0, O, 1, I, L)",
+    })
+    .refine((val: string) => val.length >= 10, { message: "alphabet debe tener al menos 10 caracteres" })
+    .default(DEFAULT_CODE_ALPHABET),
+});
+
+/** Combinaciones posibles de un patrón (sin contar el prefijo, que es fijo). */
+export function codeSpace(pattern: { length: number; alphabet: string }): number {
+  return Math.pow(pattern.alphabet.length, pattern.length);
+}
+
+// ── createCampaign ──────────────────────────────────────
+
+export const createCampaignSchema = z
+  .object({
+    siteId: z.string().min(1, "siteId es requerido"),
+    name: z.string().trim().min(1, "name es requerido"),
+    codePattern,
+    quantity: z
+      .number()
+      .int()
+      .positive("quantity debe ser entero mayor a 0")
+      .max(MAX_CAMPAIGN_QUANTITY, `quantity no puede superar ${MAX_CAMPAIGN_QUANTITY}`),
+    settings: campaignCouponSettingsSchema,
+  })
+  // Con al menos 1.000 combinaciones por código las colisiones son raras y la generación no se estanca
+  .refine((data) => codeSpace(data.codePattern) >= data.quantity * 1000, {
+    message: "El patrón no tiene suficientes combinaciones para esa cantidad: aumenta length",
+    path: ["codePattern", "length"],
+  });
+
+// ── getCampaign ─────────────────────────────────────────
+
+export const getCampaignSchema = z.object({
+  siteId: z.string().min(1, "siteId es requerido"),
+  campaignId: z.string().min(1, "campaignId es requerido"),
+});
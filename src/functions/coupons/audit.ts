@@ -0,0 +1,81 @@
+import type { Transaction } from "firebase-admin/firestore";
+
+import { db } from "../../lib/firebase.js";
+import type { AuditAction, CouponAuditEntry, FieldChange } from "../../types/audit.js";
+import type { CouponDocument } from "../../types/coupon.js";
+import { couponLabel } from "./helpers.js";
+
+export const couponAuditCollection = db.collection("couponAudit");
+
+/** Campos que no se registran: el ID es el de la entrada y updatedAt cambia en cada escritura. */
+const UNAUDITED_FIELDS = new Set(["id", "updatedAt"]);
+
+/** Versión de un cupón tal como se guarda (con o sin `id`). */
+type CouponSnapshot = Pick<CouponDocument, "siteId" | "code"> & {
+  name?: string | null;
+  isActive?: boolean;
+  isArchived?: boolean;
+};
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Diferencia campo a campo entre dos versiones de un cupón (null = no existía).
+ * Los campos ausentes se registran como null, porque Firestore no guarda undefined.
+ */
+export function diffCouponFields(before: object | null, after: object | null): Record<string, FieldChange> {
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  const changes: Record<string, FieldChange> = {};
+  for (const field of [...fields].sort()) {
+    if (UNAUDITED_FIELDS.has(field)) continue;
+    const from = (before as Record<string, unknown> | null)?.[field] ?? null;
+    const to = (after as Record<string, unknown> | null)?.[field] ?? null;
+    if (!sameValue(from, to)) changes[field] = { before: from, after: to };
+  }
+  return changes;
+}
+
+/** Clasifica el cambio: archivar/restaurar y activar/desactivar se distinguen de una edición cualquiera. */
+export function auditAction(before: CouponSnapshot | null, after: CouponSnapshot | null): AuditAction {
+  if (!before) return "create";
+  if (!after) return "delete";
+  if (Boolean(before.isArchived) !== Boolean(after.isArchived)) return after.isArchived ? "archive" : "restore";
+  if (before.isActive !== after.isActive) return after.isActive ? "activate" : "deactivate";
+  return "update";
+}
+
+/**
+ * Agrega a la transacción la entrada de historial de un cambio sobre un cupón.
+ * Una edición que no cambia ningún campo no genera entrada.
+ */
+export function recordCouponAudit(
+  transaction: Transaction,
+  entry: {
+    couponId: string;
+    actorUid: string;
+    handler: string;
+    before: CouponSnapshot | null;
+    after: CouponSnapshot | null;
+    now: string;
+  },
+): void {
+  const { couponId, actorUid, handler, before, after, now } = entry;
+  const current = (after ?? before)!;
+  const changes = diffCouponFields(before, after);
+  if (before && after && Object.keys(changes).length === 0) return;
+
+  const ref = couponAuditCollection.doc();
+  const auditEntry: Omit<CouponAuditEntry, "id"> = {
+    siteId: current.siteId,
+    couponId,
+    label: couponLabel({ id: couponId, code: current.code, name: current.name ?? undefined }),
+    action: auditAction(before, after),
+    actorUid,
+    handler,
+    changes,
+    createdAt: now,
+  };
+  transaction.create(ref, auditEntry);
+}
@@ -0,0 +1,124 @@
+import { logger } from "firebase-functions";
+import type { Transaction } from "firebase-admin/firestore";
+
+import { db } from "../../lib/firebase.js";
+import { ErrorCode } from "../../types/common.js";
+import type { FunctionResponse } from "../../types/common.js";
+import type { SiteCounterDocument } from "../../types/coupon.js";
+import { couponsCollection } from "./helpers.js";
+
+/**
+ * Contador por sitio de los cupones que ocupan cupo del plan. Los handlers lo leen y escriben
+ * en la misma transacción que el cupón, así dos createCoupon simultáneos no pueden pasar
+ * los dos el límite: el segundo se reintenta y ve el contador del primero.
+ */
+export const siteCountersCollection = db.collection("siteCounters");
+
+/** Si un cupón (sus datos, o undefined si no existe) ocupa cupo del plan. */
+export function countsTowardPlan(data: FirebaseFirestore.DocumentData | undefined): boolean {
+  return data != null && data.isArchived !== true;
+}
+
+/** Cuenta los cupones del sitio que ocupan cupo del plan (dentro de la transacción si se indica). */
+async function countPlanCoupons(siteId: string, transaction?: Transaction): Promise<number> {
+  // Los archivados se cuentan aparte para no depender de que los cupones antiguos tengan `isArchived`
+  const siteCoupons = couponsCollection.where("siteId", "==", siteId);
+  const queries = [siteCoupons.count(), siteCoupons.where("isArchived", "==", true).count()];
+  const [total, archived] = await Promise.all(
+    queries.map((query) => (transaction ? transaction.get(query) : query.get())),
+  );
+  return total.data().count - archived.data().count;
+}
+
+/**
+ * Lee el contador del sitio en la transacción. Si aún no existe (sitios anteriores al contador)
+ * cuenta los cupones; quien llama lo guarda con `writeSiteCouponCount`.
+ */
+export async function readSiteCouponCount(transaction: Transaction, siteId: string): Promise<number> {
+  const counterDoc = await transaction.get(siteCountersCollection.doc(siteId));
+  if (counterDoc.exists) return (counterDoc.data() as SiteCounterDocument).couponCount;
+  return countPlanCoupons(siteId, transaction);
+}
+
+export function writeSiteCouponCount(
+  transaction: Transaction,
+  siteId: string,
+  couponCount: number,
+  now: string,
+): void {
+  const counter: SiteCounterDocument = { siteId, couponCount: Math.max(couponCount, 0), updatedAt: now };
+  transaction.set(siteCountersCollection.doc(siteId), counter);
+}
+
+/**
+ * Verifica que el plan (`limit`, -1 = ilimitado) admita `requested` cupones más sobre `used`
+ * (el contador, más lo ya comprometido, por ejemplo códigos de campañas que aún se están generando).
+ * Retorna null si caben, o COUPON_LIMIT_REACHED.
+ */
+export function couponLimitError(used: number, limit: number, requested = 1): FunctionResponse<never> | null {
+  if (limit === -1 || used + requested <= limit) return null;
+
+  return {
+    data: null,
+    error:
+      requested === 1
+        ? `Límite de cupones alcanzado (${used}/${limit})`
+        : `Límite de cupones alcanzado (${used}/${limit}): no caben ${requested} cupones más`,
+    errorCode: ErrorCode.COUPON_LIMIT_REACHED,
+  };
+}
+
+/**
+ * Sitio cuyo contador hay que reconciliar tras una escritura de cupón, o null si la escritura
+ * no cambió si el cupón ocupa cupo (por ejemplo, un uso o una edición) o si ya actualizó el
+ * contador en su transacción: createCoupon, deleteCoupon (al archivar), restoreCoupon y las
+ * campañas registran `planCountedAt`. Así el recuento completo del sitio solo corre para las
+ * escrituras directas a Firestore y el borrado definitivo, que no deja documento donde marcarlo.
+ */
+export function siteToReconcile(
+  before: FirebaseFirestore.DocumentData | undefined,
+  after: FirebaseFirestore.DocumentData | undefined,
+): string | null {
+  if (countsTowardPlan(before) === countsTowardPlan(after)) return null;
+  if (after?.planCountedAt != null && after.planCountedAt !== before?.planCountedAt) return null;
+  return ((after ?? before)?.siteId as string | undefined) ?? null;
+}
+
+/**
+ * Si el contador del sitio no coincide con sus cupones (o aún no existe). Lee fuera de una
+ * transacción para no bloquear el contador que escriben createCoupon y el generador de campañas:
+ * las funciones lo mantienen al día, así que solo las escrituras directas a Firestore lo desvían.
+ */
+export async function hasSiteCounterDrift(siteId: string): Promise<boolean> {
+  const [counterDoc, couponCount] = await Promise.all([
+    siteCountersCollection.doc(siteId).get(),
+    countPlanCoupons(siteId),
+  ]);
+  return !counterDoc.exists || (counterDoc.data() as SiteCounterDocument).couponCount !== couponCount;
+}
+
+/**
+ * Recuenta los cupones del sitio y corrige el contador si no coincide (escrituras directas
+ * a Firestore, fuera de las funciones). Es seguro re-ejecutarlo. Retorna el conteo resultante.
+ */
+export async function reconcileSiteCounter(siteId: string): Promise<number> {
+  const counterRef = siteCountersCollection.doc(siteId);
+
+  const { stored, couponCount } = await db.runTransaction(async (transaction) => {
+    const [counterDoc, couponCount] = await Promise.all([
+      transaction.get(counterRef),
+      countPlanCoupons(siteId, transaction),
+    ]);
+
+    const stored = counterDoc.exists ? (counterDoc.data() as SiteCounterDocument).couponCount : null;
+    if (stored !== couponCount) {
+      writeSiteCouponCount(transaction, siteId, couponCount, new Date().toISOString());
+    }
+    return { stored, couponCount };
+  });
+
+  if (stored !== couponCount) {
+    logger.info("reconcileSiteCounter corrected the counter", { siteId, stored, couponCount });
+  }
+  return couponCount;
+}
@@ -0,0 +1,136 @@
+import { FieldPath } from "firebase-admin/firestore";
+import { logger } from "firebase-functions";
+
+import { db } from "../../lib/firebase.js";
+import { getUserPlan } from "../../lib/limits.js";
+import { recordCouponAudit } from "./audit.js";
+import { couponsCollection, sitesCollection, toCouponDocument } from "./helpers.js";
+import { SYSTEM_ACTOR } from "./lifecycle.js";
+import { couponStatsRef, readLastUsedAt } from "./stats.js";
+
+/** Cupones por página al leer su último uso y por transacción al desactivarlos. */
+export const DOWNGRADE_PAGE_SIZE = 100;
+
+/** Cupón activo con la fecha de su último uso (null si nunca se usó). */
+export interface CouponUsageRecency {
+  id: string;
+  lastUsedAt: string | null;
+  createdAt: string;
+}
+
+/**
+ * Política de un cambio de plan: quedan activos los `limit` cupones usados más recientemente
+ * (los nunca usados van al final) y, a igual uso, los creados más recientemente.
+ * Retorna los IDs que siguen activos y los que hay que desactivar.
+ */
+export function pickCouponsToKeep(
+  coupons: CouponUsageRecency[],
+  limit: number,
+): { keep: string[]; deactivate: string[] } {
+  const ranked = [...coupons].sort(
+    (a, b) =>
+      (b.lastUsedAt ?? "").localeCompare(a.lastUsedAt ?? "") || b.createdAt.localeCompare(a.createdAt),
+  );
+  const kept = limit === -1 ? ranked : ranked.slice(0, limit);
+  return {
+    keep: kept.map((coupon) => coupon.id),
+    deactivate: ranked.slice(kept.length).map((coupon) => coupon.id),
+  };
+}
+
+/**
+ * Desactiva en una transacción los cupones de una página, releyéndolos: uno que se archivó
+ * o desactivó mientras corría la reconciliación se ignora.
+ */
+async function deactivatePage(ids: string[], now: string): Promise<number> {
+  return db.runTransaction(async (transaction) => {
+    const docs = await transaction.getAll(...ids.map((id) => couponsCollection.doc(id)));
+    let deactivated = 0;
+
+    for (const doc of docs) {
+      if (!doc.exists) continue;
+      const coupon = toCouponDocument(doc);
+      if (!coupon.isActive || coupon.isArchived) continue;
+
+      const updates = { isActive: false, planLimitedAt: now, updatedAt: now };
+      transaction.update(doc.ref, updates);
+      recordCouponAudit(transaction, {
+        couponId: coupon.id,
+        actorUid: SYSTEM_ACTOR,
+        handler: "reconcilePlanDowngrade",
+        before: coupon,
+        after: { ...coupon, ...updates },
+        now,
+      });
+      deactivated++;
+    }
+    return deactivated;
+  });
+}
+
+/**
+ * Cupones activos sin archivar de un sitio con su último uso, por páginas con cursor: el último
+ * uso sale del rollup total de cada cupón en `couponStats`, leído en un solo `getAll` por página.
+ */
+async function readActiveRecency(siteId: string): Promise<CouponUsageRecency[]> {
+  const query = couponsCollection
+    .where("siteId", "==", siteId)
+    .where("isActive", "==", true)
+    .where("isArchived", "==", false)
+    .orderBy(FieldPath.documentId())
+    .select("createdAt");
+  const recency: CouponUsageRecency[] = [];
+  let cursor: FirebaseFirestore.QueryDocumentSnapshot | undefined;
+
+  for (;;) {
+    const page = await (cursor ? query.startAfter(cursor) : query).limit(DOWNGRADE_PAGE_SIZE).get();
+    if (page.empty) break;
+
+    const rollups = await db.getAll(...page.docs.map((doc) => couponStatsRef(siteId, doc.id, null)));
+    page.docs.forEach((doc, index) =>
+      recency.push({
+        id: doc.id,
+        lastUsedAt: readLastUsedAt(rollups[index]),
+        createdAt: doc.get("createdAt") as string,
+      }),
+    );
+
+    if (page.size < DOWNGRADE_PAGE_SIZE) break;
+    cursor = page.docs[page.docs.length - 1];
+  }
+  return recency;
+}
+
+/** Deja activos a lo sumo `limit` cupones de un sitio según `pickCouponsToKeep`. */
+async function reconcileSite(siteId: string, limit: number, now: string): Promise<number> {
+  const recency = await readActiveRecency(siteId);
+  if (recency.length <= limit) return 0;
+
+  const { deactivate } = pickCouponsToKeep(recency, limit);
+  let deactivated = 0;
+  for (let start = 0; start < deactivate.length; start += DOWNGRADE_PAGE_SIZE) {
+    deactivated += await deactivatePage(deactivate.slice(start, start + DOWNGRADE_PAGE_SIZE), now);
+  }
+  return deactivated;
+}
+
+/**
+ * Ajusta los sitios de un usuario a su plan actual tras un cambio de plan: en cada sitio con más
+ * cupones activos que el límite, desactiva los que no elige `pickCouponsToKeep` y registra
+ * `planLimitedAt` y una entrada de historial del actor `system`. Es seguro re-ejecutarlo:
+ * un sitio dentro del límite no cambia. Retorna cuántos cupones desactivó.
+ */
+export async function reconcilePlanDowngrade(userId: string, now: Date): Promise<number> {
+  const plan = await getUserPlan(userId);
+  if (plan.couponLimit === -1) return 0;
+
+  const sites = await sitesCollection.where("userId", "==", userId).get();
+  const timestamp = now.toISOString();
+  let deactivated = 0;
+  for (const site of sites.docs) {
+    deactivated += await reconcileSite(site.id, plan.couponLimit, timestamp);
+  }
+
+  logger.info("reconcilePlanDowngrade finished", { userId, planId: plan.id, deactivated });
+  return deactivated;
+}
@@ -0,0 +1,47 @@
+import { ErrorCode } from "../../types/common.js";
+import type { FunctionResponse } from "../../types/common.js";
+import type { DiscountType } from "../../types/coupon.js";
+import type { PlanDocument, PlanFeature } from "../../types/plan.js";
+
+const FEATURE_LABELS: Record<PlanFeature, string> = {
+  campaigns: "campañas de códigos únicos",
+  analytics: "estadísticas de uso",
+  usageShards: "contadores de uso repartidos (usageShards)",
+  webhooks: "webhooks",
+};
+
+/**
+ * Verifica que el plan incluya una función.
+ * Retorna null si la incluye, o FEATURE_NOT_IN_PLAN con el plan y la función en `errorDetails`.
+ */
+export function checkPlanFeature(plan: PlanDocument, feature: PlanFeature): FunctionResponse<never> | null {
+  if (plan.features[feature]) return null;
+
+  return {
+    data: null,
+    error: `El plan ${plan.name} no incluye ${FEATURE_LABELS[feature]}`,
+    errorCode: ErrorCode.FEATURE_NOT_IN_PLAN,
+    errorDetails: { planId: plan.id, feature },
+  };
+}
+
+/**
+ * Verifica que el plan admita un cupón con esta configuración: su tipo de descuento
+ * y, si se piden, los contadores repartidos. Los campos ausentes (updates parciales) no se verifican.
+ */
+export function checkCouponEntitlements(
+  plan: PlanDocument,
+  settings: { discountType?: DiscountType; usageShards?: number | null },
+): FunctionResponse<never> | null {
+  const { discountType, usageShards } = settings;
+  if (discountType && !plan.features.discountTypes.includes(discountType)) {
+    return {
+      data: null,
+      error: `El plan ${plan.name} no incluye cupones de tipo "${discountType}"`,
+      errorCode: ErrorCode.FEATURE_NOT_IN_PLAN,
+      errorDetails: { planId: plan.id, feature: "discountTypes", discountType, allowed: plan.features.discountTypes },
+    };
+  }
+  if (usageShards) return checkPlanFeature(plan, "usageShards");
+  return null;
+}
@@ -1,5 +1,5 @@
-import { db } from "../../lib/firebase.js";
-import { canCreateCoupon } from "../../lib/limits.js";
+import { auth, db } from "../../lib/firebase.js";
+import { getUserPlan } from "../../lib/limits.js";
 import {
   createCouponSchema,
   getCouponsSchema,
@@ -7,69 +7,139 @@ import {
   deleteCouponSchema,
   validateCouponSchema,
   applyCouponSchema,
+  revertCouponRedemptionSchema,
+  validateCouponsSchema,
+  applyCouponsSchema,
+  getAutomaticPromotionsSchema,
+  getBestCouponsSchema,
+  getCouponStatsSchema,
+  getCouponHistorySchema,
+  restoreCouponSchema,
+  reserveCouponSchema,
+  createStorefrontTokenSchema,
+  updateSiteSettingsSchema,
 } from "./schemas.js";
 import {
   formatZodError,
-  getSiteUserId,
   toCouponDocument,
-  calculateDiscount,
   validateCouponEligibility,
   validateUpdateFields,
   buildCleanUpdates,
-  withErrorHandling,
+  withSiteOwner,
+  withStorefrontAccess,
   couponsCollection,
+  sitesCollection,
   couponByCodeQuery,
+  redemptionRef,
+  customerRedemptionsQuery,
+  calculateRefundedDiscount,
+  validateSiteProducts,
+  referencedProductIds,
+  couponLabel,
+  automaticPromotionsQuery,
+  publicCouponsQuery,
+  buildCouponData,
+  couponListQuery,
+  couponRedemptionsQuery,
+  encodeCursor,
+  decodeCursor,
+  STOREFRONT_SITE_CLAIM,
 } from "./helpers.js";
+import { computeCouponDiscount, resolveCart, validateCartScope } from "./pricing.js";
+import { resolveCouponStack, toStackedCoupon } from "./stacking.js";
+import type { StackCandidate } from "./stacking.js";
+import { rankCouponSuggestions } from "./suggestions.js";
+import { couponAuditCollection, recordCouponAudit } from "./audit.js";
+import {
+  allocateUsageShard,
+  incrementUsageShard,
+  loadCouponDocuments,
+  loadUsageShards,
+  planUsageShards,
+  siteHasShardedCoupons,
+  usageShardRefs,
+  writeUsageShards,
+} from "./sharding.js";
+import {
+  checkReservation,
+  markReservationsExpired,
+  readExpiredReservations,
+  reservationExpiresAt,
+  reservationsCollection,
+  toReservationDocument,
+} from "./reservations.js";
+import { couponLimitError, readSiteCouponCount, writeSiteCouponCount } from "./counters.js";
+import { checkCouponEntitlements, checkPlanFeature } from "./entitlements.js";
+import { exhaustionUpdates, releaseExhaustionUpdates, SYSTEM_ACTOR } from "./lifecycle.js";
+import {
+  couponStatsRef,
+  dateRange,
+  summarizeStats,
+  sumSeries,
+  readStatsTotals,
+} from "./stats.js";
 import { ErrorCode } from "../../types/common.js";
 import type { FunctionResponse } from "../../types/common.js";
+import { PERCENTAGE_BASED_DISCOUNT_TYPES, VALUELESS_DISCOUNT_TYPES } from "../../types/coupon.js";
 import type {
   CouponDocument,
+  CouponPage,
+  DeleteCouponResult,
   ValidateCouponResult,
   ApplyCouponResult,
+  ValidateCouponsResult,
+  ApplyCouponsResult,
+  AutomaticPromotionsResult,
+  BestCouponsResult,
+  RejectedCoupon,
+  StorefrontToken,
+  SiteSettings,
 } from "../../types/coupon.js";
+import type { RedemptionDocument, RedemptionRefund } from "../../types/redemption.js";
+import type { CouponStatsResult, DailyStats } from "../../types/stats.js";
+import type { CouponAuditEntry, CouponHistoryPage } from "../../types/audit.js";
+import type { CouponReservationDocument, ReserveCouponResult } from "../../types/reservation.js";
 
 // ── 1. createCoupon ─────────────────────────────────────
 
 /**
  * Crea un nuevo cupón para una tienda.
- * Valida input, existencia del sitio, límites del plan y unicidad del código.
+ * Valida input, propiedad del sitio, límites del plan y unicidad del código.
  */
-export const createCouponHandler = withErrorHandling<CouponDocument>(
+export const createCouponHandler = withSiteOwner<CouponDocument>(
   "createCoupon",
-  async (request) => {
+  async (request, { userId, uid }) => {
     const parsed = createCouponSchema.safeParse(request.data);
     if (!parsed.success) {
       return { data: null, error: formatZodError(parsed.error), errorCode: ErrorCode.INVALID_INPUT };
     }
 
-    const { siteId, code, discountType, discountValue, minPurchase, maxUses, validFrom, validUntil } =
-      parsed.data;
+    const { siteId, code, ...settings } = parsed.data;
 
-    // Verificar que el sitio existe y obtener userId
-    const userId = await getSiteUserId(siteId);
-    if (!userId) {
-      return { data: null, error: "Sitio no encontrado", errorCode: ErrorCode.SITE_NOT_FOUND };
-    }
+    // Verificar que el plan incluya el tipo de descuento (y los contadores repartidos, si se piden)
+    const plan = await getUserPlan(userId);
+    const entitlementError = checkCouponEntitlements(plan, settings);
+    if (entitlementError) return entitlementError;
 
-    // Verificar límites del plan
-    const limitCheck = await canCreateCoupon(userId, siteId);
-    if (!limitCheck.allowed) {
-      return {
-        data: null,
-        error: `Límite de cupones alcanzado (${limitCheck.current}/${limitCheck.limit})`,
-        errorCode: ErrorCode.COUPON_LIMIT_REACHED,
-      };
-    }
+    // Verificar que los productos referenciados pertenecen al sitio
+    const productError = await validateSiteProducts(siteId, referencedProductIds(parsed.data));
+    if (productError) return productError;
 
-    // Verificar unicidad y crear cupón atómicamente con transacción
-    const normalizedCode = code.toUpperCase();
+    // Verificar límite del plan y unicidad, y crear el cupón atómicamente con transacción
+    // (las promociones automáticas no tienen código que verificar)
+    const normalizedCode = code?.toUpperCase() ?? null;
 
     type TxResult = FunctionResponse<CouponDocument>;
 
     const result = await db.runTransaction(async (transaction): Promise<TxResult> => {
-      const existing = await transaction.get(couponByCodeQuery(siteId, code));
+      // Los cupones archivados no ocupan cupo del plan
+      const couponCount = await readSiteCouponCount(transaction, siteId);
+      const limitError = couponLimitError(couponCount, plan.couponLimit);
+      if (limitError) return limitError;
+
+      const existing = normalizedCode ? await transaction.get(couponByCodeQuery(siteId, normalizedCode)) : null;
 
-      if (!existing.empty) {
+      if (existing && !existing.empty) {
         return {
           data: null,
           error: `Ya existe un cupón con el código "${normalizedCode}" en esta tienda`,
@@ -78,24 +148,26 @@ export const createCouponHandler = withErrorHandling<CouponDocument>(
       }
 
       const now = new Date().toISOString();
-      const couponData = {
-        siteId,
-        userId,
-        code: normalizedCode,
-        discountType,
-        discountValue,
-        minPurchase: minPurchase ?? null,
-        maxUses: maxUses ?? null,
-        usedCount: 0,
-        validFrom,
-        validUntil,
-        isActive: true,
-        createdAt: now,
-        updatedAt: now,
-      };
+      const couponData = buildCouponData(settings, { siteId, userId, code: normalizedCode, now });
 
       const newDocRef = couponsCollection.doc();
       transaction.set(newDocRef, couponData);
+      writeSiteCouponCount(transaction, siteId, couponCount + 1, now);
+      if (couponData.usageShards) {
+        const shardPlan = planUsageShards(
+          { usedCount: 0, reservedCount: 0, maxUses: couponData.maxUses, shards: [] },
+          couponData.usageShards,
+        );
+        if ("shards" in shardPlan) writeUsageShards(transaction, newDocRef.id, 0, shardPlan.shards);
+      }
+      recordCouponAudit(transaction, {
+        couponId: newDocRef.id,
+        actorUid: uid,
+        handler: "createCoupon",
+        before: null,
+        after: couponData,
+        now,
+      });
 
       return { data: { id: newDocRef.id, ...couponData } as CouponDocument, error: null };
     });
@@ -107,10 +179,13 @@ export const createCouponHandler = withErrorHandling<CouponDocument>(
 // ── 2. getCoupons ───────────────────────────────────────
 
 /**
- * Lista todos los cupones de una tienda.
- * Verifica que el sitio exista antes de consultar.
+ * Lista los cupones de una tienda por páginas, con filtros y orden.
+ * Solo el dueño del sitio puede consultarlos.
+ * El cursor apunta al último cupón de la página anterior; si ese cupón se eliminó, el cursor deja de ser válido.
+ * Ordenar por `usedCount` se rechaza si el sitio tiene cupones con `usageShards`: su total está
+ * en los contadores y el valor guardado en el cupón los dejaría fuera de lugar.
  */
-export const getCouponsHandler = withErrorHandling<CouponDocument[]>(
+export const getCouponsHandler = withSiteOwner<CouponPage>(
   "getCoupons",
   async (request) => {
     const parsed = getCouponsSchema.safeParse(request.data);
@@ -118,19 +193,38 @@ export const getCouponsHandler = withErrorHandling<CouponDocument[]>(
       return { data: null, error: formatZodError(parsed.error), errorCode: ErrorCode.INVALID_INPUT };
     }
 
-    const { siteId } = parsed.data;
+    const { siteId, pageSize, cursor, sortBy, sortDirection, ...filters } = parsed.data;
 
-    // Verificar que el sitio existe
-    const userId = await getSiteUserId(siteId);
-    if (!userId) {
-      return { data: null, error: "Sitio no encontrado", errorCode: ErrorCode.SITE_NOT_FOUND };
+    if (sortBy === "usedCount" && (await siteHasShardedCoupons(siteId))) {
+      return {
+        data: null,
+        error: "sortBy: no se puede ordenar por usedCount en un sitio con cupones con usageShards",
+        errorCode: ErrorCode.INVALID_INPUT,
+      };
     }
 
-    const snapshot = await couponsCollection.where("siteId", "==", siteId).get();
+    let query = couponListQuery(siteId, filters, new Date().toISOString()).orderBy(sortBy, sortDirection);
 
-    const coupons: CouponDocument[] = snapshot.docs.map((doc) => toCouponDocument(doc));
+    if (cursor) {
+      const cursorId = decodeCursor(cursor);
+      const cursorDoc = cursorId ? await couponsCollection.doc(cursorId).get() : null;
+      if (!cursorDoc?.exists || cursorDoc.data()?.siteId !== siteId) {
+        return { data: null, error: "cursor inválido o expirado", errorCode: ErrorCode.INVALID_INPUT };
+      }
+      query = query.startAfter(cursorDoc);
+    }
+
+    // Se pide un cupón extra para saber si hay una página siguiente
+    const snapshot = await query.limit(pageSize + 1).get();
+    const docs = snapshot.docs.slice(0, pageSize);
 
-    return { data: coupons, error: null };
+    return {
+      data: {
+        coupons: await loadCouponDocuments(docs),
+        nextCursor: snapshot.size > pageSize ? encodeCursor(docs[docs.length - 1].id) : null,
+      },
+      error: null,
+    };
   },
 );
 
@@ -141,9 +235,9 @@ export const getCouponsHandler = withErrorHandling<CouponDocument[]>(
  * Valida propiedad del cupón, unicidad de código y validación cruzada
  * de porcentaje/fechas con los datos actuales en Firestore.
  */
-export const updateCouponHandler = withErrorHandling<CouponDocument>(
+export const updateCouponHandler = withSiteOwner<CouponDocument>(
   "updateCoupon",
-  async (request) => {
+  async (request, { userId, uid }) => {
     const parsed = updateCouponSchema.safeParse(request.data);
     if (!parsed.success) {
       return { data: null, error: formatZodError(parsed.error), errorCode: ErrorCode.INVALID_INPUT };
@@ -151,11 +245,14 @@ export const updateCouponHandler = withErrorHandling<CouponDocument>(
 
     const { siteId, couponId, ...updates } = parsed.data;
 
-    // Verificar que el sitio existe
-    const userId = await getSiteUserId(siteId);
-    if (!userId) {
-      return { data: null, error: "Sitio no encontrado", errorCode: ErrorCode.SITE_NOT_FOUND };
-    }
+    // Verificar que el plan incluya lo que cambia (tipo de descuento, contadores repartidos)
+    const plan = await getUserPlan(userId);
+    const entitlementError = checkCouponEntitlements(plan, updates);
+    if (entitlementError) return entitlementError;
+
+    // Verificar que los productos referenciados pertenecen al sitio
+    const productError = await validateSiteProducts(siteId, referencedProductIds(updates));
+    if (productError) return productError;
 
     // Transacción atómica: verificar unicidad de código y aplicar update
     type TxResult = FunctionResponse<CouponDocument>;
@@ -168,11 +265,35 @@ export const updateCouponHandler = withErrorHandling<CouponDocument>(
         return { data: null, error: "Cupón no encontrado", errorCode: ErrorCode.COUPON_NOT_FOUND };
       }
 
-      const currentData = toCouponDocument(couponDoc);
+      const shards = (await loadUsageShards([couponDoc], transaction)).get(couponId) ?? [];
+      const currentData = toCouponDocument(couponDoc, shards);
 
       if (currentData.siteId !== siteId) {
         return { data: null, error: "El cupón no pertenece a esta tienda", errorCode: ErrorCode.FORBIDDEN };
       }
+      if (currentData.isArchived) {
+        return {
+          data: null,
+          error: "El cupón está archivado: restáuralo para editarlo",
+          errorCode: ErrorCode.COUPON_ARCHIVED,
+        };
+      }
+
+      // Reactivar se rechaza mientras el sitio tenga más cupones que su plan (por ejemplo, tras un cambio de plan)
+      const reactivating = updates.isActive === true && !currentData.isActive;
+      if (reactivating && plan.couponLimit !== -1) {
+        const couponCount = await readSiteCouponCount(transaction, siteId);
+        if (couponCount > plan.couponLimit) {
+          return {
+            data: null,
+            error:
+              `El sitio supera el límite de cupones de su plan (${couponCount}/${plan.couponLimit}): ` +
+              "archiva cupones para reactivar este",
+            errorCode: ErrorCode.COUPON_LIMIT_REACHED,
+            errorDetails: { couponCount, limit: plan.couponLimit },
+          };
+        }
+      }
 
       // Validar código único si se está cambiando
       if (updates.code) {
@@ -194,10 +315,64 @@ export const updateCouponHandler = withErrorHandling<CouponDocument>(
       const validationError = validateUpdateFields(currentData, updates);
       if (validationError) return validationError;
 
-      const cleanUpdates = buildCleanUpdates(updates);
-      transaction.update(couponRef, cleanUpdates);
+      // Al cambiar de tipo se limpian los campos que el nuevo tipo no usa
+      const typeDefaults: Record<string, unknown> = {};
+      if (updates.discountType && VALUELESS_DISCOUNT_TYPES.includes(updates.discountType)) {
+        typeDefaults.discountValue = 0;
+      }
+      if (updates.discountType && updates.discountType !== "buy_x_get_y") typeDefaults.buyXGetY = null;
+      if (updates.discountType && updates.discountType !== "tiered") typeDefaults.tiers = null;
+      if (updates.discountType && !PERCENTAGE_BASED_DISCOUNT_TYPES.includes(updates.discountType)) {
+        typeDefaults.maxDiscountAmount = null;
+      }
+      // Reactivar deja sin efecto la desactivación automática por vencimiento, agotamiento o límite del plan
+      if (reactivating) {
+        typeDefaults.expiredAt = null;
+        typeDefaults.exhaustedAt = null;
+        typeDefaults.planLimitedAt = null;
+      }
+
+      // Cambiar el límite o la cantidad de contadores reparte de nuevo el cupo entre contadores
+      const currentShards = currentData.usageShards ?? 0;
+      let storedUsage: { usedCount: number } | null = null;
+      if (updates.usageShards !== undefined || (currentShards > 0 && updates.maxUses !== undefined)) {
+        const shardPlan = planUsageShards(
+          {
+            usedCount: couponDoc.get("usedCount") as number,
+            reservedCount: (couponDoc.get("reservedCount") as number | undefined) ?? 0,
+            maxUses: updates.maxUses !== undefined ? updates.maxUses : (currentData.maxUses ?? null),
+            shards,
+          },
+          updates.usageShards !== undefined ? updates.usageShards : currentShards,
+        );
+        if ("error" in shardPlan) {
+          return { data: null, error: shardPlan.error, errorCode: ErrorCode.INVALID_INPUT };
+        }
+        writeUsageShards(transaction, couponId, currentShards, shardPlan.shards);
+        storedUsage = { usedCount: shardPlan.usedCount };
+      }
+
+      const cleanUpdates = buildCleanUpdates({ ...updates, ...typeDefaults });
+
+      // Bajar `maxUses` hasta `usedCount` deja el cupón agotado en la misma escritura
+      const merged = { ...currentData, ...cleanUpdates } as CouponDocument;
+      const exhausted =
+        merged.isActive && updates.maxUses !== undefined
+          ? exhaustionUpdates(merged, merged.usedCount, merged.updatedAt)
+          : null;
+      transaction.update(couponRef, { ...cleanUpdates, ...exhausted, ...storedUsage });
+
+      const updated = { ...merged, ...exhausted };
+      recordCouponAudit(transaction, {
+        couponId,
+        actorUid: uid,
+        handler: "updateCoupon",
+        before: currentData,
+        after: updated,
+        now: updated.updatedAt,
+      });
 
-      return { data: { ...currentData, ...cleanUpdates } as CouponDocument, error: null };
+      return { data: updated, error: null };
     });
 
     return result;
@@ -207,27 +382,22 @@ export const updateCouponHandler = withErrorHandling<CouponDocument>(
 // ── 4. deleteCoupon ─────────────────────────────────────
 
 /**
- * Elimina un cupón.
- * Verifica existencia del sitio y propiedad del cupón antes de borrar.
+ * Elimina un cupón. Por defecto lo archiva: deja de listarse y de poder usarse, pero conserva
+ * su código, sus usos y su historial, y se puede restaurar con restoreCoupon.
+ * Con `permanent: true` lo borra definitivamente, solo si nunca se usó (ni en órdenes revertidas).
  */
-export const deleteCouponHandler = withErrorHandling<{ id: string }>(
+export const deleteCouponHandler = withSiteOwner<DeleteCouponResult>(
   "deleteCoupon",
-  async (request) => {
+  async (request, { uid }) => {
     const parsed = deleteCouponSchema.safeParse(request.data);
     if (!parsed.success) {
       return { data: null, error: formatZodError(parsed.error), errorCode: ErrorCode.INVALID_INPUT };
     }
 
-    const { siteId, couponId } = parsed.data;
-
-    // Verificar que el sitio existe
-    const userId = await getSiteUserId(siteId);
-    if (!userId) {
-      return { data: null, error: "Sitio no encontrado", errorCode: ErrorCode.SITE_NOT_FOUND };
-    }
+    const { siteId, couponId, permanent } = parsed.data;
 
-    // Transacción atómica: verificar propiedad y eliminar
-    type TxResult = FunctionResponse<{ id: string }>;
+    // Transacción atómica: verificar propiedad y archivar o eliminar
+    type TxResult = FunctionResponse<DeleteCouponResult>;
 
     const result = await db.runTransaction(async (transaction): Promise<TxResult> => {
       const couponRef = couponsCollection.doc(couponId);
@@ -237,14 +407,57 @@ export const deleteCouponHandler = withErrorHandling<{ id: string }>(
         return { data: null, error: "Cupón no encontrado", errorCode: ErrorCode.COUPON_NOT_FOUND };
       }
 
-      const couponData = couponDoc.data();
-      if (couponData?.siteId !== siteId) {
+      const couponData = couponDoc.data() as Omit<CouponDocument, "id">;
+      if (couponData.siteId !== siteId) {
         return { data: null, error: "El cupón no pertenece a esta tienda", errorCode: ErrorCode.FORBIDDEN };
       }
 
-      transaction.delete(couponRef);
+      const now = new Date().toISOString();
+      // Solo un cupón no archivado ocupa cupo del plan
+      const couponCount = couponData.isArchived ? null : await readSiteCouponCount(transaction, siteId);
+
+      if (permanent) {
+        const redemptions = await transaction.get(couponRedemptionsQuery(siteId, couponId).limit(1));
+        if (couponData.usedCount > 0 || !redemptions.empty) {
+          return {
+            data: null,
+            error: "El cupón ya fue usado en órdenes: solo se puede archivar",
+            errorCode: ErrorCode.COUPON_HAS_REDEMPTIONS,
+          };
+        }
+
+        // Los contadores de uso también se borran (todo uso deja un registro en redemptions)
+        transaction.delete(couponRef);
+        if (couponCount != null) writeSiteCouponCount(transaction, siteId, couponCount - 1, now);
+        usageShardRefs(couponId, couponData.usageShards ?? 0).forEach((ref) => transaction.delete(ref));
+        recordCouponAudit(transaction, {
+          couponId,
+          actorUid: uid,
+          handler: "deleteCoupon",
+          before: couponData,
+          after: null,
+          now,
+        });
+
+        return { data: { id: couponId, permanent: true }, error: null };
+      }
+
+      // Archivar de nuevo un cupón archivado no cambia nada
+      if (couponCount != null) {
+        const archiveUpdates = { isArchived: true, archivedAt: now, planCountedAt: now, updatedAt: now };
+        transaction.update(couponRef, archiveUpdates);
+        writeSiteCouponCount(transaction, siteId, couponCount - 1, now);
+        recordCouponAudit(transaction, {
+          couponId,
+          actorUid: uid,
+          handler: "deleteCoupon",
+          before: couponData,
+          after: { ...couponData, ...archiveUpdates },
+          now,
+        });
+      }
 
-      return { data: { id: couponId }, error: null };
+      return { data: { id: couponId, permanent: false }, error: null };
     });
 
     return result;
@@ -255,24 +468,25 @@ export const deleteCouponHandler = withErrorHandling<{ id: string }>(
 
 /**
  * Valida si un cupón puede aplicarse a un carrito.
- * Verifica estado activo, fechas, usos disponibles y monto mínimo.
+ * Verifica estado activo, que el plan del sitio incluya su tipo de descuento, fechas,
+ * usos disponibles y monto mínimo.
  * Retorna preview del descuento sin modificar el cupón.
  */
-export const validateCouponHandler = withErrorHandling<ValidateCouponResult>(
+export const validateCouponHandler = withStorefrontAccess<ValidateCouponResult>(
   "validateCoupon",
-  async (request) => {
+  { requireSiteCredential: false },
+  async (request, { userId, settings }) => {
     const parsed = validateCouponSchema.safeParse(request.data);
     if (!parsed.success) {
       return { data: null, error: formatZodError(parsed.error), errorCode: ErrorCode.INVALID_INPUT };
     }
 
-    const { siteId, code, cartTotal } = parsed.data;
+    const { siteId, code, customerId } = parsed.data;
 
-    // Verificar que el sitio existe
-    const siteUserId = await getSiteUserId(siteId);
-    if (!siteUserId) {
-      return { data: null, error: "Sitio no encontrado", errorCode: ErrorCode.SITE_NOT_FOUND };
-    }
+    // Resolver carrito (con precios de catálogo si se enviaron `items`)
+    const cart = await resolveCart(siteId, parsed.data, settings);
+    if ("error" in cart) return cart;
+    const plan = await getUserPlan(userId);
 
     // Buscar cupón por código normalizado y siteId
     const snapshot = await couponByCodeQuery(siteId, code).get();
@@ -281,25 +495,41 @@ export const validateCouponHandler = withErrorHandling<ValidateCouponResult>(
       return { data: null, error: "Cupón no encontrado", errorCode: ErrorCode.COUPON_NOT_FOUND };
     }
 
-    const couponDoc = snapshot.docs[0];
-    const coupon = toCouponDocument(couponDoc);
+    const [coupon] = await loadCouponDocuments(snapshot.docs.slice(0, 1));
 
-    // Verificar elegibilidad (activo, fechas, usos, monto mínimo)
-    const eligibilityError = validateCouponEligibility(coupon, cartTotal);
+    // Usos previos del cliente, solo si el cupón limita por cliente
+    let customerUsageCount: number | undefined;
+    if (coupon.maxUsesPerCustomer != null && customerId) {
+      const usage = await customerRedemptionsQuery(siteId, coupon.id, customerId).count().get();
+      customerUsageCount = usage.data().count;
+    }
+
+    // Verificar elegibilidad (activo, fechas, usos, usos por cliente, monto mínimo)
+    const eligibilityError = validateCouponEligibility(coupon, cart.cartTotal, {
+      customerId,
+      customerUsageCount,
+      plan,
+    });
     if (eligibilityError) return eligibilityError;
 
-    // Calcular descuento
-    const discountAmount = calculateDiscount(coupon.discountType, coupon.discountValue, cartTotal);
-    const finalTotal = cartTotal - discountAmount;
+    // Verificar que el carrito tenga productos elegibles si el cupón está restringido
+    const scopeError = validateCartScope(coupon, cart);
+    if (scopeError) return scopeError;
+
+    // Calcular descuento (por línea si el carrito trae lineItems)
+    const discount = computeCouponDiscount(coupon, cart);
+    const finalTotal = cart.cartTotal + cart.shippingCost - discount.discountAmount;
 
     return {
       data: {
         valid: true,
         couponId: coupon.id,
-        code: coupon.code,
+        code: coupon.code ?? code,
         discountType: coupon.discountType,
         discountValue: coupon.discountValue,
-        discountAmount,
+        cartTotal: cart.cartTotal,
+        shippingCost: cart.shippingCost,
+        ...discount,
         finalTotal: Math.max(finalTotal, 0),
       },
       error: null,
@@ -313,65 +543,996 @@ export const validateCouponHandler = withErrorHandling<ValidateCouponResult>(
  * Aplica un cupón a una orden.
  * Usa transacción atómica para incrementar usedCount y prevenir race conditions.
  * Verifica todas las reglas de negocio dentro de la transacción.
+ * Es idempotente por siteId + orderId: cada uso queda registrado en `redemptions`
+ * y un reintento de la misma orden retorna el resultado original sin incrementar.
+ * Con `reservationId` confirma una reserva de reserveCoupon: el cupo ya está tomado,
+ * así que no se vuelve a verificar `maxUses` y la reserva se convierte en uso.
+ * Requiere una sesión del sitio: su dueño o un token de createStorefrontToken.
  */
-export const applyCouponHandler = withErrorHandling<ApplyCouponResult>(
+export const applyCouponHandler = withStorefrontAccess<ApplyCouponResult>(
   "applyCoupon",
-  async (request) => {
+  { requireSiteCredential: true },
+  async (request, { userId, settings }) => {
     const parsed = applyCouponSchema.safeParse(request.data);
     if (!parsed.success) {
       return { data: null, error: formatZodError(parsed.error), errorCode: ErrorCode.INVALID_INPUT };
     }
 
-    const { siteId, couponId, orderId, cartTotal } = parsed.data;
+    const { siteId, couponId, orderId, customerId, reservationId } = parsed.data;
 
-    // Verificar que el sitio existe
-    const siteUserId = await getSiteUserId(siteId);
-    if (!siteUserId) {
-      return { data: null, error: "Sitio no encontrado", errorCode: ErrorCode.SITE_NOT_FOUND };
-    }
+    // Resolver carrito (con precios de catálogo si se enviaron `items`)
+    const cart = await resolveCart(siteId, parsed.data, settings);
+    if ("error" in cart) return cart;
+    const plan = await getUserPlan(userId);
 
     type TxResult = FunctionResponse<ApplyCouponResult>;
 
     // Usar transacción para garantizar atomicidad al incrementar usedCount
     const result = await db.runTransaction(async (transaction): Promise<TxResult> => {
       const couponRef = couponsCollection.doc(couponId);
-      const couponDoc = await transaction.get(couponRef);
+      const orderRedemptionRef = redemptionRef(siteId, orderId);
+      const reservationRef = reservationId ? reservationsCollection.doc(reservationId) : null;
+      const [couponDoc, redemptionDoc, reservationDoc] = await transaction.getAll(
+        couponRef,
+        orderRedemptionRef,
+        ...(reservationRef ? [reservationRef] : []),
+      );
+
+      // Reintento de una orden ya procesada: retornar el resultado original
+      if (redemptionDoc.exists) {
+        const redemption = redemptionDoc.data() as RedemptionDocument;
+        if (redemption.couponId !== couponId || "coupons" in redemption.result) {
+          return {
+            data: null,
+            error: `La orden "${orderId}" ya tiene aplicado otro cupón`,
+            errorCode: ErrorCode.ORDER_ALREADY_REDEEMED,
+          };
+        }
+        if (redemption.status === "reverted") {
+          return {
+            data: null,
+            error: `El uso del cupón en la orden "${orderId}" fue revertido`,
+            errorCode: ErrorCode.REDEMPTION_REVERTED,
+          };
+        }
+        return { data: redemption.result, error: null };
+      }
 
       if (!couponDoc.exists) {
         return { data: null, error: "Cupón no encontrado", errorCode: ErrorCode.COUPON_NOT_FOUND };
       }
 
-      const coupon = toCouponDocument(couponDoc);
+      const storedCoupon = toCouponDocument(couponDoc);
 
       // Verificar que pertenece al sitio
-      if (coupon.siteId !== siteId) {
+      if (storedCoupon.siteId !== siteId) {
         return { data: null, error: "El cupón no pertenece a esta tienda", errorCode: ErrorCode.FORBIDDEN };
       }
 
-      // Verificar elegibilidad (activo, fechas, usos, monto mínimo)
-      const eligibilityError = validateCouponEligibility(coupon, cartTotal);
+      const now = new Date().toISOString();
+
+      // La reserva debe ser de este cupón y seguir vigente
+      let reservation: CouponReservationDocument | null = null;
+      if (reservationDoc) {
+        reservation = toReservationDocument(reservationDoc);
+        const reservationError = checkReservation(reservation, { siteId, couponIds: [couponId], customerId }, now);
+        if (reservationError) return reservationError;
+      }
+
+      // Usos previos del cliente, leídos dentro de la transacción
+      let customerUsageCount: number | undefined;
+      if (storedCoupon.maxUsesPerCustomer != null && customerId) {
+        const usage = await transaction.get(customerRedemptionsQuery(siteId, storedCoupon.id, customerId).count());
+        customerUsageCount = usage.data().count;
+      }
+
+      // Sin reserva, las reservas vencidas que ocupan el último cupo se liberan antes de verificarlo
+      const expiredReservations = reservation ? [] : await readExpiredReservations(transaction, storedCoupon, now);
+      const coupon: CouponDocument = {
+        ...storedCoupon,
+        reservedCount: (storedCoupon.reservedCount ?? 0) - expiredReservations.length,
+      };
+
+      // Con `usageShards` el cupo lo verifica el contador que se elige más abajo
+      const sharded = Boolean(coupon.usageShards);
+
+      // Verificar elegibilidad (activo, fechas, usos, usos por cliente, monto mínimo)
+      const eligibilityError = validateCouponEligibility(coupon, cart.cartTotal, {
+        customerId,
+        customerUsageCount,
+        slotSecured: reservation !== null || sharded,
+        plan,
+      });
       if (eligibilityError) return eligibilityError;
 
+      const scopeError = validateCartScope(coupon, cart);
+      if (scopeError) return scopeError;
+
+      // Contador que registra el uso: el de la reserva, o uno con cupo
+      let shardIndex = reservation?.usageShard ?? null;
+      if (sharded && !reservation) {
+        shardIndex = await allocateUsageShard(transaction, coupon);
+        if (shardIndex === null) {
+          return { data: null, error: "El cupón ha alcanzado el límite de usos", errorCode: ErrorCode.COUPON_MAX_USES };
+        }
+      }
+
       // Calcular descuento
-      const discountAmount = calculateDiscount(coupon.discountType, coupon.discountValue, cartTotal);
-      const finalTotal = Math.max(cartTotal - discountAmount, 0);
+      const discount = computeCouponDiscount(coupon, cart);
+      const finalTotal = Math.max(cart.cartTotal + cart.shippingCost - discount.discountAmount, 0);
 
-      // Incrementar usedCount y actualizar timestamp
+      // Incrementar usedCount (la reserva confirmada deja de contar como reservada).
+      // Con contador, el documento del cupón no se escribe: así no compite con otros checkouts
       const newUsedCount = coupon.usedCount + 1;
-      transaction.update(couponRef, {
-        usedCount: newUsedCount,
-        updatedAt: new Date().toISOString(),
+      if (shardIndex !== null) {
+        incrementUsageShard(transaction, coupon.id, shardIndex, { usedCount: 1, reservedCount: reservation ? -1 : 0 });
+      } else {
+        // Al alcanzar `maxUses` el cupón queda agotado en la misma escritura
+        const exhausted = exhaustionUpdates(coupon, newUsedCount, now);
+        const usageUpdates = {
+          usedCount: newUsedCount,
+          reservedCount: Math.max(coupon.reservedCount! - (reservation ? 1 : 0), 0),
+          ...exhausted,
+          updatedAt: now,
+        };
+        transaction.update(couponRef, usageUpdates);
+        if (exhausted) {
+          recordCouponAudit(transaction, {
+            couponId: coupon.id,
+            actorUid: SYSTEM_ACTOR,
+            handler: "applyCoupon",
+            before: coupon,
+            after: { ...coupon, ...exhausted },
+            now,
+          });
+        }
+      }
+      markReservationsExpired(transaction, expiredReservations.map((doc) => doc.ref), now);
+      if (reservation) {
+        transaction.update(reservationRef!, { status: "confirmed", orderId, confirmedAt: now, updatedAt: now });
+      }
+
+      const applyResult: ApplyCouponResult = {
+        couponId: coupon.id,
+        orderId,
+        discountType: coupon.discountType,
+        discountValue: coupon.discountValue,
+        cartTotal: cart.cartTotal,
+        shippingCost: cart.shippingCost,
+        ...discount,
+        finalTotal,
+        usedCount: sharded ? null : newUsedCount,
+      };
+
+      // Registrar el uso en la misma transacción
+      const redemption: Omit<RedemptionDocument, "id"> = {
+        siteId,
+        orderId,
+        couponId: coupon.id,
+        code: coupon.code,
+        couponIds: [coupon.id],
+        customerId: customerId ?? null,
+        cartTotal: cart.cartTotal,
+        discountAmount: discount.discountAmount,
+        finalTotal,
+        result: applyResult,
+        status: "applied",
+        revertedAt: null,
+        revertReason: null,
+        refunds: [],
+        refundedAmount: 0,
+        refundedDiscountAmount: 0,
+        ...(shardIndex !== null ? { usageShardIndexes: { [coupon.id]: shardIndex } } : {}),
+        createdAt: now,
+        updatedAt: now,
+      };
+      transaction.create(orderRedemptionRef, redemption);
+
+      return { data: applyResult, error: null };
+    });
+
+    return result;
+  },
+);
+
+// ── 7. revertCouponRedemption ───────────────────────────
+
+/**
+ * Revierte el uso de un cupón cuando una orden se cancela o reembolsa.
+ * Sin `refundAmount`: libera el uso (decrementa usedCount de cada cupón de la orden) y marca el registro como revertido.
+ * Con `refundAmount`: registra una devolución parcial contra el descuento original, sin liberar el uso.
+ * Ambos casos son idempotentes (por estado del registro o por `refundId`).
+ */
+export const revertCouponRedemptionHandler = withSiteOwner<RedemptionDocument>(
+  "revertCouponRedemption",
+  async (request, { uid }) => {
+    const parsed = revertCouponRedemptionSchema.safeParse(request.data);
+    if (!parsed.success) {
+      return { data: null, error: formatZodError(parsed.error), errorCode: ErrorCode.INVALID_INPUT };
+    }
+
+    const { siteId, orderId, reason, refundAmount, refundId } = parsed.data;
+
+    type TxResult = FunctionResponse<RedemptionDocument>;
+
+    const result = await db.runTransaction(async (transaction): Promise<TxResult> => {
+      const ref = redemptionRef(siteId, orderId);
+      const redemptionDoc = await transaction.get(ref);
+
+      if (!redemptionDoc.exists) {
+        return { data: null, error: "No hay un cupón aplicado a esta orden", errorCode: ErrorCode.REDEMPTION_NOT_FOUND };
+      }
+
+      const redemption = { id: redemptionDoc.id, ...redemptionDoc.data() } as RedemptionDocument;
+
+      if (redemption.siteId !== siteId) {
+        return { data: null, error: "La orden no pertenece a esta tienda", errorCode: ErrorCode.FORBIDDEN };
+      }
+
+      // Reversión ya aplicada: no volver a decrementar
+      if (redemption.status === "reverted") {
+        if (refundAmount !== undefined) {
+          return {
+            data: null,
+            error: "El uso ya fue revertido, no admite devoluciones parciales",
+            errorCode: ErrorCode.REDEMPTION_REVERTED,
+          };
+        }
+        return { data: redemption, error: null };
+      }
+
+      const now = new Date().toISOString();
+
+      // Devolución parcial
+      if (refundAmount !== undefined && refundId !== undefined) {
+        if (redemption.refunds.some((r) => r.refundId === refundId)) {
+          return { data: redemption, error: null };
+        }
+
+        if (redemption.refundedAmount + refundAmount > redemption.cartTotal) {
+          return {
+            data: null,
+            error: `La devolución supera el total de la orden ($${redemption.cartTotal - redemption.refundedAmount} disponibles)`,
+            errorCode: ErrorCode.INVALID_INPUT,
+          };
+        }
+
+        const refund: RedemptionRefund = {
+          refundId,
+          amount: refundAmount,
+          discountAmount: calculateRefundedDiscount(redemption, refundAmount),
+          reason,
+          createdAt: now,
+        };
+        const refundUpdates = {
+          refunds: [...redemption.refunds, refund],
+          refundedAmount: redemption.refundedAmount + refund.amount,
+          refundedDiscountAmount: redemption.refundedDiscountAmount + refund.discountAmount,
+          updatedAt: now,
+        };
+        transaction.update(ref, refundUpdates);
+
+        return { data: { ...redemption, ...refundUpdates }, error: null };
+      }
+
+      // Reversión completa: liberar el uso de cada cupón de la orden que aún exista
+      const couponRefs = redemption.couponIds.map((couponId) => couponsCollection.doc(couponId));
+      const couponDocs = await transaction.getAll(...couponRefs);
+      for (const couponDoc of couponDocs) {
+        if (!couponDoc.exists) continue;
+        const coupon = toCouponDocument(couponDoc);
+        // Un uso registrado en un contador se libera en ese contador, si el cupón aún lo tiene
+        const shardIndex = redemption.usageShardIndexes?.[coupon.id];
+        if (shardIndex != null && shardIndex < (coupon.usageShards ?? 0)) {
+          incrementUsageShard(transaction, coupon.id, shardIndex, { usedCount: -1 });
+          continue;
+        }
+        // Un cupón agotado que recupera un cupo vuelve a estar disponible
+        const usedCount = Math.max(coupon.usedCount - 1, 0);
+        const released = releaseExhaustionUpdates(coupon, usedCount);
+        const usageUpdates = { usedCount, ...released, updatedAt: now };
+        transaction.update(couponDoc.ref, usageUpdates);
+        if (released) {
+          recordCouponAudit(transaction, {
+            couponId: coupon.id,
+            actorUid: uid,
+            handler: "revertCouponRedemption",
+            before: coupon,
+            after: { ...coupon, ...released },
+            now,
+          });
+        }
+      }
+
+      const revertUpdates = {
+        status: "reverted" as const,
+        revertedAt: now,
+        revertReason: reason,
+        updatedAt: now,
+      };
+      transaction.update(ref, revertUpdates);
+
+      return { data: { ...redemption, ...revertUpdates }, error: null };
+    });
+
+    return result;
+  },
+);
+
+// ── 8. validateCoupons ──────────────────────────────────
+
+/**
+ * Valida una combinación de cupones sobre un carrito.
+ * Resuelve cuáles son compatibles (stackable, prioridad y grupo excluyente) y explica
+ * cada código descartado con su ErrorCode. No modifica los cupones.
+ */
+export const validateCouponsHandler = withStorefrontAccess<ValidateCouponsResult>(
+  "validateCoupons",
+  { requireSiteCredential: false },
+  async (request, { userId, settings }) => {
+    const parsed = validateCouponsSchema.safeParse(request.data);
+    if (!parsed.success) {
+      return { data: null, error: formatZodError(parsed.error), errorCode: ErrorCode.INVALID_INPUT };
+    }
+
+    const { siteId, codes, customerId } = parsed.data;
+
+    const cart = await resolveCart(siteId, parsed.data, settings);
+    if ("error" in cart) return cart;
+    const plan = await getUserPlan(userId);
+
+    const candidates = await Promise.all(
+      codes.map(async (code): Promise<StackCandidate> => {
+        const snapshot = await couponByCodeQuery(siteId, code).get();
+        if (snapshot.empty) return { code, coupon: null };
+
+        const [coupon] = await loadCouponDocuments(snapshot.docs.slice(0, 1));
+        let customerUsageCount: number | undefined;
+        if (coupon.maxUsesPerCustomer != null && customerId) {
+          const usage = await customerRedemptionsQuery(siteId, coupon.id, customerId).count().get();
+          customerUsageCount = usage.data().count;
+        }
+        return { code, coupon, customerUsageCount };
+      }),
+    );
+
+    const stack = resolveCouponStack(candidates, cart, { customerId, plan });
+
+    return {
+      data: {
+        valid: stack.coupons.length > 0,
+        cartTotal: cart.cartTotal,
+        shippingCost: cart.shippingCost,
+        ...stack,
+      },
+      error: null,
+    };
+  },
+);
+
+// ── 9. applyCoupons ─────────────────────────────────────
+
+/**
+ * Aplica una combinación de cupones a una orden.
+ * Todo ocurre en una sola transacción: si algún cupón se descarta no se aplica ninguno
+ * (el error trae el detalle en `errorDetails.rejected`), y los usedCount se incrementan juntos.
+ * Es idempotente por siteId + orderId, igual que applyCoupon. Como en applyCoupon, cada cupón
+ * puede traer su reserva (`reservationIds`), que se confirma sin volver a verificar `maxUses`;
+ * sin reserva, las vencidas que ocupan el último cupo se liberan antes de verificarlo.
+ */
+export const applyCouponsHandler = withStorefrontAccess<ApplyCouponsResult>(
+  "applyCoupons",
+  { requireSiteCredential: true },
+  async (request, { userId, settings }) => {
+    const parsed = applyCouponsSchema.safeParse(request.data);
+    if (!parsed.success) {
+      return { data: null, error: formatZodError(parsed.error), errorCode: ErrorCode.INVALID_INPUT };
+    }
+
+    const { siteId, couponIds, orderId, customerId, reservationIds = [] } = parsed.data;
+
+    const cart = await resolveCart(siteId, parsed.data, settings);
+    if ("error" in cart) return cart;
+    const plan = await getUserPlan(userId);
+
+    type TxResult = FunctionResponse<ApplyCouponsResult>;
+
+    const result = await db.runTransaction(async (transaction): Promise<TxResult> => {
+      const orderRedemptionRef = redemptionRef(siteId, orderId);
+      const couponRefs = couponIds.map((couponId) => couponsCollection.doc(couponId));
+      const reservationRefs = reservationIds.map((reservationId) => reservationsCollection.doc(reservationId));
+      const [redemptionDoc, ...docs] = await transaction.getAll(orderRedemptionRef, ...couponRefs, ...reservationRefs);
+      const couponDocs = docs.slice(0, couponRefs.length);
+      const reservationDocs = docs.slice(couponRefs.length);
+
+      // Reintento de una orden ya procesada: solo si es la misma combinación de cupones
+      if (redemptionDoc.exists) {
+        const redemption = redemptionDoc.data() as RedemptionDocument;
+        const sameCoupons =
+          redemption.couponIds.length === couponIds.length &&
+          couponIds.every((couponId) => redemption.couponIds.includes(couponId));
+        if (!sameCoupons || !("coupons" in redemption.result)) {
+          return {
+            data: null,
+            error: `La orden "${orderId}" ya tiene aplicados otros cupones`,
+            errorCode: ErrorCode.ORDER_ALREADY_REDEEMED,
+          };
+        }
+        if (redemption.status === "reverted") {
+          return {
+            data: null,
+            error: `El uso de cupones en la orden "${orderId}" fue revertido`,
+            errorCode: ErrorCode.REDEMPTION_REVERTED,
+          };
+        }
+        return { data: redemption.result, error: null };
+      }
+
+      const now = new Date().toISOString();
+
+      // Cada reserva debe ser de uno de los cupones de la orden (una por cupón) y seguir vigente
+      const reservations = new Map<string, CouponReservationDocument>();
+      for (const reservationDoc of reservationDocs) {
+        const reservation = toReservationDocument(reservationDoc);
+        const reservationError = checkReservation(reservation, { siteId, couponIds, customerId }, now);
+        if (reservationError) return reservationError;
+        if (reservations.has(reservation!.couponId)) {
+          return {
+            data: null,
+            error: `Solo se puede enviar una reserva por cupón (${reservation!.couponId})`,
+            errorCode: ErrorCode.INVALID_INPUT,
+          };
+        }
+        reservations.set(reservation!.couponId, reservation!);
+      }
+
+      // Cupones inexistentes o de otra tienda se descartan como no encontrados (code = couponId)
+      const candidates: StackCandidate[] = [];
+      const expiredReservations: FirebaseFirestore.QueryDocumentSnapshot[] = [];
+      for (const couponDoc of couponDocs) {
+        const storedCoupon = couponDoc.exists ? toCouponDocument(couponDoc) : null;
+        if (!storedCoupon || storedCoupon.siteId !== siteId) {
+          candidates.push({ code: couponDoc.id, coupon: null });
+          continue;
+        }
+        let customerUsageCount: number | undefined;
+        if (storedCoupon.maxUsesPerCustomer != null && customerId) {
+          const usage = await transaction.get(customerRedemptionsQuery(siteId, storedCoupon.id, customerId).count());
+          customerUsageCount = usage.data().count;
+        }
+        // Sin reserva, las reservas vencidas que ocupan el último cupo se liberan antes de verificarlo
+        const reserved = reservations.has(storedCoupon.id);
+        const expired = reserved ? [] : await readExpiredReservations(transaction, storedCoupon, now);
+        expiredReservations.push(...expired);
+        const coupon: CouponDocument = {
+          ...storedCoupon,
+          reservedCount: (storedCoupon.reservedCount ?? 0) - expired.length,
+        };
+        candidates.push({ code: couponLabel(coupon), coupon, customerUsageCount, slotSecured: reserved });
+      }
+
+      const stack = resolveCouponStack(candidates, cart, { customerId, plan });
+
+      // Todo o nada: un cupón descartado cancela la combinación completa
+      if (stack.rejected.length > 0) {
+        return {
+          data: null,
+          error: stack.rejected.map((r) => `${r.code}: ${r.error}`).join("; "),
+          errorCode: stack.rejected[0].errorCode,
+          errorDetails: { rejected: stack.rejected },
+        };
+      }
+
+      // Cupones con `usageShards`: un contador con cupo para cada uno, antes de escribir nada
+      const appliedWith = stack.coupons.map((stacked) => ({
+        stacked,
+        coupon: candidates.find((c) => c.coupon?.id === stacked.couponId)!.coupon!,
+      }));
+      const usageShardIndexes: Record<string, number> = {};
+      for (const { stacked, coupon } of appliedWith) {
+        // Un cupón reservado usa el contador de su reserva
+        const reservation = reservations.get(coupon.id);
+        if (reservation) {
+          if (reservation.usageShard != null) usageShardIndexes[coupon.id] = reservation.usageShard;
+          continue;
+        }
+        if (!coupon.usageShards) continue;
+        const shardIndex = await allocateUsageShard(transaction, coupon);
+        if (shardIndex === null) {
+          const rejected: RejectedCoupon = {
+            code: couponLabel(coupon),
+            couponId: stacked.couponId,
+            error: "El cupón ha alcanzado el límite de usos",
+            errorCode: ErrorCode.COUPON_MAX_USES,
+          };
+          return {
+            data: null,
+            error: `${rejected.code}: ${rejected.error}`,
+            errorCode: rejected.errorCode,
+            errorDetails: { rejected: [rejected] },
+          };
+        }
+        usageShardIndexes[coupon.id] = shardIndex;
+      }
+
+      // La reserva confirmada deja de contar como reservada
+      const appliedCoupons = appliedWith.map(({ stacked, coupon }) => {
+        const shardIndex = usageShardIndexes[coupon.id];
+        const reserved = reservations.has(coupon.id);
+        if (shardIndex !== undefined) {
+          incrementUsageShard(transaction, coupon.id, shardIndex, { usedCount: 1, reservedCount: reserved ? -1 : 0 });
+          return { ...stacked, usedCount: null };
+        }
+        const usedCount = coupon.usedCount + 1;
+        const exhausted = exhaustionUpdates(coupon, usedCount, now);
+        const usageUpdates = {
+          usedCount,
+          reservedCount: Math.max(coupon.reservedCount! - (reserved ? 1 : 0), 0),
+          ...exhausted,
+          updatedAt: now,
+        };
+        transaction.update(couponsCollection.doc(stacked.couponId), usageUpdates);
+        if (exhausted) {
+          recordCouponAudit(transaction, {
+            couponId: coupon.id,
+            actorUid: SYSTEM_ACTOR,
+            handler: "applyCoupons",
+            before: coupon,
+            after: { ...coupon, ...exhausted },
+            now,
+          });
+        }
+        return { ...stacked, usedCount };
       });
+      markReservationsExpired(transaction, expiredReservations.map((doc) => doc.ref), now);
+      for (const reservation of reservations.values()) {
+        transaction.update(reservationsCollection.doc(reservation.id), {
+          status: "confirmed",
+          orderId,
+          confirmedAt: now,
+          updatedAt: now,
+        });
+      }
+
+      const applyResult: ApplyCouponsResult = {
+        orderId,
+        cartTotal: cart.cartTotal,
+        shippingCost: cart.shippingCost,
+        discountAmount: stack.discountAmount,
+        merchandiseDiscount: stack.merchandiseDiscount,
+        shippingDiscount: stack.shippingDiscount,
+        finalTotal: stack.finalTotal,
+        coupons: appliedCoupons,
+      };
+
+      const [primary] = stack.coupons;
+      const redemption: Omit<RedemptionDocument, "id"> = {
+        siteId,
+        orderId,
+        couponId: primary.couponId,
+        code: primary.code,
+        couponIds: stack.coupons.map((c) => c.couponId),
+        customerId: customerId ?? null,
+        cartTotal: cart.cartTotal,
+        discountAmount: stack.discountAmount,
+        finalTotal: stack.finalTotal,
+        result: applyResult,
+        status: "applied",
+        revertedAt: null,
+        revertReason: null,
+        refunds: [],
+        refundedAmount: 0,
+        refundedDiscountAmount: 0,
+        ...(Object.keys(usageShardIndexes).length > 0 ? { usageShardIndexes } : {}),
+        createdAt: now,
+        updatedAt: now,
+      };
+      transaction.create(orderRedemptionRef, redemption);
+
+      return { data: applyResult, error: null };
+    });
+
+    return result;
+  },
+);
+
+// ── 10. getAutomaticPromotions ──────────────────────────
+
+/**
+ * Retorna las promociones automáticas (sin código) que aplican a un carrito.
+ * Usa las mismas reglas que validateCoupon (elegibilidad y alcance del carrito); cada promoción
+ * se calcula por separado. Para aplicarlas se envían sus IDs a applyCoupon o applyCoupons.
+ */
+export const getAutomaticPromotionsHandler = withStorefrontAccess<AutomaticPromotionsResult>(
+  "getAutomaticPromotions",
+  { requireSiteCredential: false },
+  async (request, { userId, settings }) => {
+    const parsed = getAutomaticPromotionsSchema.safeParse(request.data);
+    if (!parsed.success) {
+      return { data: null, error: formatZodError(parsed.error), errorCode: ErrorCode.INVALID_INPUT };
+    }
+
+    const { siteId, customerId } = parsed.data;
+
+    const cart = await resolveCart(siteId, parsed.data, settings);
+    if ("error" in cart) return cart;
+    const plan = await getUserPlan(userId);
+
+    const snapshot = await automaticPromotionsQuery(siteId).get();
+    const promotions = await Promise.all(
+      (await loadCouponDocuments(snapshot.docs)).map(async (coupon) => {
+        let customerUsageCount: number | undefined;
+        if (coupon.maxUsesPerCustomer != null && customerId) {
+          const usage = await customerRedemptionsQuery(siteId, coupon.id, customerId).count().get();
+          customerUsageCount = usage.data().count;
+        }
+
+        const ineligible =
+          validateCouponEligibility(coupon, cart.cartTotal, { customerId, customerUsageCount, plan }) ??
+          validateCartScope(coupon, cart);
+        return ineligible ? null : toStackedCoupon(coupon, computeCouponDiscount(coupon, cart));
+      }),
+    );
+
+    return {
+      data: {
+        cartTotal: cart.cartTotal,
+        shippingCost: cart.shippingCost,
+        promotions: promotions
+          .filter((promotion) => promotion !== null)
+          .sort((a, b) => b.priority - a.priority),
+      },
+      error: null,
+    };
+  },
+);
+
+// ── 11. getBestCoupons ──────────────────────────────────
+
+/**
+ * Sugiere al comprador los cupones públicos del sitio para su carrito ("calificas para X").
+ * Evalúa cada cupón activo con `visibility: "public"` y los retorna ordenados por descuento;
+ * los no elegibles incluyen el motivo (p. ej. cuánto falta para `minPurchase`).
+ * Los cupones privados y las promociones automáticas nunca se listan.
+ */
+export const getBestCouponsHandler = withStorefrontAccess<BestCouponsResult>(
+  "getBestCoupons",
+  { requireSiteCredential: false },
+  async (request, { userId, settings }) => {
+    const parsed = getBestCouponsSchema.safeParse(request.data);
+    if (!parsed.success) {
+      return { data: null, error: formatZodError(parsed.error), errorCode: ErrorCode.INVALID_INPUT };
+    }
+
+    const { siteId, customerId } = parsed.data;
+
+    const cart = await resolveCart(siteId, parsed.data, settings);
+    if ("error" in cart) return cart;
+    const plan = await getUserPlan(userId);
+
+    const snapshot = await publicCouponsQuery(siteId).get();
+    const candidates = await Promise.all(
+      (await loadCouponDocuments(snapshot.docs))
+        .filter((coupon) => !coupon.isAutomatic && coupon.code !== null && !coupon.isArchived)
+        // Los de tipos que el plan ya no incluye no se pueden aplicar: no se sugieren
+        .filter((coupon) => checkCouponEntitlements(plan, { discountType: coupon.discountType }) === null)
+        .map(async (coupon) => {
+          let customerUsageCount: number | undefined;
+          if (coupon.maxUsesPerCustomer != null && customerId) {
+            const usage = await customerRedemptionsQuery(siteId, coupon.id, customerId).count().get();
+            customerUsageCount = usage.data().count;
+          }
+          return { coupon, customerUsageCount };
+        }),
+    );
+
+    return {
+      data: {
+        cartTotal: cart.cartTotal,
+        shippingCost: cart.shippingCost,
+        coupons: rankCouponSuggestions(candidates, cart, { customerId }),
+      },
+      error: null,
+    };
+  },
+);
+
+// ── 12. getCouponStats ──────────────────────────────────
+
+/**
+ * Estadísticas de uso de un cupón (o de todo el sitio sin `couponId`): acumulado histórico,
+ * acumulado del rango y serie diaria. Lee solo los rollups de `couponStats`
+ * (uno total y uno por día), nunca los registros de uso.
+ * Un cupón eliminado conserva sus estadísticas mientras existan sus rollups.
+ */
+export const getCouponStatsHandler = withSiteOwner<CouponStatsResult>(
+  "getCouponStats",
+  async (request, { userId }) => {
+    const parsed = getCouponStatsSchema.safeParse(request.data);
+    if (!parsed.success) {
+      return { data: null, error: formatZodError(parsed.error), errorCode: ErrorCode.INVALID_INPUT };
+    }
+
+    const featureError = checkPlanFeature(await getUserPlan(userId), "analytics");
+    if (featureError) return featureError;
+
+    const { siteId, from, to } = parsed.data;
+    const couponId = parsed.data.couponId ?? null;
+
+    const days = dateRange(from, to);
+    const refs = [null, ...days].map((day) => couponStatsRef(siteId, couponId, day));
+    const [totalDoc, ...dayDocs] = await db.getAll(...refs);
+
+    if (couponId) {
+      const couponDoc = await couponsCollection.doc(couponId).get();
+      const ownerSiteId = couponDoc.exists ? couponDoc.data()?.siteId : totalDoc.data()?.siteId;
+      if (ownerSiteId === undefined) {
+        return { data: null, error: "Cupón no encontrado", errorCode: ErrorCode.COUPON_NOT_FOUND };
+      }
+      if (ownerSiteId !== siteId) {
+        return { data: null, error: "El cupón no pertenece a esta tienda", errorCode: ErrorCode.FORBIDDEN };
+      }
+    }
+
+    const series: DailyStats[] = days.map((date, i) => ({ date, ...summarizeStats(readStatsTotals(dayDocs[i])) }));
+
+    return {
+      data: {
+        siteId,
+        couponId,
+        totals: summarizeStats(readStatsTotals(totalDoc)),
+        rangeTotals: summarizeStats(sumSeries(series)),
+        series,
+      },
+      error: null,
+    };
+  },
+);
+
+// ── 13. getCouponHistory ────────────────────────────────
+
+/**
+ * Historial de cambios de un cupón, del más reciente al más antiguo, paginado como getCoupons.
+ * Funciona también con cupones eliminados: el historial se busca por couponId y siteId.
+ */
+export const getCouponHistoryHandler = withSiteOwner<CouponHistoryPage>(
+  "getCouponHistory",
+  async (request) => {
+    const parsed = getCouponHistorySchema.safeParse(request.data);
+    if (!parsed.success) {
+      return { data: null, error: formatZodError(parsed.error), errorCode: ErrorCode.INVALID_INPUT };
+    }
+
+    const { siteId, couponId, pageSize, cursor } = parsed.data;
+
+    const couponDoc = await couponsCollection.doc(couponId).get();
+    if (couponDoc.exists && couponDoc.data()?.siteId !== siteId) {
+      return { data: null, error: "El cupón no pertenece a esta tienda", errorCode: ErrorCode.FORBIDDEN };
+    }
+
+    let query = couponAuditCollection
+      .where("siteId", "==", siteId)
+      .where("couponId", "==", couponId)
+      .orderBy("createdAt", "desc");
+
+    if (cursor) {
+      const cursorId = decodeCursor(cursor);
+      const cursorDoc = cursorId ? await couponAuditCollection.doc(cursorId).get() : null;
+      if (!cursorDoc?.exists || cursorDoc.data()?.couponId !== couponId) {
+        return { data: null, error: "cursor inválido o expirado", errorCode: ErrorCode.INVALID_INPUT };
+      }
+      query = query.startAfter(cursorDoc);
+    }
+
+    const snapshot = await query.limit(pageSize + 1).get();
+    const docs = snapshot.docs.slice(0, pageSize);
+
+    // Sin cupón ni historial, el couponId no corresponde a nada de esta tienda
+    if (!couponDoc.exists && !cursor && docs.length === 0) {
+      return { data: null, error: "Cupón no encontrado", errorCode: ErrorCode.COUPON_NOT_FOUND };
+    }
+
+    return {
+      data: {
+        entries: docs.map((doc) => ({ id: doc.id, ...doc.data() }) as CouponAuditEntry),
+        nextCursor: snapshot.size > pageSize ? encodeCursor(docs[docs.length - 1].id) : null,
+      },
+      error: null,
+    };
+  },
+);
+
+// ── 14. restoreCoupon ───────────────────────────────────
+
+/**
+ * Restaura un cupón archivado con su configuración y usos.
+ * Vuelve a verificar el límite del plan (los archivados no ocupan cupo) y que su código siga libre.
+ */
+export const restoreCouponHandler = withSiteOwner<CouponDocument>(
+  "restoreCoupon",
+  async (request, { userId, uid }) => {
+    const parsed = restoreCouponSchema.safeParse(request.data);
+    if (!parsed.success) {
+      return { data: null, error: formatZodError(parsed.error), errorCode: ErrorCode.INVALID_INPUT };
+    }
+
+    const { siteId, couponId } = parsed.data;
+
+    const plan = await getUserPlan(userId);
+
+    type TxResult = FunctionResponse<CouponDocument>;
+
+    const result = await db.runTransaction(async (transaction): Promise<TxResult> => {
+      const couponRef = couponsCollection.doc(couponId);
+      const couponDoc = await transaction.get(couponRef);
+
+      if (!couponDoc.exists) {
+        return { data: null, error: "Cupón no encontrado", errorCode: ErrorCode.COUPON_NOT_FOUND };
+      }
+
+      const [coupon] = await loadCouponDocuments([couponDoc], transaction);
+      if (coupon.siteId !== siteId) {
+        return { data: null, error: "El cupón no pertenece a esta tienda", errorCode: ErrorCode.FORBIDDEN };
+      }
+      if (!coupon.isArchived) {
+        return { data: null, error: "El cupón no está archivado", errorCode: ErrorCode.INVALID_INPUT };
+      }
+
+      // El plan pudo cambiar desde que se archivó
+      const entitlementError = checkCouponEntitlements(plan, coupon);
+      if (entitlementError) return entitlementError;
+
+      const couponCount = await readSiteCouponCount(transaction, siteId);
+      const limitError = couponLimitError(couponCount, plan.couponLimit);
+      if (limitError) return limitError;
+
+      // El código se reserva mientras el cupón está archivado, pero se verifica de nuevo por si acaso
+      if (coupon.code) {
+        const sameCode = await transaction.get(
+          couponsCollection.where("siteId", "==", siteId).where("code", "==", coupon.code).limit(2),
+        );
+        if (sameCode.docs.some((doc) => doc.id !== couponId)) {
+          return {
+            data: null,
+            error: `Ya existe otro cupón con el código "${coupon.code}" en esta tienda`,
+            errorCode: ErrorCode.DUPLICATE_CODE,
+          };
+        }
+      }
+
+      const now = new Date().toISOString();
+      const restoreUpdates = { isArchived: false, archivedAt: null, planCountedAt: now, updatedAt: now };
+      transaction.update(couponRef, restoreUpdates);
+      writeSiteCouponCount(transaction, siteId, couponCount + 1, now);
+
+      const restored = { ...coupon, ...restoreUpdates };
+      recordCouponAudit(transaction, {
+        couponId,
+        actorUid: uid,
+        handler: "restoreCoupon",
+        before: coupon,
+        after: restored,
+        now,
+      });
+
+      return { data: restored, error: null };
+    });
+
+    return result;
+  },
+);
+
+// ── 15. reserveCoupon ───────────────────────────────────
+
+/**
+ * Reserva un uso del cupón durante el checkout, entre validateCoupon y applyCoupon.
+ * Verifica lo mismo que validateCoupon y, en la misma transacción, toma un cupo
+ * (`reservedCount`) por `ttlSeconds`. applyCoupon con el `reservationId` confirma el uso;
+ * si vence antes, el cupo se libera (job programado, o al pedirlo otro comprador).
+ * Requiere una sesión del sitio, igual que applyCoupon.
+ */
+export const reserveCouponHandler = withStorefrontAccess<ReserveCouponResult>(
+  "reserveCoupon",
+  { requireSiteCredential: true },
+  async (request, { userId, settings }) => {
+    const parsed = reserveCouponSchema.safeParse(request.data);
+    if (!parsed.success) {
+      return { data: null, error: formatZodError(parsed.error), errorCode: ErrorCode.INVALID_INPUT };
+    }
+
+    const { siteId, couponId, customerId, ttlSeconds } = parsed.data;
+
+    const cart = await resolveCart(siteId, parsed.data, settings);
+    if ("error" in cart) return cart;
+    const plan = await getUserPlan(userId);
+
+    type TxResult = FunctionResponse<ReserveCouponResult>;
+
+    const result = await db.runTransaction(async (transaction): Promise<TxResult> => {
+      const couponRef = couponsCollection.doc(couponId);
+      const couponDoc = await transaction.get(couponRef);
+
+      if (!couponDoc.exists) {
+        return { data: null, error: "Cupón no encontrado", errorCode: ErrorCode.COUPON_NOT_FOUND };
+      }
+
+      const storedCoupon = toCouponDocument(couponDoc);
+      if (storedCoupon.siteId !== siteId) {
+        return { data: null, error: "El cupón no pertenece a esta tienda", errorCode: ErrorCode.FORBIDDEN };
+      }
+
+      let customerUsageCount: number | undefined;
+      if (storedCoupon.maxUsesPerCustomer != null && customerId) {
+        const usage = await transaction.get(customerRedemptionsQuery(siteId, storedCoupon.id, customerId).count());
+        customerUsageCount = usage.data().count;
+      }
+
+      const now = new Date();
+      const timestamp = now.toISOString();
+
+      // Reservas vencidas que ocupan el último cupo: se liberan en esta misma transacción
+      const expiredReservations = await readExpiredReservations(transaction, storedCoupon, timestamp);
+      const coupon: CouponDocument = {
+        ...storedCoupon,
+        reservedCount: (storedCoupon.reservedCount ?? 0) - expiredReservations.length,
+      };
+
+      // Con `usageShards` la reserva se guarda en un contador con cupo, como un uso
+      const sharded = Boolean(coupon.usageShards);
+      const eligibilityError = validateCouponEligibility(coupon, cart.cartTotal, {
+        customerId,
+        customerUsageCount,
+        slotSecured: sharded,
+        plan,
+      });
+      if (eligibilityError) return eligibilityError;
+
+      const scopeError = validateCartScope(coupon, cart);
+      if (scopeError) return scopeError;
+
+      const shardIndex = sharded ? await allocateUsageShard(transaction, coupon) : null;
+      if (sharded && shardIndex === null) {
+        return { data: null, error: "El cupón ha alcanzado el límite de usos", errorCode: ErrorCode.COUPON_MAX_USES };
+      }
+
+      const discount = computeCouponDiscount(coupon, cart);
+      const finalTotal = cart.cartTotal + cart.shippingCost - discount.discountAmount;
+
+      if (shardIndex !== null) {
+        incrementUsageShard(transaction, coupon.id, shardIndex, { reservedCount: 1 });
+      } else {
+        transaction.update(couponRef, { reservedCount: coupon.reservedCount! + 1, updatedAt: timestamp });
+      }
+      markReservationsExpired(transaction, expiredReservations.map((doc) => doc.ref), timestamp);
+
+      const reservationRef = reservationsCollection.doc();
+      const reservation: Omit<CouponReservationDocument, "id"> = {
+        siteId,
+        couponId,
+        customerId: customerId ?? null,
+        status: "active",
+        expiresAt: reservationExpiresAt(now, ttlSeconds),
+        usageShard: shardIndex,
+        orderId: null,
+        confirmedAt: null,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      };
+      transaction.create(reservationRef, reservation);
 
       return {
         data: {
+          valid: true,
           couponId: coupon.id,
-          orderId,
+          code: coupon.code,
           discountType: coupon.discountType,
           discountValue: coupon.discountValue,
-          discountAmount,
-          finalTotal,
-          usedCount: newUsedCount,
+          cartTotal: cart.cartTotal,
+          shippingCost: cart.shippingCost,
+          ...discount,
+          finalTotal: Math.max(finalTotal, 0),
+          reservationId: reservationRef.id,
+          expiresAt: reservation.expiresAt,
         },
         error: null,
       };
@@ -380,3 +1541,46 @@ export const applyCouponHandler = withErrorHandling<ApplyCouponResult>(
     return result;
   },
 );
+
+// ── 16. createStorefrontToken ───────────────────────────
+
+/**
+ * Emite la credencial del checkout de un sitio: un custom token con el claim `siteId`.
+ * El backend del dueño la pide y la entrega a su checkout, que inicia sesión con ella;
+ * así applyCoupon y reserveCoupon solo aceptan sesiones atadas a esta tienda.
+ */
+export const createStorefrontTokenHandler = withSiteOwner<StorefrontToken>(
+  "createStorefrontToken",
+  async (request) => {
+    const parsed = createStorefrontTokenSchema.safeParse(request.data);
+    if (!parsed.success) {
+      return { data: null, error: formatZodError(parsed.error), errorCode: ErrorCode.INVALID_INPUT };
+    }
+
+    const { siteId } = parsed.data;
+    const uid = `storefront-${siteId}`;
+    const token = await auth.createCustomToken(uid, { [STOREFRONT_SITE_CLAIM]: siteId });
+    return { data: { token, uid }, error: null };
+  },
+);
+
+// ── 17. updateSiteSettings ──────────────────────────────
+
+/**
+ * Actualiza la configuración del sitio. Con `requireCatalogPricing` el storefront debe enviar
+ * `items`: validar, aplicar, reservar o sugerir cupones con `cartTotal` o `lineItems` responde
+ * `CATALOG_ITEMS_REQUIRED`, así el cliente no puede declarar sus propios precios.
+ */
+export const updateSiteSettingsHandler = withSiteOwner<SiteSettings>(
+  "updateSiteSettings",
+  async (request, { siteId, settings }) => {
+    const parsed = updateSiteSettingsSchema.safeParse(request.data);
+    if (!parsed.success) {
+      return { data: null, error: formatZodError(parsed.error), errorCode: ErrorCode.INVALID_INPUT };
+    }
+
+    const { requireCatalogPricing } = parsed.data;
+    await sitesCollection.doc(siteId).update({ requireCatalogPricing });
+    return { data: { ...settings, requireCatalogPricing }, error: null };
+  },
+);
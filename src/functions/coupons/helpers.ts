@@ -5,10 +5,57 @@ import type { ZodError } from "zod";
 import { db } from "../../lib/firebase.js";
 import { ErrorCode } from "../../types/common.js";
 import type { FunctionResponse } from "../../types/common.js";
-import type { CouponDocument, DiscountType } from "../../types/coupon.js";
+import { PERCENTAGE_BASED_DISCOUNT_TYPES, VALUELESS_DISCOUNT_TYPES } from "../../types/coupon.js";
+import type {
+  AppliedTier,
+  BuyXGetYConfig,
+  CouponDocument,
+  CouponListFilters,
+  CreateCouponRequest,
+  DiscountTier,
+  DiscountType,
+  NextTier,
+  SiteSettings,
+  UsageShard,
+} from "../../types/coupon.js";
+import type { RedemptionDocument } from "../../types/redemption.js";
+import type { ProductDocument } from "../../types/product.js";
+import type { PlanDocument } from "../../types/plan.js";
+import { checkCouponEntitlements } from "./entitlements.js";
 
-const sitesCollection = db.collection("sites");
+export const sitesCollection = db.collection("sites");
 export const couponsCollection = db.collection("coupons");
+export const redemptionsCollection = db.collection("redemptions");
+export const productsCollection = db.collection("products");
+
+/**
+ * Construye una query sobre los usos vigentes (no revertidos) de un cupón por un cliente.
+ * Filtra por `couponIds` para contar también las órdenes donde el cupón se combinó con otros.
+ * Se usa con `.count()` dentro de la transacción de applyCoupon o directo en validateCoupon.
+ */
+export function customerRedemptionsQuery(siteId: string, couponId: string, customerId: string) {
+  return redemptionsCollection
+    .where("siteId", "==", siteId)
+    .where("couponIds", "array-contains", couponId)
+    .where("customerId", "==", customerId)
+    .where("status", "==", "applied");
+}
+
+/**
+ * Construye una query sobre todos los registros de uso de un cupón en un sitio, incluidos los revertidos.
+ */
+export function couponRedemptionsQuery(siteId: string, couponId: string) {
+  return redemptionsCollection.where("siteId", "==", siteId).where("couponIds", "array-contains", couponId);
+}
+
+/**
+ * Referencia al registro de uso de una orden. El ID es determinístico (siteId + orderId)
+ * para poder leerlo dentro de la transacción de applyCoupon sin queries.
+ * Ambas partes se codifican para que ningún par siteId/orderId colisione con otro.
+ */
+export function redemptionRef(siteId: string, orderId: string) {
+  return redemptionsCollection.doc(`${encodeURIComponent(siteId)}|${encodeURIComponent(orderId)}`);
+}
 
 /**
  * Construye una query para buscar un cupón por código normalizado y siteId.
@@ -21,6 +68,66 @@ export function couponByCodeQuery(siteId: string, code: string) {
     .limit(1);
 }
 
+/**
+ * Consulta las promociones automáticas activas de un sitio (sin código).
+ */
+export function automaticPromotionsQuery(siteId: string) {
+  return couponsCollection
+    .where("siteId", "==", siteId)
+    .where("isAutomatic", "==", true)
+    .where("isActive", "==", true);
+}
+
+/**
+ * Consulta los cupones activos de un sitio marcados como públicos (sugeribles al comprador).
+ */
+export function publicCouponsQuery(siteId: string) {
+  return couponsCollection
+    .where("siteId", "==", siteId)
+    .where("visibility", "==", "public")
+    .where("isActive", "==", true);
+}
+
+/**
+ * Consulta el listado de cupones de un sitio con los filtros de getCoupons (sin orden ni límite).
+ * `now` define qué cupones cuentan como vencidos. Las fechas se comparan como strings ISO en UTC.
+ * Cada combinación de filtros y orden tiene su índice en firestore.indexes.json.
+ */
+export function couponListQuery(siteId: string, filters: CouponListFilters, now: string) {
+  let query = couponsCollection.where("siteId", "==", siteId).where("isArchived", "==", filters.archived ?? false);
+  if (filters.isActive !== undefined) query = query.where("isActive", "==", filters.isActive);
+  if (filters.discountType) query = query.where("discountType", "==", filters.discountType);
+  if (filters.codePrefix) {
+    query = query.where("code", ">=", filters.codePrefix).where("code", "<", `${filters.codePrefix}\uf8ff`);
+  }
+  if (filters.expired !== undefined) {
+    query = query.where("validUntil", filters.expired ? "<" : ">=", now);
+  }
+  if (filters.validityRange) {
+    query = query
+      .where("validFrom", "<=", filters.validityRange.to)
+      .where("validUntil", ">=", filters.validityRange.from);
+  }
+  return query;
+}
+
+/** Cursor opaco de paginación: el ID del último documento de la página. */
+export function encodeCursor(docId: string): string {
+  return Buffer.from(docId, "utf8").toString("base64url");
+}
+
+/** Retorna el ID codificado en el cursor, o null si no es un cursor válido. */
+export function decodeCursor(cursor: string): string | null {
+  const docId = Buffer.from(cursor, "base64url").toString("utf8");
+  if (!docId || docId.includes("/") || encodeCursor(docId) !== cursor) return null;
+  return docId;
+}
+
+/** Identifica un cupón en mensajes: su código, o el nombre si es una promoción automática. */
+export function couponLabel(coupon: Pick<CouponDocument, "id" | "code" | "name">): string {
+  return coupon.code ?? coupon.name ?? coupon.id;
+}
+
 export function formatZodError(error: ZodError): string {
   return error.issues.map((i) => `${i.path.join(".")}: ${i.message}`).join("; ");
 }
@@ -31,12 +138,71 @@ export async function getSiteUserId(siteId: string): Promise<string | null> {
   return (siteDoc.data()?.userId as string) ?? null;
 }
 
+/**
+ * Carga productos por ID en una sola lectura. Los inexistentes quedan como null.
+ */
+export async function loadProducts(productIds: string[]): Promise<Map<string, ProductDocument | null>> {
+  const uniqueIds = [...new Set(productIds)];
+  const products = new Map<string, ProductDocument | null>();
+  if (uniqueIds.length === 0) return products;
+
+  const docs = await db.getAll(...uniqueIds.map((id) => productsCollection.doc(id)));
+  for (const doc of docs) {
+    products.set(doc.id, doc.exists ? ({ id: doc.id, ...doc.data() } as ProductDocument) : null);
+  }
+  return products;
+}
+
+/**
+ * Reúne todos los productos que referencia la configuración de un cupón
+ * (inclusión, exclusión y productos de buy_x_get_y).
+ */
+export function referencedProductIds(fields: {
+  productIds?: string[] | null;
+  excludedProductIds?: string[] | null;
+  buyXGetY?: BuyXGetYConfig | null;
+}): string[] {
+  return [
+    ...(fields.productIds ?? []),
+    ...(fields.excludedProductIds ?? []),
+    ...(fields.buyXGetY?.buyProductIds ?? []),
+    ...(fields.buyXGetY?.getProductIds ?? []),
+  ];
+}
+
+/**
+ * Verifica que todos los productos existan y pertenezcan al sitio.
+ * Retorna null si son válidos, o un FunctionResponse con los IDs rechazados en `errorDetails`.
+ */
+export async function validateSiteProducts(
+  siteId: string,
+  productIds: string[],
+): Promise<FunctionResponse<never> | null> {
+  const products = await loadProducts(productIds);
+  const invalid = [...products.entries()]
+    .filter(([, product]) => !product || product.siteId !== siteId)
+    .map(([id]) => id);
+  if (invalid.length === 0) return null;
+
+  return {
+    data: null,
+    error: `Productos no encontrados en esta tienda: ${invalid.join(", ")}`,
+    errorCode: ErrorCode.PRODUCT_NOT_FOUND,
+    errorDetails: { productIds: invalid },
+  };
+}
+
 const COUPON_REQUIRED_FIELDS = [
   "siteId", "userId", "code", "discountType", "discountValue",
   "usedCount", "validFrom", "validUntil", "isActive", "createdAt", "updatedAt",
 ] as const;
 
-export function toCouponDocument(doc: FirebaseFirestore.DocumentSnapshot): CouponDocument {
+/**
+ * Convierte un snapshot en CouponDocument verificando los campos requeridos.
+ * Si el cupón tiene `usageShards`, con `shards` (sus contadores) `usedCount` y `reservedCount`
+ * son el total; sin ellos, solo lo registrado en el documento.
+ */
+export function toCouponDocument(doc: FirebaseFirestore.DocumentSnapshot, shards?: UsageShard[]): CouponDocument {
   const data = doc.data();
   if (!data) {
     throw new Error("Coupon document has no data");
@@ -47,32 +213,171 @@ export function toCouponDocument(doc: FirebaseFirestore.DocumentSnapshot): Coupo
     throw new Error(`Coupon document missing required fields: ${missing.join(", ")}`);
   }
 
-  return { id: doc.id, ...data } as CouponDocument;
+  const coupon = { id: doc.id, ...data } as CouponDocument;
+  if (!coupon.usageShards || !shards) return coupon;
+
+  return {
+    ...coupon,
+    usedCount: shards.reduce((sum, shard) => sum + shard.usedCount, coupon.usedCount),
+    reservedCount: shards.reduce((sum, shard) => sum + shard.reservedCount, coupon.reservedCount ?? 0),
+  };
+}
+
+/** Configuración de un cupón tal como llega a createCoupon, sin sitio ni código. */
+export type CouponSettings = Omit<CreateCouponRequest, "siteId" | "code">;
+
+/**
+ * Arma los datos de un cupón nuevo, con los opcionales ausentes guardados como null
+ * (o su valor por defecto). Lo usan createCoupon y la generación de códigos de campañas.
+ */
+export function buildCouponData(
+  settings: CouponSettings,
+  meta: { siteId: string; userId: string; code: string | null; now: string; campaignId?: string },
+) {
+  return {
+    siteId: meta.siteId,
+    userId: meta.userId,
+    code: meta.code,
+    campaignId: meta.campaignId ?? null,
+    isAutomatic: settings.isAutomatic ?? false,
+    name: settings.name ?? null,
+    visibility: settings.visibility ?? "private",
+    discountType: settings.discountType,
+    discountValue: settings.discountValue ?? 0,
+    buyXGetY: settings.buyXGetY ?? null,
+    tiers: settings.tiers ?? null,
+    maxDiscountAmount: settings.maxDiscountAmount ?? null,
+    minPurchase: settings.minPurchase ?? null,
+    maxUses: settings.maxUses ?? null,
+    maxUsesPerCustomer: settings.maxUsesPerCustomer ?? null,
+    productIds: settings.productIds ?? null,
+    excludedProductIds: settings.excludedProductIds ?? null,
+    stackable: settings.stackable ?? false,
+    priority: settings.priority ?? 0,
+    exclusiveGroup: settings.exclusiveGroup ?? null,
+    usageShards: settings.usageShards ?? null,
+    usedCount: 0,
+    reservedCount: 0,
+    validFrom: settings.validFrom,
+    validUntil: settings.validUntil,
+    isActive: true,
+    isArchived: false,
+    archivedAt: null,
+    expiredAt: null,
+    exhaustedAt: null,
+    planLimitedAt: null,
+    planCountedAt: meta.now,
+    createdAt: meta.now,
+    updatedAt: meta.now,
+  };
+}
+
+/**
+ * Selecciona el tramo más alto que alcanza `cartTotal` y el siguiente tramo disponible.
+ * Los tramos vienen ordenados por `minCartTotal` ascendente (lo garantizan los schemas).
+ */
+export function selectTier(
+  tiers: DiscountTier[],
+  cartTotal: number,
+): { appliedTier: AppliedTier | null; nextTier: NextTier | null } {
+  let appliedTier: AppliedTier | null = null;
+  for (const [index, tier] of tiers.entries()) {
+    if (cartTotal < tier.minCartTotal) {
+      return { appliedTier, nextTier: { ...tier, amountRemaining: tier.minCartTotal - cartTotal } };
+    }
+    appliedTier = { ...tier, index };
+  }
+  return { appliedTier, nextTier: null };
 }
 
+/**
+ * Calcula el monto de descuento. Los cupones `free_shipping` descuentan el despacho
+ * (`options.shippingCost`) en vez del subtotal; en `buy_x_get_y` el porcentaje se aplica
+ * sobre el precio de las unidades premiadas. En `tiered` se usa el tramo más alto que
+ * alcanza `options.tierBase` (por defecto `cartTotal`) y su descuento se aplica sobre `cartTotal`.
+ * `options.maxDiscountAmount` limita el descuento de mercadería.
+ */
 export function calculateDiscount(
   discountType: DiscountType,
   discountValue: number,
   cartTotal: number,
+  options: {
+    shippingCost?: number;
+    tiers?: DiscountTier[];
+    tierBase?: number;
+    maxDiscountAmount?: number | null;
+  } = {},
 ): number {
-  if (discountType === "percentage") {
-    return Math.round(cartTotal * (discountValue / 100));
+  if (discountType === "free_shipping") {
+    return options.shippingCost ?? 0;
   }
-  return Math.min(discountValue, cartTotal);
+  let discount: number;
+  if (discountType === "tiered") {
+    const { appliedTier } = selectTier(options.tiers ?? [], options.tierBase ?? cartTotal);
+    discount = appliedTier ? calculateDiscount(appliedTier.discountType, appliedTier.discountValue, cartTotal) : 0;
+  } else if (discountType === "percentage" || discountType === "buy_x_get_y") {
+    discount = Math.round(cartTotal * (discountValue / 100));
+  } else {
+    discount = Math.min(discountValue, cartTotal);
+  }
+  return options.maxDiscountAmount != null ? Math.min(discount, options.maxDiscountAmount) : discount;
+}
+
+/**
+ * Calcula la porción del descuento original que corresponde a una devolución parcial.
+ * La devolución se expresa sobre el subtotal antes de descuento (`cartTotal` del uso),
+ * y la suma de porciones nunca supera el descuento original.
+ */
+export function calculateRefundedDiscount(
+  redemption: Pick<RedemptionDocument, "cartTotal" | "discountAmount" | "refundedDiscountAmount">,
+  refundAmount: number,
+): number {
+  if (redemption.cartTotal <= 0) return 0;
+  const share = Math.round(redemption.discountAmount * (refundAmount / redemption.cartTotal));
+  return Math.min(share, redemption.discountAmount - redemption.refundedDiscountAmount);
+}
+
+/**
+ * Datos del comprador necesarios para validar elegibilidad.
+ * `customerUsageCount` son los usos vigentes del cupón por `customerId`.
+ * `slotSecured` indica que el uso ya tiene cupo asegurado (una reserva, o el contador de un cupón
+ * con `usageShards`, que verifica el cupo por su cuenta): no se verifica `maxUses`.
+ */
+export interface EligibilityContext {
+  customerId?: string | null;
+  customerUsageCount?: number;
+  slotSecured?: boolean;
+  /** Plan del dueño del sitio: un cupón cuyo tipo de descuento ya no incluye no se aplica. */
+  plan?: PlanDocument;
 }
 
 /**
- * Valida elegibilidad de un cupón: estado activo, fechas, usos y monto mínimo.
+ * Valida elegibilidad de un cupón: estado activo, tipo de descuento incluido en el plan, fechas,
+ * usos, usos por cliente y monto mínimo.
  * Retorna null si el cupón es elegible, o un FunctionResponse con el error.
  */
 export function validateCouponEligibility(
   coupon: CouponDocument,
   cartTotal: number,
+  context: EligibilityContext = {},
 ): FunctionResponse<never> | null {
+  if (coupon.isArchived) {
+    return { data: null, error: "El cupón fue eliminado", errorCode: ErrorCode.COUPON_ARCHIVED };
+  }
+  // Un cupón agotado queda inactivo con `exhaustedAt`: se informa como sin usos
+  if (!coupon.isActive && coupon.exhaustedAt) {
+    return { data: null, error: "El cupón ha alcanzado el límite de usos", errorCode: ErrorCode.COUPON_MAX_USES };
+  }
   if (!coupon.isActive) {
     return { data: null, error: "El cupón no está activo", errorCode: ErrorCode.COUPON_INACTIVE };
   }
 
+  // Tras un cambio a un plan menor, los cupones de tipos que ya no incluye dejan de aplicarse
+  if (context.plan) {
+    const entitlementError = checkCouponEntitlements(context.plan, { discountType: coupon.discountType });
+    if (entitlementError) return entitlementError;
+  }
+
   const now = new Date();
   if (now < new Date(coupon.validFrom)) {
     return { data: null, error: "El cupón aún no es válido", errorCode: ErrorCode.COUPON_NOT_YET_VALID };
@@ -81,8 +386,36 @@ export function validateCouponEligibility(
     return { data: null, error: "El cupón ha expirado", errorCode: ErrorCode.COUPON_EXPIRED };
   }
 
-  if (coupon.maxUses != null && coupon.usedCount >= coupon.maxUses) {
-    return { data: null, error: "El cupón ha alcanzado el límite de usos", errorCode: ErrorCode.COUPON_MAX_USES };
+  if (coupon.maxUses != null && !context.slotSecured) {
+    if (coupon.usedCount >= coupon.maxUses) {
+      return { data: null, error: "El cupón ha alcanzado el límite de usos", errorCode: ErrorCode.COUPON_MAX_USES };
+    }
+    // Los usos restantes pueden estar tomados por reservas de otros checkouts
+    if (coupon.usedCount + (coupon.reservedCount ?? 0) >= coupon.maxUses) {
+      return {
+        data: null,
+        error: "Los usos restantes del cupón están reservados por otras compras",
+        errorCode: ErrorCode.COUPON_MAX_USES,
+        errorDetails: { reservedCount: coupon.reservedCount },
+      };
+    }
+  }
+
+  if (coupon.maxUsesPerCustomer != null) {
+    if (!context.customerId) {
+      return {
+        data: null,
+        error: "Este cupón requiere identificar al cliente (customerId)",
+        errorCode: ErrorCode.CUSTOMER_ID_REQUIRED,
+      };
+    }
+    if ((context.customerUsageCount ?? 0) >= coupon.maxUsesPerCustomer) {
+      return {
+        data: null,
+        error: "El cliente ya alcanzó el límite de usos de este cupón",
+        errorCode: ErrorCode.CUSTOMER_MAX_USES,
+      };
+    }
   }
 
   if (coupon.minPurchase != null && cartTotal < coupon.minPurchase) {
@@ -90,26 +423,94 @@ export function validateCouponEligibility(
       data: null,
       error: `El monto mínimo de compra es $${coupon.minPurchase}`,
       errorCode: ErrorCode.MIN_PURCHASE_NOT_MET,
+      errorDetails: { minPurchase: coupon.minPurchase, amountRemaining: coupon.minPurchase - cartTotal },
     };
   }
 
+  // Un cupón tiered bajo el primer tramo no descuenta nada: se informa cuánto falta
+  if (coupon.discountType === "tiered" && coupon.tiers && coupon.tiers.length > 0) {
+    const { appliedTier, nextTier } = selectTier(coupon.tiers, cartTotal);
+    if (!appliedTier && nextTier) {
+      return {
+        data: null,
+        error: `El monto mínimo de compra es $${nextTier.minCartTotal}`,
+        errorCode: ErrorCode.MIN_PURCHASE_NOT_MET,
+        errorDetails: { minCartTotal: nextTier.minCartTotal, amountRemaining: nextTier.amountRemaining },
+      };
+    }
+  }
+
   return null;
 }
 
 /**
  * Valida reglas cruzadas de un update parcial contra los datos existentes del cupón.
- * Combina valores nuevos con existentes para verificar porcentaje ≤ 100 y validFrom < validUntil.
+ * Combina valores nuevos con existentes para verificar porcentaje ≤ 100, validFrom < validUntil
+ * y que ningún producto quede incluido y excluido a la vez.
  * Retorna null si es válido, o un FunctionResponse con el error.
  */
 export function validateUpdateFields(
   currentData: CouponDocument,
-  updates: { discountType?: DiscountType; discountValue?: number; validFrom?: string; validUntil?: string },
+  updates: {
+    code?: string;
+    discountType?: DiscountType;
+    discountValue?: number;
+    buyXGetY?: BuyXGetYConfig | null;
+    tiers?: DiscountTier[] | null;
+    maxDiscountAmount?: number | null;
+    validFrom?: string;
+    validUntil?: string;
+    productIds?: string[] | null;
+    excludedProductIds?: string[] | null;
+  },
 ): FunctionResponse<never> | null {
+  if (currentData.isAutomatic && updates.code !== undefined) {
+    return { data: null, error: "Las promociones automáticas no llevan código", errorCode: ErrorCode.INVALID_INPUT };
+  }
+
   const finalDiscountType = updates.discountType ?? currentData.discountType;
   const finalDiscountValue = updates.discountValue ?? currentData.discountValue;
-  if (finalDiscountType === "percentage" && finalDiscountValue > 100) {
+  if ((finalDiscountType === "percentage" || finalDiscountType === "buy_x_get_y") && finalDiscountValue > 100) {
     return { data: null, error: "Porcentaje no puede superar 100%", errorCode: ErrorCode.INVALID_INPUT };
   }
+  const valueless = VALUELESS_DISCOUNT_TYPES.includes(finalDiscountType);
+  if (valueless && updates.discountValue !== undefined) {
+    return {
+      data: null,
+      error: "discountValue no aplica a este tipo de descuento",
+      errorCode: ErrorCode.INVALID_INPUT,
+    };
+  }
+  if (!valueless && finalDiscountValue <= 0) {
+    return { data: null, error: "discountValue es requerido para este tipo de descuento", errorCode: ErrorCode.INVALID_INPUT };
+  }
+
+  // buyXGetY solo existe en cupones buy_x_get_y (al cambiar de tipo el handler lo limpia)
+  const finalBuyXGetY = updates.buyXGetY !== undefined ? updates.buyXGetY : currentData.buyXGetY;
+  if (finalDiscountType === "buy_x_get_y" && !finalBuyXGetY) {
+    return { data: null, error: "buyXGetY es requerido para cupones buy_x_get_y", errorCode: ErrorCode.INVALID_INPUT };
+  }
+  if (finalDiscountType !== "buy_x_get_y" && updates.buyXGetY) {
+    return { data: null, error: "buyXGetY solo aplica a cupones buy_x_get_y", errorCode: ErrorCode.INVALID_INPUT };
+  }
+
+  // Igual con tiers en cupones tiered
+  const finalTiers = updates.tiers !== undefined ? updates.tiers : currentData.tiers;
+  if (finalDiscountType === "tiered" && (!finalTiers || finalTiers.length === 0)) {
+    return { data: null, error: "tiers es requerido para cupones tiered", errorCode: ErrorCode.INVALID_INPUT };
+  }
+  if (finalDiscountType !== "tiered" && updates.tiers) {
+    return { data: null, error: "tiers solo aplica a cupones tiered", errorCode: ErrorCode.INVALID_INPUT };
+  }
+
+  // El tope de descuento solo tiene sentido en tipos porcentuales
+  if (updates.maxDiscountAmount != null && !PERCENTAGE_BASED_DISCOUNT_TYPES.includes(finalDiscountType)) {
+    return {
+      data: null,
+      error: "maxDiscountAmount solo aplica a descuentos porcentuales",
+      errorCode: ErrorCode.INVALID_INPUT,
+    };
+  }
 
   const finalValidFrom = updates.validFrom ?? currentData.validFrom;
   const finalValidUntil = updates.validUntil ?? currentData.validUntil;
@@ -117,6 +518,17 @@ export function validateUpdateFields(
     return { data: null, error: "validFrom debe ser anterior a validUntil", errorCode: ErrorCode.INVALID_INPUT };
   }
 
+  const finalProductIds = updates.productIds !== undefined ? updates.productIds : currentData.productIds;
+  const finalExcludedIds =
+    updates.excludedProductIds !== undefined ? updates.excludedProductIds : currentData.excludedProductIds;
+  if (finalProductIds && finalExcludedIds && finalProductIds.some((id) => finalExcludedIds.includes(id))) {
+    return {
+      data: null,
+      error: "Un producto no puede estar incluido y excluido a la vez",
+      errorCode: ErrorCode.INVALID_INPUT,
+    };
+  }
+
   return null;
 }
 
@@ -151,3 +563,143 @@ export function withErrorHandling<T>(
     }
   };
 }
+
+/**
+ * Contexto de acceso resuelto por los wrappers de autorización.
+ * `userId` es el dueño del sitio según Firestore; `uid` es quien hace la llamada
+ * (null en llamadas anónimas del storefront).
+ */
+export interface SiteAccess {
+  siteId: string;
+  userId: string;
+  uid: string | null;
+  settings: SiteSettings;
+}
+
+/** Contexto de `withSiteOwner`: quien llama siempre está autenticado (y es el dueño). */
+export interface SiteOwnerAccess extends SiteAccess {
+  uid: string;
+}
+
+type SiteHandler<T, A extends SiteAccess = SiteAccess> = (
+  request: CallableRequest<unknown>,
+  access: A,
+) => Promise<FunctionResponse<T>>;
+
+/** Configuración de un sitio a partir de su documento. */
+export function toSiteSettings(data: FirebaseFirestore.DocumentData | undefined): SiteSettings {
+  return { requireCatalogPricing: data?.requireCatalogPricing === true };
+}
+
+/**
+ * Lee el siteId crudo del payload (antes de la validación Zod del handler)
+ * y obtiene el dueño y la configuración del sitio desde Firestore.
+ */
+async function resolveSite(
+  data: unknown,
+): Promise<{ siteId: string; userId: string; settings: SiteSettings } | FunctionResponse<never>> {
+  const siteId = typeof data === "object" && data !== null ? (data as { siteId?: unknown }).siteId : undefined;
+  if (typeof siteId !== "string" || siteId.length === 0) {
+    return { data: null, error: "siteId: siteId es requerido", errorCode: ErrorCode.INVALID_INPUT };
+  }
+
+  const siteDoc = await sitesCollection.doc(siteId).get();
+  const userId = siteDoc.exists ? (siteDoc.get("userId") as string | undefined) : undefined;
+  if (!userId) {
+    return { data: null, error: "Sitio no encontrado", errorCode: ErrorCode.SITE_NOT_FOUND };
+  }
+
+  return { siteId, userId, settings: toSiteSettings(siteDoc.data()) };
+}
+
+/**
+ * Verifica que el usuario autenticado sea el dueño del sitio.
+ * Retorna null si tiene acceso, o un FunctionResponse con el error.
+ */
+export function checkSiteOwnership(
+  siteUserId: string,
+  auth: CallableRequest["auth"],
+): FunctionResponse<never> | null {
+  if (!auth) {
+    return { data: null, error: "Se requiere autenticación", errorCode: ErrorCode.UNAUTHENTICATED };
+  }
+  if (auth.uid !== siteUserId) {
+    return { data: null, error: "No tienes permisos sobre esta tienda", errorCode: ErrorCode.FORBIDDEN };
+  }
+  return null;
+}
+
+/**
+ * Wrapper para operaciones de administración (create/get/update/delete).
+ * Exige un token de Firebase Auth cuyo uid sea el dueño del sitio indicado en `siteId`.
+ * Incluye el manejo de errores de `withErrorHandling`.
+ */
+export function withSiteOwner<T>(
+  handlerName: string,
+  fn: SiteHandler<T, SiteOwnerAccess>,
+): (request: CallableRequest<unknown>) => Promise<FunctionResponse<T>> {
+  return withErrorHandling<T>(handlerName, async (request) => {
+    if (!request.auth) {
+      return { data: null, error: "Se requiere autenticación", errorCode: ErrorCode.UNAUTHENTICATED };
+    }
+
+    const site = await resolveSite(request.data);
+    if ("error" in site) return site;
+
+    const ownershipError = checkSiteOwnership(site.userId, request.auth);
+    if (ownershipError) return ownershipError;
+
+    return fn(request, { ...site, uid: request.auth.uid });
+  });
+}
+
+/** Claim de Firebase Auth que ata una sesión del storefront a un sitio (ver createStorefrontToken). */
+export const STOREFRONT_SITE_CLAIM = "siteId";
+
+/**
+ * Verifica que la sesión pueda consumir usos en el sitio: el dueño del sitio, o un token con
+ * el claim `siteId` del sitio, emitido por el backend con createStorefrontToken.
+ * Una sesión cualquiera (incluida la anónima) no alcanza: podría agotar cupones de otras tiendas.
+ * Retorna null si tiene acceso, o un FunctionResponse con el error.
+ */
+export function checkStorefrontCredential(
+  siteId: string,
+  siteUserId: string,
+  auth: CallableRequest["auth"],
+): FunctionResponse<never> | null {
+  if (!auth) {
+    return { data: null, error: "Se requiere autenticación", errorCode: ErrorCode.UNAUTHENTICATED };
+  }
+  if (auth.uid !== siteUserId && auth.token[STOREFRONT_SITE_CLAIM] !== siteId) {
+    return { data: null, error: "La sesión no está autorizada para esta tienda", errorCode: ErrorCode.FORBIDDEN };
+  }
+  return null;
+}
+
+/**
+ * Wrapper para operaciones del storefront (validate/apply).
+ * Los compradores no son dueños del sitio: para leer basta con que el sitio exista.
+ * Con `requireSiteCredential` se exige una sesión atada al sitio (`checkStorefrontCredential`),
+ * para que las operaciones que consumen usos no puedan invocarse desde cualquier sesión.
+ */
+export function withStorefrontAccess<T>(
+  handlerName: string,
+  options: { requireSiteCredential: boolean },
+  fn: SiteHandler<T>,
+): (request: CallableRequest<unknown>) => Promise<FunctionResponse<T>> {
+  return withErrorHandling<T>(handlerName, async (request) => {
+    if (options.requireSiteCredential && !request.auth) {
+      return { data: null, error: "Se requiere autenticación", errorCode: ErrorCode.UNAUTHENTICATED };
+    }
+
+    const site = await resolveSite(request.data);
+    if ("error" in site) return site;
+
+    if (options.requireSiteCredential) {
+      const credentialError = checkStorefrontCredential(site.siteId, site.userId, request.auth);
+      if (credentialError) return credentialError;
+    }
+
+    return fn(request, { ...site, uid: request.auth?.uid ?? null });
+  });
+}
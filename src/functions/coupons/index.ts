@@ -1,4 +1,6 @@
 import { type CallableOptions, onCall } from "firebase-functions/v2/https";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { onDocumentUpdated, onDocumentWritten } from "firebase-functions/v2/firestore";
 import { FUNCTION_REGION } from "../../lib/config.js";
 import {
   applyCouponHandler,
@@ -7,7 +9,24 @@ import {
   getCouponsHandler,
   updateCouponHandler,
   validateCouponHandler,
+  revertCouponRedemptionHandler,
+  validateCouponsHandler,
+  applyCouponsHandler,
+  getAutomaticPromotionsHandler,
+  getBestCouponsHandler,
+  getCouponStatsHandler,
+  getCouponHistoryHandler,
+  restoreCouponHandler,
+  reserveCouponHandler,
+  createStorefrontTokenHandler,
+  updateSiteSettingsHandler,
 } from "./handlers.js";
+import { expireCoupons } from "./lifecycle.js";
+import { releaseExpiredReservations } from "./reservations.js";
+import { hasSiteCounterDrift, reconcileSiteCounter, siteToReconcile } from "./counters.js";
+import { reconcilePlanDowngrade } from "./downgrades.js";
+import { applyRedemptionStats } from "./stats.js";
+import type { RedemptionDocument } from "../../types/redemption.js";
 
 const functionConfig: CallableOptions = {
   region: FUNCTION_REGION,
@@ -20,5 +39,72 @@ export const createCoupon = onCall(functionConfig, createCouponHandler);
 export const getCoupons = onCall(functionConfig, getCouponsHandler);
 export const updateCoupon = onCall(functionConfig, updateCouponHandler);
 export const deleteCoupon = onCall(functionConfig, deleteCouponHandler);
+export const restoreCoupon = onCall(functionConfig, restoreCouponHandler);
 export const validateCoupon = onCall(functionConfig, validateCouponHandler);
 export const applyCoupon = onCall(functionConfig, applyCouponHandler);
+export const reserveCoupon = onCall(functionConfig, reserveCouponHandler);
+export const revertCouponRedemption = onCall(functionConfig, revertCouponRedemptionHandler);
+export const validateCoupons = onCall(functionConfig, validateCouponsHandler);
+export const applyCoupons = onCall(functionConfig, applyCouponsHandler);
+export const getAutomaticPromotions = onCall(functionConfig, getAutomaticPromotionsHandler);
+export const getBestCoupons = onCall(functionConfig, getBestCouponsHandler);
+export const getCouponStats = onCall(functionConfig, getCouponStatsHandler);
+export const getCouponHistory = onCall(functionConfig, getCouponHistoryHandler);
+export const createStorefrontToken = onCall(functionConfig, createStorefrontTokenHandler);
+export const updateSiteSettings = onCall(functionConfig, updateSiteSettingsHandler);
+
+/** Desactiva cada hora los cupones vencidos o agotados. */
+export const expireCouponsJob = onSchedule(
+  { schedule: "every 60 minutes", region: FUNCTION_REGION, memory: "512MiB", timeoutSeconds: 540 },
+  async (event) => {
+    await expireCoupons(new Date(event.scheduleTime));
+  },
+);
+
+/** Libera cada minuto los cupos de las reservas que vencieron sin confirmarse. */
+export const releaseReservationsJob = onSchedule(
+  { schedule: "every 1 minutes", region: FUNCTION_REGION, memory: "256MiB", timeoutSeconds: 120 },
+  async (event) => {
+    await releaseExpiredReservations(new Date(event.scheduleTime));
+  },
+);
+
+/**
+ * Reconcilia el contador de cupones del plan cuando un cupón se crea, se borra, se archiva o
+ * se restaura, incluidas las escrituras directas a Firestore que no pasan por las funciones.
+ * Las escrituras de las funciones ya actualizan el contador y se saltan (`planCountedAt`); para
+ * las demás compara fuera de transacción y solo recuenta si detecta una diferencia, porque
+ * recontar siempre competiría con el generador de campañas.
+ */
+export const onCouponWritten = onDocumentWritten(
+  { document: "coupons/{couponId}", region: FUNCTION_REGION, memory: "256MiB" },
+  async (event) => {
+    const siteId = siteToReconcile(event.data?.before.data(), event.data?.after.data());
+    if (siteId && (await hasSiteCounterDrift(siteId))) await reconcileSiteCounter(siteId);
+  },
+);
+
+/** Ajusta los cupones activos de los sitios del usuario cuando cambia su plan (`users/{userId}.plan`). */
+export const onUserPlanChanged = onDocumentUpdated(
+  { document: "users/{userId}", region: FUNCTION_REGION, memory: "256MiB", timeoutSeconds: 300 },
+  async (event) => {
+    if (event.data?.before.get("plan") === event.data?.after.get("plan")) return;
+    await reconcilePlanDowngrade(event.params.userId, new Date(event.time));
+  },
+);
+
+/**
+ * Suma cada uso, reversión o devolución parcial a los rollups de `couponStats`, fuera de la
+ * transacción de applyCoupon/applyCoupons/revertCouponRedemption (ver `applyRedemptionStats`).
+ */
+export const onRedemptionWritten = onDocumentWritten(
+  { document: "redemptions/{redemptionId}", region: FUNCTION_REGION, memory: "256MiB", retry: true },
+  async (event) => {
+    await applyRedemptionStats(
+      event.id,
+      event.data?.before.data() as RedemptionDocument | undefined,
+      event.data?.after.data() as RedemptionDocument | undefined,
+      new Date(event.time).toISOString(),
+    );
+  },
+);
@@ -0,0 +1,146 @@
+import { logger } from "firebase-functions";
+
+import { db } from "../../lib/firebase.js";
+import type { CouponDocument } from "../../types/coupon.js";
+import { recordCouponAudit } from "./audit.js";
+import { couponsCollection } from "./helpers.js";
+import { loadCouponDocuments } from "./sharding.js";
+
+/** Cupones por página (y por transacción): cada uno suma una lectura y hasta dos escrituras. */
+export const EXPIRY_PAGE_SIZE = 100;
+
+/** Actor registrado en el historial por los cambios del job programado. */
+export const SYSTEM_ACTOR = "system";
+
+export type CouponLifecycleChange = "expired" | "exhausted";
+
+export interface ExpiryRunResult {
+  expired: number;
+  exhausted: number;
+}
+
+/**
+ * Qué cambio corresponde a un cupón en `now`: vencido si `validUntil` ya pasó,
+ * agotado si alcanzó `maxUses`, o null si sigue vigente (o ya está inactivo o archivado).
+ * Si cumple ambas, se registra como vencido.
+ */
+export function lifecycleChange(coupon: CouponDocument, now: Date): CouponLifecycleChange | null {
+  if (!coupon.isActive || coupon.isArchived) return null;
+  if (new Date(coupon.validUntil) < now) return "expired";
+  if (coupon.maxUses != null && coupon.usedCount >= coupon.maxUses) return "exhausted";
+  return null;
+}
+
+/**
+ * Cambios de un cupón de contador único que registra un uso: si `usedCount` alcanza `maxUses`
+ * queda inactivo con `exhaustedAt` en la misma escritura, sin esperar al job programado.
+ */
+export function exhaustionUpdates(
+  coupon: CouponDocument,
+  usedCount: number,
+  now: string,
+): { isActive: false; exhaustedAt: string } | null {
+  if (coupon.usageShards || coupon.maxUses == null || usedCount < coupon.maxUses) return null;
+  return { isActive: false, exhaustedAt: now };
+}
+
+/**
+ * Cambios de un cupón de contador único al liberar un uso: si estaba agotado (`exhaustedAt`)
+ * y vuelve a tener cupo, se reactiva; un cupón desactivado por otro motivo no se toca.
+ */
+export function releaseExhaustionUpdates(
+  coupon: CouponDocument,
+  usedCount: number,
+): { isActive: true; exhaustedAt: null } | null {
+  if (coupon.isActive || !coupon.exhaustedAt || coupon.expiredAt || coupon.planLimitedAt) return null;
+  if (coupon.maxUses != null && usedCount >= coupon.maxUses) return null;
+  return { isActive: true, exhaustedAt: null };
+}
+
+/**
+ * Desactiva en una transacción los cupones de una página que sigan vencidos o agotados.
+ * Relee cada cupón dentro de la transacción, así un cupón editado o usado mientras
+ * corre el job no se desactiva con datos viejos, y un cupón ya procesado se ignora.
+ */
+async function deactivatePage(refs: FirebaseFirestore.DocumentReference[], now: Date): Promise<ExpiryRunResult> {
+  return db.runTransaction(async (transaction) => {
+    const docs = (await transaction.getAll(...refs)).filter((doc) => doc.exists);
+    // Con `usageShards`, agotado se mide con el total de los contadores
+    const coupons = await loadCouponDocuments(docs, transaction);
+    const result: ExpiryRunResult = { expired: 0, exhausted: 0 };
+    const timestamp = now.toISOString();
+
+    for (const [index, doc] of docs.entries()) {
+      const coupon = coupons[index];
+      const change = lifecycleChange(coupon, now);
+      if (!change) continue;
+
+      const updates = {
+        isActive: false,
+        ...(change === "expired" ? { expiredAt: timestamp } : { exhaustedAt: timestamp }),
+        updatedAt: timestamp,
+      };
+      transaction.update(doc.ref, updates);
+      recordCouponAudit(transaction, {
+        couponId: coupon.id,
+        actorUid: SYSTEM_ACTOR,
+        handler: "expireCoupons",
+        before: coupon,
+        after: { ...coupon, ...updates },
+        now: timestamp,
+      });
+      result[change]++;
+    }
+    return result;
+  });
+}
+
+/** Recorre una query por páginas (cursor sobre el último documento) y desactiva lo que corresponda. */
+async function processQuery(query: FirebaseFirestore.Query, now: Date, pageSize: number): Promise<ExpiryRunResult> {
+  const total: ExpiryRunResult = { expired: 0, exhausted: 0 };
+  let cursor: FirebaseFirestore.QueryDocumentSnapshot | undefined;
+
+  for (;;) {
+    const page = await (cursor ? query.startAfter(cursor) : query).limit(pageSize).get();
+    if (page.empty) break;
+
+    const result = await deactivatePage(page.docs.map((doc) => doc.ref), now);
+    total.expired += result.expired;
+    total.exhausted += result.exhausted;
+
+    if (page.size < pageSize) break;
+    cursor = page.docs[page.docs.length - 1];
+  }
+  return total;
+}
+
+/**
+ * Desactiva los cupones activos sin archivar vencidos (`validUntil` < `now`) o agotados
+ * (`usedCount` >= `maxUses`) de todos los sitios y registra cuándo (`expiredAt` / `exhaustedAt`).
+ * applyCoupon/applyCoupons y updateCoupon ya marcan agotados los cupones de contador único
+ * (`exhaustionUpdates`); el job cubre los repartidos, los anteriores a ese cambio y las
+ * escrituras directas a Firestore. Es seguro re-ejecutarlo: solo toca cupones aún activos, así que una segunda pasada no cambia nada.
+ * Recibe el reloj como parámetro para poder probarlo con una fecha fija.
+ */
+export async function expireCoupons(now: Date, pageSize = EXPIRY_PAGE_SIZE): Promise<ExpiryRunResult> {
+  const active = couponsCollection.where("isActive", "==", true).where("isArchived", "==", false);
+  const expired = await processQuery(
+    active.where("validUntil", "<", now.toISOString()).orderBy("validUntil"),
+    now,
+    pageSize,
+  );
+  // Firestore no compara dos campos entre sí: se recorren los activos con límite de usos
+  // (con `usageShards`, sumando sus contadores)
+  const exhausted = await processQuery(
+    active.where("maxUses", "!=", null).orderBy("maxUses"),
+    now,
+    pageSize,
+  );
+
+  const result = {
+    expired: expired.expired + exhausted.expired,
+    exhausted: expired.exhausted + exhausted.exhausted,
+  };
+  logger.info("expireCoupons finished", { now: now.toISOString(), ...result });
+  return result;
+}
@@ -0,0 +1,55 @@
+import { FieldPath } from "firebase-admin/firestore";
+import { logger } from "firebase-functions";
+
+import { db } from "../../lib/firebase.js";
+import { couponsCollection } from "./helpers.js";
+
+/** Cupones por página (y por transacción) de una migración. */
+export const MIGRATION_PAGE_SIZE = 200;
+
+/** Si un cupón guardado antes de existir el archivado aún no tiene `isArchived`. */
+export function needsArchivedFlag(data: FirebaseFirestore.DocumentData | undefined): boolean {
+  return data != null && typeof data.isArchived !== "boolean";
+}
+
+/**
+ * Escribe `isArchived: false` en los cupones de una página que aún no lo tienen, releyéndolos
+ * en la transacción: un cupón archivado mientras corre la migración no se pisa.
+ */
+async function backfillPage(refs: FirebaseFirestore.DocumentReference[]): Promise<number> {
+  return db.runTransaction(async (transaction) => {
+    const docs = await transaction.getAll(...refs);
+    const pending = docs.filter((doc) => needsArchivedFlag(doc.data()));
+    for (const doc of pending) {
+      transaction.update(doc.ref, { isArchived: false, archivedAt: null });
+    }
+    return pending.length;
+  });
+}
+
+/**
+ * Migración única: agrega `isArchived: false` a los cupones creados antes de que existiera el
+ * archivado. getCoupons filtra por ese campo, así que sin él los cupones antiguos no se listan.
+ * No cambia `updatedAt` ni escribe historial (no es un cambio del cupón). Es seguro re-ejecutarla:
+ * un cupón con el campo no se toca. Retorna cuántos cupones actualizó.
+ */
+export async function backfillArchivedFlag(pageSize = MIGRATION_PAGE_SIZE): Promise<number> {
+  // Firestore no filtra por campos ausentes: se recorren todos los cupones por ID
+  const query = couponsCollection.orderBy(FieldPath.documentId()).select("isArchived");
+  let cursor: FirebaseFirestore.QueryDocumentSnapshot | undefined;
+  let updated = 0;
+
+  for (;;) {
+    const page = await (cursor ? query.startAfter(cursor) : query).limit(pageSize).get();
+    if (page.empty) break;
+
+    const refs = page.docs.filter((doc) => needsArchivedFlag(doc.data())).map((doc) => doc.ref);
+    if (refs.length > 0) updated += await backfillPage(refs);
+
+    if (page.size < pageSize) break;
+    cursor = page.docs[page.docs.length - 1];
+  }
+
+  logger.info("backfillArchivedFlag finished", { updated });
+  return updated;
+}
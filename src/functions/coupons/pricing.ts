@@ -0,0 +1,416 @@
+import { ErrorCode } from "../../types/common.js";
+import type { FunctionResponse } from "../../types/common.js";
+import type {
+  AppliedTier,
+  BuyXGetYConfig,
+  CatalogItem,
+  CouponDocument,
+  LineItem,
+  LineItemDiscount,
+  NextTier,
+  RewardedUnit,
+  SiteSettings,
+} from "../../types/coupon.js";
+import type { ProductDocument } from "../../types/product.js";
+import { calculateDiscount, loadProducts, selectTier } from "./helpers.js";
+
+/**
+ * Carrito normalizado: siempre tiene `cartTotal` (subtotal de mercadería) y `shippingCost`;
+ * `lineItems` solo si el storefront envió líneas.
+ */
+export interface Cart {
+  cartTotal: number;
+  shippingCost: number;
+  lineItems: LineItem[] | null;
+}
+
+/**
+ * Descuento de un cupón separado en mercadería y despacho.
+ * `discountAmount` es la suma de ambos.
+ */
+export interface CouponDiscount {
+  discountAmount: number;
+  merchandiseDiscount: number;
+  shippingDiscount: number;
+  lineBreakdown: LineItemDiscount[] | null;
+  rewardedUnits: RewardedUnit[] | null;
+  /** true si el descuento de mercadería alcanzó `maxDiscountAmount`. */
+  discountCapped: boolean;
+  appliedTier: AppliedTier | null;
+  nextTier: NextTier | null;
+}
+
+/**
+ * Construye el carrito a partir del input validado. Con `lineItems`, el total se deriva de las líneas.
+ */
+export function buildCart(input: { cartTotal?: number; lineItems?: LineItem[]; shippingCost?: number }): Cart {
+  const shippingCost = input.shippingCost ?? 0;
+  if (input.lineItems) {
+    const cartTotal = input.lineItems.reduce((sum, item) => sum + item.quantity * item.unitPrice, 0);
+    return { cartTotal, shippingCost, lineItems: input.lineItems };
+  }
+  return { cartTotal: input.cartTotal ?? 0, shippingCost, lineItems: null };
+}
+
+/**
+ * Valida ítems de catálogo contra los productos cargados: deben existir en el sitio,
+ * estar activos y, con `enforceStock`, no superar el stock (sumando líneas del mismo producto).
+ * Retorna null si son válidos, o un FunctionResponse con los IDs rechazados en `errorDetails`.
+ */
+export function validateCatalogItems(
+  siteId: string,
+  items: CatalogItem[],
+  products: Map<string, ProductDocument | null>,
+  options: { enforceStock: boolean },
+): FunctionResponse<never> | null {
+  const notFound = [...new Set(items.map((item) => item.productId))].filter((id) => {
+    const product = products.get(id);
+    return !product || product.siteId !== siteId;
+  });
+  if (notFound.length > 0) {
+    return {
+      data: null,
+      error: `Productos no encontrados en esta tienda: ${notFound.join(", ")}`,
+      errorCode: ErrorCode.PRODUCT_NOT_FOUND,
+      errorDetails: { productIds: notFound },
+    };
+  }
+
+  const unavailable = [...new Set(items.map((item) => item.productId))].filter(
+    (id) => products.get(id)!.status !== "active",
+  );
+  if (unavailable.length > 0) {
+    return {
+      data: null,
+      error: `Productos no disponibles: ${unavailable.join(", ")}`,
+      errorCode: ErrorCode.PRODUCT_UNAVAILABLE,
+      errorDetails: { productIds: unavailable },
+    };
+  }
+
+  if (options.enforceStock) {
+    const quantities = new Map<string, number>();
+    for (const item of items) {
+      quantities.set(item.productId, (quantities.get(item.productId) ?? 0) + item.quantity);
+    }
+    const overStock = [...quantities.entries()]
+      .filter(([id, quantity]) => quantity > products.get(id)!.stock)
+      .map(([id]) => id);
+    if (overStock.length > 0) {
+      return {
+        data: null,
+        error: `Stock insuficiente para: ${overStock.join(", ")}`,
+        errorCode: ErrorCode.INSUFFICIENT_STOCK,
+        errorDetails: { productIds: overStock },
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Convierte ítems de catálogo en líneas con el precio vigente del producto.
+ */
+export function priceCatalogItems(
+  items: CatalogItem[],
+  products: Map<string, ProductDocument | null>,
+): LineItem[] {
+  return items.map((item) => ({
+    productId: item.productId,
+    quantity: item.quantity,
+    unitPrice: products.get(item.productId)!.price,
+  }));
+}
+
+/**
+ * Resuelve el carrito del request. Con `items`, los precios se cargan desde `products`
+ * y el total se deriva en el servidor; retorna un FunctionResponse si algún ítem es inválido.
+ * Si el sitio exige precios de catálogo (`requireCatalogPricing`), un carrito con
+ * `cartTotal` o `lineItems` (precios que envía el cliente) se rechaza.
+ */
+export async function resolveCart(
+  siteId: string,
+  input: {
+    cartTotal?: number;
+    lineItems?: LineItem[];
+    items?: CatalogItem[];
+    enforceStock?: boolean;
+    shippingCost?: number;
+  },
+  settings: Pick<SiteSettings, "requireCatalogPricing">,
+): Promise<Cart | FunctionResponse<never>> {
+  if (!input.items) {
+    if (settings.requireCatalogPricing) {
+      return {
+        data: null,
+        error: "Este sitio solo acepta carritos con items del catálogo (sin cartTotal ni lineItems)",
+        errorCode: ErrorCode.CATALOG_ITEMS_REQUIRED,
+      };
+    }
+    return buildCart(input);
+  }
+
+  const products = await loadProducts(input.items.map((item) => item.productId));
+  const catalogError = validateCatalogItems(siteId, input.items, products, {
+    enforceStock: input.enforceStock ?? false,
+  });
+  if (catalogError) return catalogError;
+
+  return buildCart({ lineItems: priceCatalogItems(input.items, products), shippingCost: input.shippingCost });
+}
+
+/**
+ * Indica si el cupón está restringido a productos (lista de inclusión o de exclusión).
+ */
+export function isProductScoped(coupon: Pick<CouponDocument, "productIds" | "excludedProductIds">): boolean {
+  return (coupon.productIds?.length ?? 0) > 0 || (coupon.excludedProductIds?.length ?? 0) > 0;
+}
+
+export function isProductEligible(
+  coupon: Pick<CouponDocument, "productIds" | "excludedProductIds">,
+  productId: string,
+): boolean {
+  if (coupon.excludedProductIds?.includes(productId)) return false;
+  if (coupon.productIds && coupon.productIds.length > 0) {
+    return coupon.productIds.includes(productId);
+  }
+  return true;
+}
+
+/**
+ * Reparte un monto entero entre pesos proporcionales (método del mayor resto).
+ * La suma de las partes es exactamente `total`.
+ */
+export function allocateProportionally(total: number, weights: number[]): number[] {
+  const weightSum = weights.reduce((sum, w) => sum + w, 0);
+  if (weightSum <= 0) return weights.map(() => 0);
+
+  const exact = weights.map((w) => (total * w) / weightSum);
+  const shares = exact.map((value) => Math.floor(value));
+  let remainder = total - shares.reduce((sum, s) => sum + s, 0);
+
+  const byRemainder = exact
+    .map((value, index) => ({ index, fraction: value - Math.floor(value) }))
+    .sort((a, b) => b.fraction - a.fraction || a.index - b.index);
+
+  for (const { index } of byRemainder) {
+    if (remainder <= 0) break;
+    shares[index] += 1;
+    remainder -= 1;
+  }
+  return shares;
+}
+
+type CartUnit = Omit<RewardedUnit, "discountAmount">;
+
+/**
+ * Elige las unidades premiadas de un cupón `buy_x_get_y` de forma determinística.
+ * Las recompensas son las unidades más baratas de `getProductIds`; las unidades que califican
+ * se toman de `buyProductIds` sin reutilizar unidades premiadas.
+ * Se aplica tantas veces como el carrito alcance. Empates se resuelven por orden de línea.
+ * Cuenta por línea (no por unidad), así que el costo depende de las líneas y no de las cantidades.
+ */
+export function selectRewardUnits(lineItems: LineItem[], config: BuyXGetYConfig): CartUnit[] {
+  const rewardLines = lineItems
+    .map((item, lineIndex) => ({ ...item, lineIndex }))
+    .filter((line) => config.getProductIds.includes(line.productId))
+    .sort((a, b) => a.unitPrice - b.unitPrice || a.lineIndex - b.lineIndex);
+  const rewardUnits = rewardLines.reduce((sum, line) => sum + line.quantity, 0);
+  const buyUnits = lineItems.reduce(
+    (sum, item) => sum + (config.buyProductIds.includes(item.productId) ? item.quantity : 0),
+    0,
+  );
+
+  // Unidades que califican si se premian las `count` más baratas (una premiada no califica)
+  const qualifyingUnits = (count: number) => {
+    let remaining = count;
+    let overlap = 0;
+    for (const line of rewardLines) {
+      if (remaining === 0) break;
+      const taken = Math.min(remaining, line.quantity);
+      if (config.buyProductIds.includes(line.productId)) overlap += taken;
+      remaining -= taken;
+    }
+    return buyUnits - overlap;
+  };
+
+  // Cada aplicación más premia unidades más caras y deja menos que califican: se busca la última que cumple
+  let low = 0;
+  let high = Math.floor(rewardUnits / config.getQuantity);
+  while (low < high) {
+    const times = Math.ceil((low + high) / 2);
+    if (qualifyingUnits(times * config.getQuantity) >= times * config.buyQuantity) low = times;
+    else high = times - 1;
+  }
+
+  const rewards: CartUnit[] = [];
+  let remaining = low * config.getQuantity;
+  for (const line of rewardLines) {
+    const taken = Math.min(remaining, line.quantity);
+    for (let i = 0; i < taken; i++) {
+      rewards.push({ lineIndex: line.lineIndex, productId: line.productId, unitPrice: line.unitPrice });
+    }
+    remaining -= taken;
+  }
+  return rewards;
+}
+
+/**
+ * Valida que el carrito permita aplicar un cupón restringido a productos o `buy_x_get_y`.
+ * Retorna null si es válido, o un FunctionResponse con el error.
+ */
+export function validateCartScope(coupon: CouponDocument, cart: Cart): FunctionResponse<never> | null {
+  if (coupon.discountType === "buy_x_get_y" && coupon.buyXGetY) {
+    if (!cart.lineItems) {
+      return {
+        data: null,
+        error: "Este cupón requiere el detalle del carrito: envía lineItems o items",
+        errorCode: ErrorCode.LINE_ITEMS_REQUIRED,
+      };
+    }
+    if (selectRewardUnits(cart.lineItems, coupon.buyXGetY).length === 0) {
+      const { buyQuantity, getQuantity } = coupon.buyXGetY;
+      return {
+        data: null,
+        error: `El carrito no cumple la promoción: lleva ${buyQuantity} y obtén ${getQuantity}`,
+        errorCode: ErrorCode.BUY_QUANTITY_NOT_MET,
+      };
+    }
+  }
+
+  if (!isProductScoped(coupon)) return null;
+
+  if (!cart.lineItems) {
+    return {
+      data: null,
+      error: "Este cupón aplica solo a ciertos productos: envía lineItems",
+      errorCode: ErrorCode.LINE_ITEMS_REQUIRED,
+    };
+  }
+
+  if (!cart.lineItems.some((item) => isProductEligible(coupon, item.productId))) {
+    return {
+      data: null,
+      error: "Ningún producto del carrito es elegible para este cupón",
+      errorCode: ErrorCode.NO_ELIGIBLE_PRODUCTS,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Calcula el descuento de un cupón sobre el carrito.
+ * Con líneas, el descuento se calcula sobre el subtotal elegible y se reparte entre esas líneas.
+ * Los cupones `free_shipping` solo descuentan el despacho. En `tiered` el tramo se elige
+ * con el total del carrito (igual que `minPurchase`) y su descuento aplica al subtotal elegible.
+ * `maxDiscountAmount` limita el descuento de mercadería; el tope se reparte igual que el descuento.
+ */
+export function computeCouponDiscount(coupon: CouponDocument, cart: Cart): CouponDiscount {
+  const tiers = coupon.discountType === "tiered" && coupon.tiers
+    ? selectTier(coupon.tiers, cart.cartTotal)
+    : { appliedTier: null, nextTier: null };
+  const discount = computeBaseDiscount(coupon, cart);
+  const discountCapped =
+    coupon.maxDiscountAmount != null && discount.merchandiseDiscount >= coupon.maxDiscountAmount;
+  return { ...discount, discountCapped, ...tiers };
+}
+
+function computeBaseDiscount(
+  coupon: CouponDocument,
+  cart: Cart,
+): Omit<CouponDiscount, "discountCapped" | "appliedTier" | "nextTier"> {
+  const discountOptions = {
+    tiers: coupon.tiers,
+    tierBase: cart.cartTotal,
+    maxDiscountAmount: coupon.maxDiscountAmount,
+  };
+
+  if (coupon.discountType === "free_shipping") {
+    const shippingDiscount = calculateDiscount(coupon.discountType, coupon.discountValue, cart.cartTotal, {
+      shippingCost: cart.shippingCost,
+    });
+    return {
+      discountAmount: shippingDiscount,
+      merchandiseDiscount: 0,
+      shippingDiscount,
+      lineBreakdown: cart.lineItems?.map((item) => ({
+        ...item,
+        lineTotal: item.quantity * item.unitPrice,
+        eligible: isProductEligible(coupon, item.productId),
+        discountAmount: 0,
+      })) ?? null,
+      rewardedUnits: null,
+    };
+  }
+
+  if (coupon.discountType === "buy_x_get_y") {
+    let rewardedUnits = cart.lineItems && coupon.buyXGetY
+      ? selectRewardUnits(cart.lineItems, coupon.buyXGetY).map((unit) => ({
+          ...unit,
+          discountAmount: calculateDiscount(coupon.discountType, coupon.discountValue, unit.unitPrice),
+        }))
+      : [];
+    const uncapped = rewardedUnits.reduce((sum, unit) => sum + unit.discountAmount, 0);
+    // El tope aplica a la suma de unidades premiadas, no a cada una
+    const discountAmount =
+      coupon.maxDiscountAmount != null ? Math.min(uncapped, coupon.maxDiscountAmount) : uncapped;
+    if (discountAmount < uncapped) {
+      const shares = allocateProportionally(discountAmount, rewardedUnits.map((unit) => unit.discountAmount));
+      rewardedUnits = rewardedUnits.map((unit, index) => ({ ...unit, discountAmount: shares[index] }));
+    }
+    const lineDiscounts = new Map<number, number>();
+    for (const unit of rewardedUnits) {
+      lineDiscounts.set(unit.lineIndex, (lineDiscounts.get(unit.lineIndex) ?? 0) + unit.discountAmount);
+    }
+    return {
+      discountAmount,
+      merchandiseDiscount: discountAmount,
+      shippingDiscount: 0,
+      lineBreakdown: cart.lineItems?.map((item, index) => ({
+        ...item,
+        lineTotal: item.quantity * item.unitPrice,
+        eligible: lineDiscounts.has(index),
+        discountAmount: lineDiscounts.get(index) ?? 0,
+      })) ?? null,
+      rewardedUnits,
+    };
+  }
+
+  if (!cart.lineItems) {
+    const discountAmount = calculateDiscount(coupon.discountType, coupon.discountValue, cart.cartTotal, discountOptions);
+    return {
+      discountAmount,
+      merchandiseDiscount: discountAmount,
+      shippingDiscount: 0,
+      lineBreakdown: null,
+      rewardedUnits: null,
+    };
+  }
+
+  const lines = cart.lineItems.map((item) => ({
+    ...item,
+    lineTotal: item.quantity * item.unitPrice,
+    eligible: isProductEligible(coupon, item.productId),
+  }));
+  const eligibleSubtotal = lines.reduce((sum, line) => sum + (line.eligible ? line.lineTotal : 0), 0);
+  const discountAmount = calculateDiscount(
+    coupon.discountType,
+    coupon.discountValue,
+    eligibleSubtotal,
+    discountOptions,
+  );
+  const shares = allocateProportionally(
+    discountAmount,
+    lines.map((line) => (line.eligible ? line.lineTotal : 0)),
+  );
+
+  return {
+    discountAmount,
+    merchandiseDiscount: discountAmount,
+    shippingDiscount: 0,
+    lineBreakdown: lines.map((line, index) => ({ ...line, discountAmount: shares[index] })),
+    rewardedUnits: null,
+  };
+}
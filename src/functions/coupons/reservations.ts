@@ -0,0 +1,173 @@
+import { logger } from "firebase-functions";
+import type { Transaction } from "firebase-admin/firestore";
+
+import { db } from "../../lib/firebase.js";
+import { ErrorCode } from "../../types/common.js";
+import type { FunctionResponse } from "../../types/common.js";
+import type { CouponDocument } from "../../types/coupon.js";
+import type { CouponReservationDocument } from "../../types/reservation.js";
+import { couponsCollection } from "./helpers.js";
+import { incrementUsageShard } from "./sharding.js";
+
+export const reservationsCollection = db.collection("reservations");
+
+/** Reservas por página (y por transacción) al liberar las vencidas. */
+export const RELEASE_PAGE_SIZE = 100;
+
+/** Vencimiento (ISO) de una reserva tomada en `now`. */
+export function reservationExpiresAt(now: Date, ttlSeconds: number): string {
+  return new Date(now.getTime() + ttlSeconds * 1000).toISOString();
+}
+
+/** Si una reserva sigue ocupando un cupo en `now`: activa y sin vencer. */
+export function isReservationHeld(
+  reservation: Pick<CouponReservationDocument, "status" | "expiresAt">,
+  now: string,
+): boolean {
+  return reservation.status === "active" && reservation.expiresAt > now;
+}
+
+/** Reserva leída de Firestore, o null si no existe. */
+export function toReservationDocument(doc: FirebaseFirestore.DocumentSnapshot): CouponReservationDocument | null {
+  return doc.exists ? ({ id: doc.id, ...doc.data() } as CouponReservationDocument) : null;
+}
+
+/**
+ * Verifica que una reserva enviada al aplicar pueda confirmarse: que sea del sitio y de uno de
+ * los cupones de la orden, que no se haya usado, que sea del mismo cliente y que siga vigente.
+ */
+export function checkReservation(
+  reservation: CouponReservationDocument | null,
+  expected: { siteId: string; couponIds: string[]; customerId?: string },
+  now: string,
+): FunctionResponse<never> | null {
+  if (!reservation || reservation.siteId !== expected.siteId || !expected.couponIds.includes(reservation.couponId)) {
+    return { data: null, error: "Reserva no encontrada", errorCode: ErrorCode.RESERVATION_NOT_FOUND };
+  }
+  if (reservation.status === "confirmed") {
+    return {
+      data: null,
+      error: `La reserva ya se usó en la orden "${reservation.orderId}"`,
+      errorCode: ErrorCode.RESERVATION_ALREADY_USED,
+    };
+  }
+  if (reservation.customerId && reservation.customerId !== (expected.customerId ?? null)) {
+    return { data: null, error: "La reserva pertenece a otro cliente", errorCode: ErrorCode.FORBIDDEN };
+  }
+  if (!isReservationHeld(reservation, now)) {
+    return { data: null, error: "La reserva expiró", errorCode: ErrorCode.RESERVATION_EXPIRED };
+  }
+  return null;
+}
+
+/** Reservas activas ya vencidas de un cupón. */
+export function expiredReservationsQuery(couponId: string, now: string) {
+  return reservationsCollection
+    .where("couponId", "==", couponId)
+    .where("status", "==", "active")
+    .where("expiresAt", "<=", now);
+}
+
+/**
+ * Lee en la transacción las reservas vencidas de un cupón, solo cuando ocupan el cupo
+ * que le falta a este uso (el job programado libera el resto, y las de cupones con `usageShards`).
+ * Quien llama descuenta la cantidad de `reservedCount` y las marca con `markReservationsExpired`.
+ */
+export async function readExpiredReservations(
+  transaction: Transaction,
+  coupon: CouponDocument,
+  now: string,
+): Promise<FirebaseFirestore.QueryDocumentSnapshot[]> {
+  const reservedCount = coupon.reservedCount ?? 0;
+  if (coupon.maxUses == null || reservedCount === 0 || coupon.usageShards) return [];
+  if (coupon.usedCount >= coupon.maxUses || coupon.usedCount + reservedCount < coupon.maxUses) return [];
+
+  const snapshot = await transaction.get(expiredReservationsQuery(coupon.id, now).limit(RELEASE_PAGE_SIZE));
+  return snapshot.docs;
+}
+
+/** Marca como vencidas reservas ya leídas en la transacción. */
+export function markReservationsExpired(
+  transaction: Transaction,
+  refs: FirebaseFirestore.DocumentReference[],
+  now: string,
+): void {
+  for (const ref of refs) {
+    transaction.update(ref, { status: "expired", updatedAt: now });
+  }
+}
+
+/**
+ * Libera en una transacción las reservas de una página que sigan activas y vencidas:
+ * las marca `expired` y descuenta su cupo del `reservedCount` de cada cupón
+ * (o del contador que la guarda, si el cupón tiene `usageShards`).
+ */
+async function releasePage(refs: FirebaseFirestore.DocumentReference[], now: string): Promise<number> {
+  return db.runTransaction(async (transaction) => {
+    const docs = await transaction.getAll(...refs);
+    const expired = docs.filter((doc) => {
+      const reservation = doc.data() as CouponReservationDocument | undefined;
+      return reservation?.status === "active" && reservation.expiresAt <= now;
+    });
+
+    const perCoupon = new Map<string, number>();
+    const shardReleases: { couponId: string; index: number }[] = [];
+    for (const doc of expired) {
+      const { couponId, usageShard } = doc.data() as CouponReservationDocument;
+      if (usageShard != null) {
+        shardReleases.push({ couponId, index: usageShard });
+      } else {
+        perCoupon.set(couponId, (perCoupon.get(couponId) ?? 0) + 1);
+      }
+    }
+    const couponIds = [...new Set(expired.map((doc) => doc.get("couponId") as string))];
+    const couponDocs = couponIds.length > 0
+      ? await transaction.getAll(...couponIds.map((id) => couponsCollection.doc(id)))
+      : [];
+
+    // Un cupón borrado definitivamente ya no tiene cupo que liberar
+    const existing = new Set(couponDocs.filter((doc) => doc.exists).map((doc) => doc.id));
+    for (const couponDoc of couponDocs) {
+      const released = perCoupon.get(couponDoc.id);
+      if (!couponDoc.exists || !released) continue;
+      const reservedCount = (couponDoc.get("reservedCount") as number | undefined) ?? 0;
+      transaction.update(couponDoc.ref, {
+        reservedCount: Math.max(reservedCount - released, 0),
+        updatedAt: now,
+      });
+    }
+    for (const { couponId, index } of shardReleases) {
+      if (existing.has(couponId)) incrementUsageShard(transaction, couponId, index, { reservedCount: -1 });
+    }
+    markReservationsExpired(transaction, expired.map((doc) => doc.ref), now);
+    return expired.length;
+  });
+}
+
+/**
+ * Libera las reservas vencidas sin confirmar de todos los sitios.
+ * Es seguro re-ejecutarlo: solo toca reservas aún activas.
+ * Recibe el reloj como parámetro para poder probarlo con una fecha fija.
+ */
+export async function releaseExpiredReservations(now: Date, pageSize = RELEASE_PAGE_SIZE): Promise<number> {
+  const timestamp = now.toISOString();
+  const query = reservationsCollection
+    .where("status", "==", "active")
+    .where("expiresAt", "<=", timestamp)
+    .orderBy("expiresAt");
+
+  let released = 0;
+  let cursor: FirebaseFirestore.QueryDocumentSnapshot | undefined;
+  for (;;) {
+    const page = await (cursor ? query.startAfter(cursor) : query).limit(pageSize).get();
+    if (page.empty) break;
+
+    released += await releasePage(page.docs.map((doc) => doc.ref), timestamp);
+
+    if (page.size < pageSize) break;
+    cursor = page.docs[page.docs.length - 1];
+  }
+
+  logger.info("releaseExpiredReservations finished", { now: timestamp, released });
+  return released;
+}
@@ -1,42 +1,275 @@
 import { z } from "zod";
-import { DISCOUNT_TYPES } from "../../types/coupon.js";
+import {
+  COUPON_SORT_FIELDS,
+  COUPON_VISIBILITIES,
+  DEFAULT_COUPONS_PAGE_SIZE,
+  DISCOUNT_TYPES,
+  MAX_CART_LINES,
+  MAX_COUPONS_PAGE_SIZE,
+  MAX_LINE_QUANTITY,
+  MAX_STACKED_COUPONS,
+  MAX_USAGE_SHARDS,
+  PERCENTAGE_BASED_DISCOUNT_TYPES,
+  TIER_DISCOUNT_TYPES,
+  VALUELESS_DISCOUNT_TYPES,
+} from "../../types/coupon.js";
+import type { DiscountType } from "../../types/coupon.js";
+import { MAX_STATS_RANGE_DAYS } from "../../types/stats.js";
+import {
+  DEFAULT_RESERVATION_TTL_SECONDS,
+  MAX_RESERVATION_TTL_SECONDS,
+  MIN_RESERVATION_TTL_SECONDS,
+} from "../../types/reservation.js";
 
 // ── Helpers ─────────────────────────────────────────────
 
-const isoDateString = z.string().refine(
-  (val: string) => !isNaN(Date.parse(val)),
-  { message: "Debe ser una fecha ISO 8601 válida" },
-);
+// Se guarda en UTC para que los filtros y el orden por fecha en Firestore comparen bien los strings
+const isoDateString = z
+  .string()
+  .refine((val: string) => !isNaN(Date.parse(val)), { message: "Debe ser una fecha ISO 8601 válida" })
+  .transform((val: string) => new Date(val).toISOString());
+
+// IDs o emails de cliente se comparan sin distinguir mayúsculas ni espacios
+const customerId = z.string().trim().toLowerCase().min(1, "customerId no puede ser vacío");
+
+const productIdList = z
+  .array(z.string().min(1, "productId no puede ser vacío"))
+  .min(1, "La lista de productos no puede ser vacía")
+  .transform((ids: string[]) => [...new Set(ids)]);
+
+const buyXGetY = z.object({
+  buyProductIds: productIdList,
+  buyQuantity: z.number().int().positive("buyQuantity debe ser entero mayor a 0"),
+  getProductIds: productIdList,
+  getQuantity: z.number().int().positive("getQuantity debe ser entero mayor a 0"),
+});
+
+const tier = z
+  .object({
+    minCartTotal: z.number().nonnegative("minCartTotal no puede ser negativo"),
+    discountType: z.enum(TIER_DISCOUNT_TYPES),
+    discountValue: z.number().positive("discountValue debe ser mayor a 0"),
+  })
+  .refine((t) => t.discountType !== "percentage" || t.discountValue <= 100, {
+    message: "Porcentaje no puede superar 100%",
+    path: ["discountValue"],
+  });
+
+// Los tramos deben venir ordenados y sin umbrales repetidos para que "el más alto alcanzado" sea único
+const tierList = z
+  .array(tier)
+  .min(1, "tiers no puede ser vacío")
+  .refine(
+    (tiers) => tiers.every((t, i) => i === 0 || t.minCartTotal > tiers[i - 1].minCartTotal),
+    { message: "Los tramos deben estar ordenados por minCartTotal ascendente, sin repetir" },
+  );
+
+function isValueless(discountType: DiscountType | undefined): boolean {
+  return discountType !== undefined && VALUELESS_DISCOUNT_TYPES.includes(discountType);
+}
+
+/** Los tipos cuyo discountValue es un porcentaje (≤ 100). */
+function isPercentageValue(discountType: string | undefined): boolean {
+  return discountType === "percentage" || discountType === "buy_x_get_y";
+}
+
+const promotionName = z.string().trim().min(1, "name no puede ser vacío");
+
+const priority = z.number().int("priority debe ser entero");
+
+const exclusiveGroup = z.string().trim().min(1, "exclusiveGroup no puede ser vacío");
+
+const usageShards = z
+  .number()
+  .int("usageShards debe ser entero")
+  .min(2, "usageShards debe ser al menos 2")
+  .max(MAX_USAGE_SHARDS, `usageShards no puede superar ${MAX_USAGE_SHARDS}`);
+
+const quantity = z
+  .number()
+  .int()
+  .positive("quantity debe ser entero mayor a 0")
+  .max(MAX_LINE_QUANTITY, `quantity no puede superar ${MAX_LINE_QUANTITY}`);
+
+const lineItem = z.object({
+  productId: z.string().min(1, "productId es requerido"),
+  quantity,
+  unitPrice: z.number().nonnegative("unitPrice no puede ser negativo"),
+});
+
+const catalogItem = z.object({
+  productId: z.string().min(1, "productId es requerido"),
+  quantity,
+});
+
+/** Campos del carrito comunes a validate/apply. */
+const cartFields = {
+  cartTotal: z.number().nonnegative("cartTotal no puede ser negativo").optional(),
+  lineItems: z
+    .array(lineItem)
+    .min(1, "lineItems no puede ser vacío")
+    .max(MAX_CART_LINES, `lineItems no puede superar ${MAX_CART_LINES} líneas`)
+    .optional(),
+  items: z
+    .array(catalogItem)
+    .min(1, "items no puede ser vacío")
+    .max(MAX_CART_LINES, `items no puede superar ${MAX_CART_LINES} líneas`)
+    .optional(),
+  enforceStock: z.boolean().optional(),
+  shippingCost: z.number().nonnegative("shippingCost no puede ser negativo").optional(),
+  customerId: customerId.optional(),
+};
+
+/** Paginación por cursor de los listados (getCoupons, getCouponHistory, getWebhookDeliveries). */
+export const paginationFields = {
+  pageSize: z
+    .number()
+    .int()
+    .positive("pageSize debe ser entero mayor a 0")
+    .max(MAX_COUPONS_PAGE_SIZE, `pageSize no puede superar ${MAX_COUPONS_PAGE_SIZE}`)
+    .default(DEFAULT_COUPONS_PAGE_SIZE),
+  cursor: z.string().min(1, "cursor no puede ser vacío").optional(),
+};
+
+/** El carrito se envía como total (`cartTotal`), líneas con precio (`lineItems`) o ítems de catálogo (`items`). */
+function hasSingleCartInput(data: { cartTotal?: number; lineItems?: unknown[]; items?: unknown[] }): boolean {
+  return [data.cartTotal, data.lineItems, data.items].filter((v) => v !== undefined).length === 1;
+}
+
+function hasDisjointProductLists(data: {
+  productIds?: string[] | null;
+  excludedProductIds?: string[] | null;
+}): boolean {
+  if (!data.productIds || !data.excludedProductIds) return true;
+  return !data.productIds.some((id) => data.excludedProductIds!.includes(id));
+}
 
 // ── createCoupon ────────────────────────────────────────
 
-const createCouponBase = z.object({
-  siteId: z.string().min(1, "siteId es requerido"),
-  code: z.string().min(1, "code es requerido"),
+/** Configuración del descuento y sus límites, compartida por cupones y campañas. */
+const couponSettingsShape = {
+  visibility: z.enum(COUPON_VISIBILITIES).optional(),
   discountType: z.enum(DISCOUNT_TYPES),
-  discountValue: z.number().positive("discountValue debe ser mayor a 0"),
+  discountValue: z.number().positive("discountValue debe ser mayor a 0").optional(),
+  buyXGetY: buyXGetY.optional(),
+  tiers: tierList.optional(),
+  maxDiscountAmount: z.number().positive("maxDiscountAmount debe ser mayor a 0").optional(),
   minPurchase: z.number().positive("minPurchase debe ser mayor a 0").optional(),
   maxUses: z.number().int().positive("maxUses debe ser entero mayor a 0").optional(),
+  maxUsesPerCustomer: z.number().int().positive("maxUsesPerCustomer debe ser entero mayor a 0").optional(),
+  productIds: productIdList.optional(),
+  excludedProductIds: productIdList.optional(),
+  stackable: z.boolean().optional(),
+  priority: priority.optional(),
+  exclusiveGroup: exclusiveGroup.optional(),
+  usageShards: usageShards.optional(),
   validFrom: isoDateString,
   validUntil: isoDateString,
+};
+
+type CouponSettingsInput = z.infer<z.ZodObject<typeof couponSettingsShape>>;
+
+/** Reglas cross-field de la configuración de descuento (tipo, valor, tramos, fechas y productos). */
+function checkCouponSettings(data: CouponSettingsInput, ctx: z.RefinementCtx): void {
+  const rules: [valid: boolean, message: string, path: string][] = [
+    [
+      isValueless(data.discountType) || data.discountValue !== undefined,
+      "discountValue es requerido para este tipo de descuento",
+      "discountValue",
+    ],
+    [
+      !isValueless(data.discountType) || data.discountValue === undefined,
+      "discountValue no aplica a este tipo de descuento",
+      "discountValue",
+    ],
+    [
+      !isPercentageValue(data.discountType) || data.discountValue === undefined || data.discountValue <= 100,
+      "Porcentaje no puede superar 100%",
+      "discountValue",
+    ],
+    [
+      (data.discountType === "buy_x_get_y") === (data.buyXGetY !== undefined),
+      "buyXGetY es requerido en cupones buy_x_get_y y no aplica a otros tipos",
+      "buyXGetY",
+    ],
+    [
+      (data.discountType === "tiered") === (data.tiers !== undefined),
+      "tiers es requerido en cupones tiered y no aplica a otros tipos",
+      "tiers",
+    ],
+    [
+      data.maxDiscountAmount === undefined || PERCENTAGE_BASED_DISCOUNT_TYPES.includes(data.discountType),
+      "maxDiscountAmount solo aplica a descuentos porcentuales",
+      "maxDiscountAmount",
+    ],
+    [new Date(data.validFrom) < new Date(data.validUntil), "validFrom debe ser anterior a validUntil", "validUntil"],
+    [hasDisjointProductLists(data), "Un producto no puede estar incluido y excluido a la vez", "excludedProductIds"],
+  ];
+  for (const [valid, message, path] of rules) {
+    if (!valid) ctx.addIssue({ code: z.ZodIssueCode.custom, message, path: [path] });
+  }
+}
+
+/**
+ * Configuración de los códigos de una campaña: la de un cupón sin `maxUses` (cada código es
+ * de un solo uso), `visibility` (los códigos de campaña son siempre privados) ni `usageShards`.
+ */
+export const campaignCouponSettingsSchema = z
+  .object(couponSettingsShape)
+  .omit({ maxUses: true, visibility: true, usageShards: true })
+  .superRefine(checkCouponSettings);
+
+const createCouponBase = z.object({
+  siteId: z.string().min(1, "siteId es requerido"),
+  code: z.string().min(1, "code no puede ser vacío").optional(),
+  isAutomatic: z.boolean().optional(),
+  name: promotionName.optional(),
+  ...couponSettingsShape,
 });
 
 type CreateCouponInput = z.infer<typeof createCouponBase>;
 
 export const createCouponSchema = createCouponBase
   .refine(
-    (data: CreateCouponInput) => data.discountType !== "percentage" || data.discountValue <= 100,
-    { message: "Porcentaje no puede superar 100%", path: ["discountValue"] },
+    (data: CreateCouponInput) => (data.isAutomatic === true) === (data.code === undefined),
+    { message: "code es requerido, salvo en promociones automáticas (que no llevan código)", path: ["code"] },
   )
   .refine(
-    (data: CreateCouponInput) => new Date(data.validFrom) < new Date(data.validUntil),
-    { message: "validFrom debe ser anterior a validUntil", path: ["validUntil"] },
-  );
+    (data: CreateCouponInput) => !data.isAutomatic || data.name !== undefined,
+    { message: "name es requerido en promociones automáticas", path: ["name"] },
+  )
+  .superRefine(checkCouponSettings);
 
 // ── getCoupons ──────────────────────────────────────────
 
-export const getCouponsSchema = z.object({
+export const getCouponsSchema = z
+  .object({
+    siteId: z.string().min(1, "siteId es requerido"),
+    ...paginationFields,
+    archived: z.boolean().default(false),
+    isActive: z.boolean().optional(),
+    expired: z.boolean().optional(),
+    discountType: z.enum(DISCOUNT_TYPES).optional(),
+    codePrefix: z.string().trim().toUpperCase().min(1, "codePrefix no puede ser vacío").optional(),
+    validityRange: z
+      .object({ from: isoDateString, to: isoDateString })
+      .refine((range) => range.from <= range.to, { message: "from debe ser anterior a to", path: ["to"] })
+      .optional(),
+    sortBy: z.enum(COUPON_SORT_FIELDS).default("createdAt"),
+    sortDirection: z.enum(["asc", "desc"]).default("desc"),
+  })
+  // Cada combinación de filtros necesita su índice compuesto; la búsqueda por código se limita a filtros de igualdad
+  .refine((data) => !data.codePrefix || (data.expired === undefined && !data.validityRange), {
+    message: "codePrefix no se puede combinar con expired ni validityRange",
+    path: ["codePrefix"],
+  });
+
+// ── getCouponHistory ────────────────────────────────────
+
+export const getCouponHistorySchema = z.object({
   siteId: z.string().min(1, "siteId es requerido"),
+  couponId: z.string().min(1, "couponId es requerido"),
+  ...paginationFields,
 });
 
 // ── updateCoupon ────────────────────────────────────────
@@ -45,10 +278,27 @@ const updateCouponBase = z.object({
   siteId: z.string().min(1, "siteId es requerido"),
   couponId: z.string().min(1, "couponId es requerido"),
   code: z.string().min(1, "code no puede ser vacío").optional(),
+  name: promotionName.optional(),
+  visibility: z.enum(COUPON_VISIBILITIES).optional(),
   discountType: z.enum(DISCOUNT_TYPES).optional(),
   discountValue: z.number().positive("discountValue debe ser mayor a 0").optional(),
+  buyXGetY: buyXGetY.nullable().optional(),
+  tiers: tierList.nullable().optional(),
+  maxDiscountAmount: z.number().positive("maxDiscountAmount debe ser mayor a 0").nullable().optional(),
   minPurchase: z.number().positive("minPurchase debe ser mayor a 0").nullable().optional(),
   maxUses: z.number().int().positive("maxUses debe ser entero mayor a 0").nullable().optional(),
+  maxUsesPerCustomer: z
+    .number()
+    .int()
+    .positive("maxUsesPerCustomer debe ser entero mayor a 0")
+    .nullable()
+    .optional(),
+  productIds: productIdList.nullable().optional(),
+  excludedProductIds: productIdList.nullable().optional(),
+  stackable: z.boolean().optional(),
+  priority: priority.optional(),
+  exclusiveGroup: exclusiveGroup.nullable().optional(),
+  usageShards: usageShards.nullable().optional(),
   validFrom: isoDateString.optional(),
   validUntil: isoDateString.optional(),
   isActive: z.boolean().optional(),
@@ -59,9 +309,28 @@ type UpdateCouponInput = z.infer<typeof updateCouponBase>;
 export const updateCouponSchema = updateCouponBase
   .refine(
     (data: UpdateCouponInput) =>
-      data.discountType !== "percentage" || data.discountValue === undefined || data.discountValue <= 100,
+      !isPercentageValue(data.discountType) || data.discountValue === undefined || data.discountValue <= 100,
     { message: "Porcentaje no puede superar 100%", path: ["discountValue"] },
   )
+  .refine(
+    (data: UpdateCouponInput) => data.discountType === undefined || data.discountType === "buy_x_get_y" || !data.buyXGetY,
+    { message: "buyXGetY solo aplica a cupones buy_x_get_y", path: ["buyXGetY"] },
+  )
+  .refine(
+    (data: UpdateCouponInput) => data.discountType === undefined || data.discountType === "tiered" || !data.tiers,
+    { message: "tiers solo aplica a cupones tiered", path: ["tiers"] },
+  )
+  .refine(
+    (data: UpdateCouponInput) =>
+      data.discountType === undefined ||
+      data.maxDiscountAmount == null ||
+      PERCENTAGE_BASED_DISCOUNT_TYPES.includes(data.discountType),
+    { message: "maxDiscountAmount solo aplica a descuentos porcentuales", path: ["maxDiscountAmount"] },
+  )
+  .refine(
+    (data: UpdateCouponInput) => !isValueless(data.discountType) || data.discountValue === undefined,
+    { message: "discountValue no aplica a este tipo de descuento", path: ["discountValue"] },
+  )
   .refine(
     (data: UpdateCouponInput) => {
       if (data.validFrom && data.validUntil) {
@@ -70,28 +339,170 @@ export const updateCouponSchema = updateCouponBase
       return true;
     },
     { message: "validFrom debe ser anterior a validUntil", path: ["validUntil"] },
-  );
+  )
+  .refine(hasDisjointProductLists, {
+    message: "Un producto no puede estar incluido y excluido a la vez",
+    path: ["excludedProductIds"],
+  });
 
 // ── deleteCoupon ────────────────────────────────────────
 
 export const deleteCouponSchema = z.object({
   siteId: z.string().min(1, "siteId es requerido"),
   couponId: z.string().min(1, "couponId es requerido"),
+  permanent: z.boolean().default(false),
 });
 
-// ── validateCoupon ──────────────────────────────────────
+// ── restoreCoupon ───────────────────────────────────────
 
-export const validateCouponSchema = z.object({
+export const restoreCouponSchema = z.object({
   siteId: z.string().min(1, "siteId es requerido"),
-  code: z.string().min(1, "code es requerido"),
-  cartTotal: z.number().nonnegative("cartTotal no puede ser negativo"),
+  couponId: z.string().min(1, "couponId es requerido"),
 });
 
-// ── applyCoupon ─────────────────────────────────────────
+// ── createStorefrontToken ───────────────────────────────
 
-export const applyCouponSchema = z.object({
+export const createStorefrontTokenSchema = z.object({
   siteId: z.string().min(1, "siteId es requerido"),
-  couponId: z.string().min(1, "couponId es requerido"),
-  orderId: z.string().min(1, "orderId es requerido"),
-  cartTotal: z.number().nonnegative("cartTotal no puede ser negativo"),
 });
+
+// ── updateSiteSettings ──────────────────────────────────
+
+export const updateSiteSettingsSchema = z.object({
+  siteId: z.string().min(1, "siteId es requerido"),
+  requireCatalogPricing: z.boolean(),
+});
+
+// ── validateCoupon ──────────────────────────────────────
+
+export const validateCouponSchema = z
+  .object({
+    siteId: z.string().min(1, "siteId es requerido"),
+    code: z.string().min(1, "code es requerido"),
+    ...cartFields,
+  })
+  .refine(hasSingleCartInput, { message: "Envía cartTotal, lineItems o items (solo uno)", path: ["cartTotal"] });
+
+// ── applyCoupon ─────────────────────────────────────────
+
+export const applyCouponSchema = z
+  .object({
+    siteId: z.string().min(1, "siteId es requerido"),
+    couponId: z.string().min(1, "couponId es requerido"),
+    orderId: z.string().min(1, "orderId es requerido"),
+    ...cartFields,
+    reservationId: z.string().min(1, "reservationId no puede ser vacío").optional(),
+  })
+  .refine(hasSingleCartInput, { message: "Envía cartTotal, lineItems o items (solo uno)", path: ["cartTotal"] });
+
+// ── reserveCoupon ───────────────────────────────────────
+
+export const reserveCouponSchema = z
+  .object({
+    siteId: z.string().min(1, "siteId es requerido"),
+    couponId: z.string().min(1, "couponId es requerido"),
+    ...cartFields,
+    ttlSeconds: z
+      .number()
+      .int("ttlSeconds debe ser entero")
+      .min(MIN_RESERVATION_TTL_SECONDS, `ttlSeconds debe ser al menos ${MIN_RESERVATION_TTL_SECONDS}`)
+      .max(MAX_RESERVATION_TTL_SECONDS, `ttlSeconds no puede superar ${MAX_RESERVATION_TTL_SECONDS}`)
+      .default(DEFAULT_RESERVATION_TTL_SECONDS),
+  })
+  .refine(hasSingleCartInput, { message: "Envía cartTotal, lineItems o items (solo uno)", path: ["cartTotal"] });
+
+// ── getAutomaticPromotions ──────────────────────────────
+
+export const getAutomaticPromotionsSchema = z
+  .object({
+    siteId: z.string().min(1, "siteId es requerido"),
+    ...cartFields,
+  })
+  .refine(hasSingleCartInput, { message: "Envía cartTotal, lineItems o items (solo uno)", path: ["cartTotal"] });
+
+// ── getBestCoupons ──────────────────────────────────────
+
+export const getBestCouponsSchema = z
+  .object({
+    siteId: z.string().min(1, "siteId es requerido"),
+    ...cartFields,
+  })
+  .refine(hasSingleCartInput, { message: "Envía cartTotal, lineItems o items (solo uno)", path: ["cartTotal"] });
+
+// ── getCouponStats ──────────────────────────────────────
+
+const statsDay = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Debe ser una fecha YYYY-MM-DD")
+  .refine(
+    (val: string) => {
+      const time = Date.parse(`${val}T00:00:00Z`);
+      return !isNaN(time) && new Date(time).toISOString().startsWith(val);
+    },
+    { message: "Debe ser una fecha válida" },
+  );
+
+export const getCouponStatsSchema = z
+  .object({
+    siteId: z.string().min(1, "siteId es requerido"),
+    couponId: z.string().min(1, "couponId no puede ser vacío").optional(),
+    from: statsDay,
+    to: statsDay,
+  })
+  .refine((data) => data.from <= data.to, { message: "from debe ser anterior o igual a to", path: ["to"] })
+  .refine(
+    (data) => (Date.parse(data.to) - Date.parse(data.from)) / (24 * 60 * 60 * 1000) < MAX_STATS_RANGE_DAYS,
+    { message: `El rango no puede superar ${MAX_STATS_RANGE_DAYS} días`, path: ["to"] },
+  );
+
+// ── validateCoupons / applyCoupons ───────────────────────
+
+// Los códigos se comparan normalizados (mayúsculas), igual que en couponByCodeQuery
+const stackedCodes = z
+  .array(z.string().trim().min(1, "code no puede ser vacío"))
+  .min(1, "codes no puede ser vacío")
+  .max(MAX_STACKED_COUPONS, `Se pueden combinar hasta ${MAX_STACKED_COUPONS} cupones`)
+  .transform((codes: string[]) => [...new Set(codes.map((code) => code.toUpperCase()))]);
+
+const stackedCouponIds = z
+  .array(z.string().min(1, "couponId no puede ser vacío"))
+  .min(1, "couponIds no puede ser vacío")
+  .max(MAX_STACKED_COUPONS, `Se pueden combinar hasta ${MAX_STACKED_COUPONS} cupones`)
+  .transform((ids: string[]) => [...new Set(ids)]);
+
+export const validateCouponsSchema = z
+  .object({
+    siteId: z.string().min(1, "siteId es requerido"),
+    codes: stackedCodes,
+    ...cartFields,
+  })
+  .refine(hasSingleCartInput, { message: "Envía cartTotal, lineItems o items (solo uno)", path: ["cartTotal"] });
+
+export const applyCouponsSchema = z
+  .object({
+    siteId: z.string().min(1, "siteId es requerido"),
+    couponIds: stackedCouponIds,
+    orderId: z.string().min(1, "orderId es requerido"),
+    ...cartFields,
+    reservationIds: z
+      .array(z.string().min(1, "reservationId no puede ser vacío"))
+      .max(MAX_STACKED_COUPONS, `Se pueden enviar hasta ${MAX_STACKED_COUPONS} reservas`)
+      .transform((ids: string[]) => [...new Set(ids)])
+      .optional(),
+  })
+  .refine(hasSingleCartInput, { message: "Envía cartTotal, lineItems o items (solo uno)", path: ["cartTotal"] });
+
+// ── revertCouponRedemption ──────────────────────────────
+
+export const revertCouponRedemptionSchema = z
+  .object({
+    siteId: z.string().min(1, "siteId es requerido"),
+    orderId: z.string().min(1, "orderId es requerido"),
+    reason: z.string().min(1, "reason es requerido"),
+    refundAmount: z.number().positive("refundAmount debe ser mayor a 0").optional(),
+    refundId: z.string().min(1, "refundId no puede ser vacío").optional(),
+  })
+  .refine(
+    (data) => data.refundAmount === undefined || data.refundId !== undefined,
+    { message: "refundId es requerido para devoluciones parciales", path: ["refundId"] },
+  );
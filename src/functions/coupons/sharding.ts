@@ -0,0 +1,179 @@
+import { randomInt } from "node:crypto";
+import { FieldValue } from "firebase-admin/firestore";
+import type { Transaction } from "firebase-admin/firestore";
+
+import { db } from "../../lib/firebase.js";
+import type { CouponDocument, UsageShard } from "../../types/coupon.js";
+import { couponsCollection, toCouponDocument } from "./helpers.js";
+
+/**
+ * Contador `i` de un cupón con `usageShards`. Cada contador tiene su parte de `maxUses`
+ * (`capacity`) y applyCoupon escribe solo en uno con cupo, nunca en el cupón: los checkouts
+ * simultáneos se reparten entre N documentos y, como la suma de las capacidades no supera
+ * `maxUses`, no se sobrevende. El cupo que se libera en un contador (al revertir un uso) lo usa
+ * ese contador hasta que updateCoupon vuelve a repartir (al cambiar `maxUses` o `usageShards`).
+ */
+export function usageShardRef(couponId: string, index: number) {
+  return couponsCollection.doc(couponId).collection("usageShards").doc(String(index));
+}
+
+export function usageShardRefs(couponId: string, count: number) {
+  return Array.from({ length: count }, (_, index) => usageShardRef(couponId, index));
+}
+
+/** Contador leído de Firestore; uno inexistente no tiene cupo. */
+export function readUsageShard(doc: FirebaseFirestore.DocumentSnapshot): UsageShard {
+  if (!doc.exists) return { usedCount: 0, reservedCount: 0, capacity: 0 };
+  const data = doc.data() as UsageShard;
+  return { usedCount: data.usedCount, reservedCount: data.reservedCount, capacity: data.capacity };
+}
+
+/** Si el contador admite un uso o reserva más. */
+export function hasShardCapacity(shard: UsageShard): boolean {
+  return shard.capacity == null || shard.usedCount + shard.reservedCount < shard.capacity;
+}
+
+/** Reparte `available` usos entre `count` contadores; los primeros reciben el resto de la división. */
+export function splitCapacity(available: number, count: number): number[] {
+  const base = Math.floor(available / count);
+  return Array.from({ length: count }, (_, index) => base + (index < available % count ? 1 : 0));
+}
+
+/** Estado del cupón necesario para repartir el cupo entre contadores. */
+export interface ShardedUsage {
+  /** `usedCount` y `reservedCount` guardados en el documento del cupón (fuera de los contadores). */
+  usedCount: number;
+  reservedCount: number;
+  maxUses: number | null;
+  shards: UsageShard[];
+}
+
+/**
+ * Nuevo reparto de contadores para `count` (null = contador único en el cupón).
+ * Los contadores que sobran se suman al `usedCount` del cupón; el cupo libre
+ * (`maxUses` menos usos y reservas) se reparte entre los que quedan.
+ * Falla si un contador que sobra tiene reservas en curso.
+ */
+export function planUsageShards(
+  current: ShardedUsage,
+  count: number | null,
+): { usedCount: number; shards: UsageShard[] } | { error: string } {
+  const kept = current.shards.slice(0, count ?? 0);
+  const removed = current.shards.slice(count ?? 0);
+  if (removed.some((shard) => shard.reservedCount > 0)) {
+    return { error: "Hay reservas en curso en los contadores que se quitan: reintenta cuando venzan" };
+  }
+
+  const usedCount = removed.reduce((sum, shard) => sum + shard.usedCount, current.usedCount);
+  const taken = Array.from({ length: count ?? 0 }, (_, index) => {
+    const shard = kept[index];
+    return shard ? shard.usedCount + shard.reservedCount : 0;
+  });
+
+  const available = current.maxUses == null
+    ? null
+    : Math.max(current.maxUses - usedCount - current.reservedCount - taken.reduce((a, b) => a + b, 0), 0);
+  const shares = available == null ? null : splitCapacity(available, taken.length);
+
+  return {
+    usedCount,
+    shards: taken.map((_, index) => ({
+      usedCount: kept[index]?.usedCount ?? 0,
+      reservedCount: kept[index]?.reservedCount ?? 0,
+      capacity: shares ? taken[index] + shares[index] : null,
+    })),
+  };
+}
+
+/**
+ * Escribe un reparto de `planUsageShards`: reemplaza los contadores del plan
+ * y borra los que sobran de los `previousCount` anteriores.
+ */
+export function writeUsageShards(
+  transaction: Transaction,
+  couponId: string,
+  previousCount: number,
+  shards: UsageShard[],
+): void {
+  shards.forEach((shard, index) => transaction.set(usageShardRef(couponId, index), shard));
+  for (let index = shards.length; index < previousCount; index++) {
+    transaction.delete(usageShardRef(couponId, index));
+  }
+}
+
+/**
+ * Lee los contadores de los cupones con `usageShards` en una sola lectura (dentro de la
+ * transacción si se indica). Retorna los contadores de cada cupón por ID.
+ */
+export async function loadUsageShards(
+  docs: FirebaseFirestore.DocumentSnapshot[],
+  transaction?: Transaction,
+): Promise<Map<string, UsageShard[]>> {
+  const refs = docs.flatMap((doc) => {
+    const count = doc.get("usageShards") as number | null | undefined;
+    return doc.exists && count ? usageShardRefs(doc.id, count) : [];
+  });
+  const shardDocs = refs.length === 0 ? [] : await (transaction ? transaction.getAll(...refs) : db.getAll(...refs));
+
+  const byCoupon = new Map<string, UsageShard[]>();
+  for (const shardDoc of shardDocs) {
+    const couponId = shardDoc.ref.parent.parent!.id;
+    byCoupon.set(couponId, [...(byCoupon.get(couponId) ?? []), readUsageShard(shardDoc)]);
+  }
+  return byCoupon;
+}
+
+/**
+ * Si el sitio tiene algún cupón con `usageShards`. El `usedCount` guardado en esos cupones no
+ * incluye los usos de sus contadores, así que no sirve para ordenar la lista del sitio.
+ */
+export async function siteHasShardedCoupons(siteId: string): Promise<boolean> {
+  const snapshot = await couponsCollection
+    .where("siteId", "==", siteId)
+    .where("usageShards", "!=", null)
+    .limit(1)
+    .get();
+  return !snapshot.empty;
+}
+
+/** Como `toCouponDocument`, pero con el total de usos de los cupones con `usageShards`. */
+export async function loadCouponDocuments(
+  docs: FirebaseFirestore.DocumentSnapshot[],
+  transaction?: Transaction,
+): Promise<CouponDocument[]> {
+  const shards = await loadUsageShards(docs, transaction);
+  return docs.map((doc) => toCouponDocument(doc, shards.get(doc.id)));
+}
+
+/**
+ * Elige en la transacción un contador con cupo, empezando por uno al azar para repartir la carga.
+ * Lee los contadores de a uno hasta encontrar cupo; retorna null si todos están llenos.
+ * `random(max)` retorna un entero en [0, max).
+ */
+export async function allocateUsageShard(
+  transaction: Transaction,
+  coupon: Pick<CouponDocument, "id" | "usageShards">,
+  random: (max: number) => number = randomInt,
+): Promise<number | null> {
+  const count = coupon.usageShards ?? 0;
+  const start = count > 0 ? random(count) : 0;
+  for (let offset = 0; offset < count; offset++) {
+    const index = (start + offset) % count;
+    const shard = readUsageShard(await transaction.get(usageShardRef(coupon.id, index)));
+    if (hasShardCapacity(shard)) return index;
+  }
+  return null;
+}
+
+/** Registra en un contador ya elegido un uso (`usedCount`) o una reserva (`reservedCount`). */
+export function incrementUsageShard(
+  transaction: Transaction,
+  couponId: string,
+  index: number,
+  increments: { usedCount?: number; reservedCount?: number },
+): void {
+  transaction.update(usageShardRef(couponId, index), {
+    ...(increments.usedCount ? { usedCount: FieldValue.increment(increments.usedCount) } : {}),
+    ...(increments.reservedCount ? { reservedCount: FieldValue.increment(increments.reservedCount) } : {}),
+  });
+}
@@ -0,0 +1,204 @@
+import { ErrorCode } from "../../types/common.js";
+import type { CouponDocument, RejectedCoupon, StackedCoupon } from "../../types/coupon.js";
+import { couponLabel, validateCouponEligibility } from "./helpers.js";
+import type { EligibilityContext } from "./helpers.js";
+import { allocateProportionally, computeCouponDiscount, validateCartScope } from "./pricing.js";
+import type { Cart, CouponDiscount } from "./pricing.js";
+
+/**
+ * Código a evaluar en una combinación. `coupon` es null si el código no existe en la tienda;
+ * `customerUsageCount` son los usos vigentes del cliente (solo si el cupón limita por cliente).
+ * `slotSecured` indica que el uso tiene una reserva vigente, así que no se verifica `maxUses`.
+ */
+export interface StackCandidate {
+  code: string;
+  coupon: CouponDocument | null;
+  customerUsageCount?: number;
+  slotSecured?: boolean;
+}
+
+/** Resultado de combinar cupones sobre un carrito. */
+export interface CouponStack {
+  coupons: StackedCoupon[];
+  rejected: RejectedCoupon[];
+  discountAmount: number;
+  merchandiseDiscount: number;
+  shippingDiscount: number;
+  finalTotal: number;
+}
+
+/**
+ * Lo que queda por descontar del carrito: subtotal, despacho y, con líneas, cada línea.
+ */
+export interface CartBalance {
+  merchandise: number;
+  shipping: number;
+  lines: number[] | null;
+}
+
+export function initialBalance(cart: Cart): CartBalance {
+  return {
+    merchandise: cart.cartTotal,
+    shipping: cart.shippingCost,
+    lines: cart.lineItems?.map((item) => item.quantity * item.unitPrice) ?? null,
+  };
+}
+
+/**
+ * Limita el descuento de un cupón a lo que queda del carrito tras los cupones anteriores,
+ * para que la suma nunca supere una línea, el subtotal ni el despacho.
+ * Las unidades premiadas de una línea recortada se reparten proporcionalmente.
+ */
+export function limitToBalance(discount: CouponDiscount, balance: CartBalance): CouponDiscount {
+  const shippingDiscount = Math.min(discount.shippingDiscount, balance.shipping);
+
+  let lineBreakdown = discount.lineBreakdown;
+  let rewardedUnits = discount.rewardedUnits;
+  let merchandiseDiscount = Math.min(discount.merchandiseDiscount, balance.merchandise);
+
+  if (lineBreakdown && balance.lines) {
+    const lines = balance.lines;
+    lineBreakdown = lineBreakdown.map((line, index) => ({
+      ...line,
+      discountAmount: Math.min(line.discountAmount, lines[index]),
+    }));
+    merchandiseDiscount = lineBreakdown.reduce((sum, line) => sum + line.discountAmount, 0);
+
+    if (rewardedUnits) {
+      const units = [...rewardedUnits];
+      lineBreakdown.forEach((line, lineIndex) => {
+        const positions = units.flatMap((unit, position) => (unit.lineIndex === lineIndex ? [position] : []));
+        const shares = allocateProportionally(
+          line.discountAmount,
+          positions.map((position) => units[position].discountAmount),
+        );
+        positions.forEach((position, i) => {
+          units[position] = { ...units[position], discountAmount: shares[i] };
+        });
+      });
+      rewardedUnits = units;
+    }
+  }
+
+  return {
+    ...discount,
+    discountAmount: merchandiseDiscount + shippingDiscount,
+    merchandiseDiscount,
+    shippingDiscount,
+    lineBreakdown,
+    rewardedUnits,
+  };
+}
+
+/** Combina los datos del cupón con su descuento calculado. */
+export function toStackedCoupon(coupon: CouponDocument, discount: CouponDiscount): StackedCoupon {
+  return {
+    couponId: coupon.id,
+    code: coupon.code,
+    name: coupon.name ?? null,
+    discountType: coupon.discountType,
+    discountValue: coupon.discountValue,
+    priority: coupon.priority ?? 0,
+    ...discount,
+  };
+}
+
+function reject(candidate: StackCandidate, error: string, errorCode: ErrorCode): RejectedCoupon {
+  return { code: candidate.code, couponId: candidate.coupon?.id ?? null, error, errorCode };
+}
+
+/**
+ * Resuelve qué cupones de una combinación se aplican y calcula el descuento de cada uno.
+ *
+ * 1. Cada código se valida por separado (existencia, elegibilidad y alcance del carrito).
+ * 2. Los elegibles se ordenan por `priority` descendente (empates: orden en que se enviaron).
+ * 3. En ese orden se acepta el primero; los siguientes se descartan si alguno de los aceptados
+ *    o el propio cupón no es `stackable`, o si comparten `exclusiveGroup` con uno aceptado.
+ * 4. Cada cupón se calcula sobre el carrito original y se limita a lo que dejaron los anteriores.
+ */
+export function resolveCouponStack(
+  candidates: StackCandidate[],
+  cart: Cart,
+  context: Pick<EligibilityContext, "customerId" | "plan"> = {},
+): CouponStack {
+  const rejected: RejectedCoupon[] = [];
+  const eligible: { candidate: StackCandidate; coupon: CouponDocument }[] = [];
+
+  for (const candidate of candidates) {
+    const { coupon } = candidate;
+    if (!coupon) {
+      rejected.push(reject(candidate, "Cupón no encontrado", ErrorCode.COUPON_NOT_FOUND));
+      continue;
+    }
+    const error =
+      validateCouponEligibility(coupon, cart.cartTotal, {
+        customerId: context.customerId,
+        customerUsageCount: candidate.customerUsageCount,
+        slotSecured: candidate.slotSecured,
+        plan: context.plan,
+      }) ?? validateCartScope(coupon, cart);
+    if (error) {
+      rejected.push(reject(candidate, error.error!, error.errorCode!));
+      continue;
+    }
+    eligible.push({ candidate, coupon });
+  }
+
+  // sort es estable: a igual prioridad se respeta el orden de envío
+  eligible.sort((a, b) => (b.coupon.priority ?? 0) - (a.coupon.priority ?? 0));
+
+  const accepted: CouponDocument[] = [];
+  const coupons: StackedCoupon[] = [];
+  let balance = initialBalance(cart);
+
+  for (const { candidate, coupon } of eligible) {
+    const blocking = accepted.find((other) => !other.stackable || !coupon.stackable);
+    if (blocking) {
+      rejected.push(
+        reject(
+          candidate,
+          `El cupón ${couponLabel(coupon)} no se puede combinar con ${couponLabel(blocking)}`,
+          ErrorCode.COUPON_NOT_STACKABLE,
+        ),
+      );
+      continue;
+    }
+    const conflict = coupon.exclusiveGroup
+      ? accepted.find((other) => other.exclusiveGroup === coupon.exclusiveGroup)
+      : undefined;
+    if (conflict) {
+      rejected.push(
+        reject(
+          candidate,
+          `El cupón ${couponLabel(coupon)} es excluyente con ${couponLabel(conflict)} (grupo ${coupon.exclusiveGroup})`,
+          ErrorCode.COUPON_GROUP_CONFLICT,
+        ),
+      );
+      continue;
+    }
+
+    const discount = limitToBalance(computeCouponDiscount(coupon, cart), balance);
+    balance = {
+      merchandise: balance.merchandise - discount.merchandiseDiscount,
+      shipping: balance.shipping - discount.shippingDiscount,
+      lines: balance.lines && discount.lineBreakdown
+        ? balance.lines.map((remaining, index) => remaining - discount.lineBreakdown![index].discountAmount)
+        : balance.lines,
+    };
+
+    accepted.push(coupon);
+    coupons.push(toStackedCoupon(coupon, discount));
+  }
+
+  const merchandiseDiscount = coupons.reduce((sum, c) => sum + c.merchandiseDiscount, 0);
+  const shippingDiscount = coupons.reduce((sum, c) => sum + c.shippingDiscount, 0);
+
+  return {
+    coupons,
+    rejected,
+    discountAmount: merchandiseDiscount + shippingDiscount,
+    merchandiseDiscount,
+    shippingDiscount,
+    finalTotal: cart.cartTotal + cart.shippingCost - merchandiseDiscount - shippingDiscount,
+  };
+}
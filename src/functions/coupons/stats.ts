@@ -0,0 +1,218 @@
+import { isDeepStrictEqual } from "node:util";
+import { FieldValue } from "firebase-admin/firestore";
+import type { WriteBatch } from "firebase-admin/firestore";
+
+import { db } from "../../lib/firebase.js";
+import type { RedemptionDocument } from "../../types/redemption.js";
+import type { DailyStats, StatsSummary, StatsTotals } from "../../types/stats.js";
+import { allocateProportionally } from "./pricing.js";
+
+export const couponStatsCollection = db.collection("couponStats");
+/** Eventos de `redemptions` ya sumados a los rollups (ID = ID del evento del trigger). */
+export const couponStatsEventsCollection = db.collection("couponStatsEvents");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Código gRPC de Firestore al crear un documento que ya existe. */
+const ALREADY_EXISTS = 6;
+
+/** Aporte de una orden a un rollup: del sitio (`couponId` null) o de uno de sus cupones. */
+export interface StatsContribution {
+  couponId: string | null;
+  totals: StatsTotals;
+}
+
+type StatsRedemption = Pick<
+  RedemptionDocument,
+  | "couponIds"
+  | "discountAmount"
+  | "finalTotal"
+  | "result"
+  | "status"
+  | "refunds"
+  | "refundedAmount"
+  | "refundedDiscountAmount"
+>;
+
+export const EMPTY_TOTALS: StatsTotals = { redemptionCount: 0, discountTotal: 0, grossRevenue: 0, netRevenue: 0 };
+
+/**
+ * Referencia a un rollup: `coupon|{couponId}` o `site|{siteId}`, seguido del día o `total`.
+ * El ID es determinístico para poder incrementarlo sin leerlo antes.
+ */
+export function couponStatsRef(siteId: string, couponId: string | null, date: string | null) {
+  const owner = couponId ? `coupon|${encodeURIComponent(couponId)}` : `site|${encodeURIComponent(siteId)}`;
+  return couponStatsCollection.doc(`${owner}|${date ?? "total"}`);
+}
+
+/** Día (UTC) en que se contabiliza una orden: el de su registro de uso, aunque se revierta después. */
+export function statsDate(isoDate: string): string {
+  return new Date(isoDate).toISOString().slice(0, 10);
+}
+
+/** Descuento que otorgó cada cupón de la orden, en el orden de `couponIds`. */
+function couponDiscounts(redemption: StatsRedemption): number[] {
+  const { result } = redemption;
+  if (!("coupons" in result)) return [redemption.discountAmount];
+  return redemption.couponIds.map((id) => result.coupons.find((c) => c.couponId === id)?.discountAmount ?? 0);
+}
+
+/**
+ * Lo que una orden aporta hoy a cada rollup: el del sitio primero y luego uno por cupón.
+ * Las devoluciones parciales restan monto y descuento (repartido entre cupones según lo que
+ * otorgó cada uno); una orden revertida no aporta nada.
+ * Cada cupón cuenta la orden completa como ingreso generado, así que con cupones combinados
+ * la suma de los cupones supera al sitio.
+ */
+export function redemptionStats(redemption: StatsRedemption): StatsContribution[] {
+  const couponIds = redemption.couponIds;
+  if (redemption.status === "reverted") {
+    return [null, ...couponIds].map((couponId) => ({ couponId, totals: EMPTY_TOTALS }));
+  }
+
+  const grossRevenue = redemption.finalTotal + redemption.discountAmount - redemption.refundedAmount;
+  const netRevenue = redemption.finalTotal - (redemption.refundedAmount - redemption.refundedDiscountAmount);
+
+  const discounts = couponDiscounts(redemption);
+  const refundedShares = redemption.refunds.reduce(
+    (sums, refund) => allocateProportionally(refund.discountAmount, discounts).map((share, i) => sums[i] + share),
+    discounts.map(() => 0),
+  );
+
+  return [
+    {
+      couponId: null,
+      totals: {
+        redemptionCount: 1,
+        discountTotal: redemption.discountAmount - redemption.refundedDiscountAmount,
+        grossRevenue,
+        netRevenue,
+      },
+    },
+    ...couponIds.map((couponId, i) => ({
+      couponId,
+      totals: { redemptionCount: 1, discountTotal: discounts[i] - refundedShares[i], grossRevenue, netRevenue },
+    })),
+  ];
+}
+
+/**
+ * Registra en el lote el cambio de aporte de una orden (`before` → `after`, null = sin aporte)
+ * como incrementos sobre los rollups totales y del día de la orden. Una orden nueva (`before` null)
+ * además deja su fecha como `lastUsedAt` de los rollups totales.
+ * No lee los rollups: los incrementos de órdenes distintas se pueden aplicar en cualquier orden.
+ */
+export function recordStatsChange(
+  batch: WriteBatch,
+  siteId: string,
+  orderDate: string,
+  before: StatsContribution[] | null,
+  after: StatsContribution[] | null,
+  now: string,
+): void {
+  const entries = after ?? before ?? [];
+  const date = statsDate(orderDate);
+
+  entries.forEach(({ couponId }, i) => {
+    const from = before?.[i].totals ?? EMPTY_TOTALS;
+    const to = after?.[i].totals ?? EMPTY_TOTALS;
+    const increments = {
+      redemptionCount: FieldValue.increment(to.redemptionCount - from.redemptionCount),
+      discountTotal: FieldValue.increment(to.discountTotal - from.discountTotal),
+      grossRevenue: FieldValue.increment(to.grossRevenue - from.grossRevenue),
+      netRevenue: FieldValue.increment(to.netRevenue - from.netRevenue),
+      updatedAt: now,
+    };
+
+    for (const day of [null, date]) {
+      const lastUse = day === null && before === null && after !== null ? { lastUsedAt: orderDate } : {};
+      batch.set(
+        couponStatsRef(siteId, couponId, day),
+        { siteId, couponId, date: day, ...increments, ...lastUse },
+        { merge: true },
+      );
+    }
+  });
+}
+
+/**
+ * Suma a los rollups una escritura de `redemptions` (la crea applyCoupon/applyCoupons y la
+ * actualiza revertCouponRedemption), desde el trigger `onRedemptionWritten` y no en la transacción
+ * del uso: así los checkouts de un cupón popular (con `usageShards`) no compiten por sus rollups
+ * ni por los del sitio. El evento se marca en `couponStatsEvents` en el mismo lote, de modo que
+ * un reintento del trigger no cuenta dos veces. Retorna false si no había cambios o el evento ya
+ * se había sumado.
+ */
+export async function applyRedemptionStats(
+  eventId: string,
+  before: RedemptionDocument | undefined,
+  after: RedemptionDocument | undefined,
+  now: string,
+): Promise<boolean> {
+  const redemption = after ?? before;
+  if (!redemption) return false;
+  const from = before ? redemptionStats(before) : null;
+  const to = after ? redemptionStats(after) : null;
+  if (from && to && isDeepStrictEqual(from, to)) return false;
+
+  const batch = db.batch();
+  batch.create(couponStatsEventsCollection.doc(eventId), { siteId: redemption.siteId, createdAt: now });
+  recordStatsChange(batch, redemption.siteId, redemption.createdAt, from, to, now);
+  try {
+    await batch.commit();
+    return true;
+  } catch (error) {
+    if ((error as { code?: number }).code === ALREADY_EXISTS) return false;
+    throw error;
+  }
+}
+
+/** Acumulados de un rollup; un rollup inexistente (sin usos) cuenta como ceros. */
+export function readStatsTotals(doc: FirebaseFirestore.DocumentSnapshot): StatsTotals {
+  if (!doc.exists) return EMPTY_TOTALS;
+  const data = doc.data() as StatsTotals;
+  return {
+    redemptionCount: data.redemptionCount,
+    discountTotal: data.discountTotal,
+    grossRevenue: data.grossRevenue,
+    netRevenue: data.netRevenue,
+  };
+}
+
+/** Fecha del último uso de un rollup total; null si no existe o aún no la tiene. */
+export function readLastUsedAt(doc: FirebaseFirestore.DocumentSnapshot): string | null {
+  return (doc.get("lastUsedAt") as string | undefined) ?? null;
+}
+
+/** Agrega el ticket promedio a unos acumulados. */
+export function summarizeStats(totals: StatsTotals): StatsSummary {
+  return {
+    redemptionCount: totals.redemptionCount,
+    discountTotal: totals.discountTotal,
+    grossRevenue: totals.grossRevenue,
+    netRevenue: totals.netRevenue,
+    averageOrderValue: totals.redemptionCount > 0 ? Math.round(totals.netRevenue / totals.redemptionCount) : 0,
+  };
+}
+
+/** Días `YYYY-MM-DD` entre `from` y `to`, ambos incluidos. */
+export function dateRange(from: string, to: string): string[] {
+  const days: string[] = [];
+  const end = Date.parse(`${to}T00:00:00Z`);
+  for (let time = Date.parse(`${from}T00:00:00Z`); time <= end; time += DAY_MS) {
+    days.push(statsDate(new Date(time).toISOString()));
+  }
+  return days;
+}
+
+/** Suma una serie diaria. */
+export function sumSeries(series: DailyStats[]): StatsTotals {
+  return series.reduce(
+    (sum, day) => ({
+      redemptionCount: sum.redemptionCount + day.redemptionCount,
+      discountTotal: sum.discountTotal + day.discountTotal,
+      grossRevenue: sum.grossRevenue + day.grossRevenue,
+      netRevenue: sum.netRevenue + day.netRevenue,
+    }),
+    EMPTY_TOTALS,
+  );
+}
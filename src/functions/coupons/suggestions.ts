@@ -0,0 +1,73 @@
+import type { CouponSuggestion } from "../../types/coupon.js";
+import { couponLabel, validateCouponEligibility } from "./helpers.js";
+import type { EligibilityContext } from "./helpers.js";
+import { computeCouponDiscount, validateCartScope } from "./pricing.js";
+import type { Cart } from "./pricing.js";
+import type { StackCandidate } from "./stacking.js";
+
+/** Cuánto le falta al carrito para que el cupón aplique, si el motivo es un monto mínimo. */
+function amountRemaining(suggestion: CouponSuggestion): number {
+  const remaining = suggestion.rejection?.errorDetails?.amountRemaining;
+  return typeof remaining === "number" ? remaining : Number.POSITIVE_INFINITY;
+}
+
+/**
+ * Evalúa cada cupón contra el carrito con las mismas reglas que validateCoupon y los ordena:
+ * primero los elegibles por mayor descuento, luego los no elegibles por cercanía al monto mínimo.
+ * Los empates conservan el orden recibido.
+ */
+export function rankCouponSuggestions(
+  candidates: Omit<StackCandidate, "code">[],
+  cart: Cart,
+  context: Pick<EligibilityContext, "customerId"> = {},
+): CouponSuggestion[] {
+  const suggestions = candidates.flatMap(({ coupon, customerUsageCount }): CouponSuggestion[] => {
+    if (!coupon) return [];
+
+    const base = {
+      couponId: coupon.id,
+      code: couponLabel(coupon),
+      discountType: coupon.discountType,
+      discountValue: coupon.discountValue,
+    };
+
+    const failure =
+      validateCouponEligibility(coupon, cart.cartTotal, { customerId: context.customerId, customerUsageCount }) ??
+      validateCartScope(coupon, cart);
+    if (failure) {
+      return [{
+        ...base,
+        eligible: false,
+        discountAmount: 0,
+        finalTotal: cart.cartTotal + cart.shippingCost,
+        rejection: {
+          error: failure.error!,
+          errorCode: failure.errorCode!,
+          errorDetails: failure.errorDetails ?? null,
+        },
+      }];
+    }
+
+    const { discountAmount } = computeCouponDiscount(coupon, cart);
+    return [{
+      ...base,
+      eligible: true,
+      discountAmount,
+      finalTotal: Math.max(cart.cartTotal + cart.shippingCost - discountAmount, 0),
+      rejection: null,
+    }];
+  });
+
+  const eligible = suggestions
+    .filter((s) => s.eligible)
+    .sort((a, b) => b.discountAmount - a.discountAmount);
+  const ineligible = suggestions
+    .filter((s) => !s.eligible)
+    .sort((a, b) => {
+      // Infinity - Infinity es NaN: dos cupones sin monto pendiente quedan empatados
+      const diff = amountRemaining(a) - amountRemaining(b);
+      return Number.isNaN(diff) ? 0 : diff;
+    });
+
+  return [...eligible, ...ineligible];
+}
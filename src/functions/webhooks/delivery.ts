@@ -0,0 +1,282 @@
+import { createHmac } from "node:crypto";
+import type { LookupAddress } from "node:dns";
+import { request as httpRequest } from "node:http";
+import { request as httpsRequest } from "node:https";
+import { logger } from "firebase-functions";
+
+import { db } from "../../lib/firebase.js";
+import { getUserPlan } from "../../lib/limits.js";
+import { getSiteUserId } from "../coupons/helpers.js";
+import { pinnedLookup, resolveWebhookTarget } from "./network.js";
+import { MAX_WEBHOOK_ATTEMPTS } from "../../types/webhook.js";
+import type {
+  WebhookDeliveryDocument,
+  WebhookDeliveryStatus,
+  WebhookEndpointDocument,
+  WebhookEvent,
+} from "../../types/webhook.js";
+
+export const webhookEndpointsCollection = db.collection("webhookEndpoints");
+export const webhookDeliveriesCollection = db.collection("webhookDeliveries");
+
+/** Tiempo máximo de espera de la respuesta de un endpoint. */
+export const WEBHOOK_TIMEOUT_MS = 10_000;
+
+/** Cuánto reserva un intento la entrega: otro intento no la toma antes, aunque este se interrumpa. */
+const DELIVERY_LEASE_MS = 60_000;
+
+/** Espera del primer reintento; se duplica en cada uno hasta `MAX_RETRY_DELAY_SECONDS`. */
+const BASE_RETRY_DELAY_SECONDS = 30;
+const MAX_RETRY_DELAY_SECONDS = 60 * 60;
+
+/** Entregas pendientes por ejecución del job de reintentos. */
+export const RETRY_BATCH_SIZE = 100;
+
+/** Respuestas con más texto se recortan al guardarlas en `lastError`. */
+const MAX_ERROR_LENGTH = 200;
+
+/**
+ * Firma de un envío: HMAC-SHA256 (hex) con el secreto del endpoint sobre `${timestamp}.${body}`.
+ * El receptor la recalcula con el cuerpo crudo y el header `X-Webhook-Timestamp`, y puede
+ * rechazar timestamps viejos para evitar que se reenvíe un evento capturado.
+ */
+export function webhookSignature(secret: string, timestamp: string, body: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+/** Segundos hasta el siguiente intento tras `attempts` intentos fallidos (backoff exponencial). */
+export function retryDelaySeconds(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_SECONDS * Math.pow(2, Math.max(attempts - 1, 0)), MAX_RETRY_DELAY_SECONDS);
+}
+
+/** ID de la entrega de un evento a un endpoint: re-encolar el mismo evento no la duplica. */
+export function webhookDeliveryId(eventId: string, endpointId: string): string {
+  return `${eventId}_${endpointId}`;
+}
+
+export interface WebhookSendResult {
+  ok: boolean;
+  /** null si el endpoint no respondió (red, DNS o timeout). */
+  statusCode: number | null;
+  error: string | null;
+}
+
+/**
+ * POST a un endpoint conectando solo a `addresses` (`pinnedLookup`). No sigue redirecciones
+ * y corta a los `WEBHOOK_TIMEOUT_MS`. Retorna el código HTTP y el comienzo de la respuesta.
+ */
+export function postWebhook(
+  url: string,
+  headers: Record<string, string>,
+  body: string,
+  addresses: LookupAddress[],
+): Promise<{ statusCode: number; text: string }> {
+  const target = new URL(url);
+  const send = target.protocol === "https:" ? httpsRequest : httpRequest;
+
+  return new Promise((resolve, reject) => {
+    const request = send(
+      target,
+      {
+        method: "POST",
+        headers: { ...headers, "Content-Length": String(Buffer.byteLength(body)) },
+        lookup: pinnedLookup(addresses),
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      },
+      (response) => {
+        let text = "";
+        response.setEncoding("utf8");
+        response.on("data", (chunk: string) => {
+          if (text.length < MAX_ERROR_LENGTH) text += chunk;
+        });
+        response.on("end", () => resolve({ statusCode: response.statusCode ?? 0, text }));
+        response.on("error", reject);
+      },
+    );
+    request.on("error", reject);
+    request.end(body);
+  });
+}
+
+/**
+ * Envía un evento como POST JSON firmado. Solo una respuesta 2xx cuenta como entregado;
+ * nunca lanza: los errores de red y los timeouts se retornan como fallo, igual que un host
+ * que resuelve a una dirección no pública (`resolveWebhookTarget`). La conexión usa las
+ * direcciones ya revisadas, no una segunda consulta al DNS.
+ */
+export async function sendWebhook(
+  endpoint: Pick<WebhookEndpointDocument, "url" | "secret">,
+  event: WebhookEvent,
+  now: Date,
+): Promise<WebhookSendResult> {
+  const body = JSON.stringify(event);
+  const timestamp = String(Math.floor(now.getTime() / 1000));
+
+  try {
+    const target = await resolveWebhookTarget(endpoint.url);
+    if (target.error !== null) return { ok: false, statusCode: null, error: target.error };
+
+    const headers = {
+      "Content-Type": "application/json",
+      "User-Agent": "WebGo-Webhooks/1.0",
+      "X-Webhook-Id": event.id,
+      "X-Webhook-Event": event.type,
+      "X-Webhook-Timestamp": timestamp,
+      "X-Webhook-Signature": `sha256=${webhookSignature(endpoint.secret, timestamp, body)}`,
+    };
+    const { statusCode, text } = await postWebhook(endpoint.url, headers, body, target.addresses);
+    if (statusCode >= 200 && statusCode < 300) return { ok: true, statusCode, error: null };
+
+    const detail = text.trim().slice(0, MAX_ERROR_LENGTH);
+    return { ok: false, statusCode, error: `HTTP ${statusCode}${detail ? `: ${detail}` : ""}` };
+  } catch (error) {
+    return { ok: false, statusCode: null, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/** Si el plan del dueño del sitio incluye webhooks (un sitio sin dueño no los tiene). */
+async function siteHasWebhooks(siteId: string): Promise<boolean> {
+  const userId = await getSiteUserId(siteId);
+  return userId !== null && (await getUserPlan(userId)).features.webhooks;
+}
+
+/**
+ * Registra en la bandeja de salida una entrega del evento por cada endpoint activo del sitio
+ * suscrito a su tipo. Es idempotente: las entregas que ya existen (un trigger reintentado) no
+ * se vuelven a crear. Retorna cuántas creó; el envío lo hace `onWebhookDeliveryCreated`.
+ * Si el plan dejó de incluir webhooks (un cambio a un plan menor), los endpoints ya
+ * registrados no reciben eventos nuevos.
+ */
+export async function enqueueWebhookEvent(event: WebhookEvent): Promise<number> {
+  const endpoints = await webhookEndpointsCollection.where("siteId", "==", event.siteId).get();
+  const subscribed = endpoints.docs.filter(
+    (doc) => doc.get("isActive") === true && (doc.get("events") as string[]).includes(event.type),
+  );
+  if (subscribed.length === 0) return 0;
+
+  if (!(await siteHasWebhooks(event.siteId))) {
+    logger.info("Webhook event skipped: the site's plan does not include webhooks", {
+      siteId: event.siteId,
+      eventId: event.id,
+    });
+    return 0;
+  }
+
+  return db.runTransaction(async (transaction) => {
+    const refs = subscribed.map((doc) => webhookDeliveriesCollection.doc(webhookDeliveryId(event.id, doc.id)));
+    const existing = await transaction.getAll(...refs);
+
+    let created = 0;
+    existing.forEach((doc, index) => {
+      if (doc.exists) return;
+      const delivery: Omit<WebhookDeliveryDocument, "id"> = {
+        siteId: event.siteId,
+        endpointId: subscribed[index].id,
+        eventId: event.id,
+        eventType: event.type,
+        event,
+        status: "pending",
+        attempts: 0,
+        nextAttemptAt: event.createdAt,
+        lastAttemptAt: null,
+        lastStatusCode: null,
+        lastError: null,
+        deliveredAt: null,
+        createdAt: event.createdAt,
+        updatedAt: event.createdAt,
+      };
+      transaction.create(doc.ref, delivery);
+      created++;
+    });
+    return created;
+  });
+}
+
+/**
+ * Toma una entrega pendiente cuyo intento ya venció, reservándola por `DELIVERY_LEASE_MS`.
+ * Retorna null si otro intento la tomó, ya terminó o no le toca todavía. Si el endpoint se
+ * borró o desactivó, la entrega queda `failed` sin enviarse.
+ */
+async function claimDelivery(
+  deliveryId: string,
+  now: Date,
+): Promise<{ delivery: WebhookDeliveryDocument; endpoint: WebhookEndpointDocument } | null> {
+  const timestamp = now.toISOString();
+
+  return db.runTransaction(async (transaction) => {
+    const deliveryRef = webhookDeliveriesCollection.doc(deliveryId);
+    const deliveryDoc = await transaction.get(deliveryRef);
+    if (!deliveryDoc.exists) return null;
+
+    const delivery = { id: deliveryDoc.id, ...deliveryDoc.data() } as WebhookDeliveryDocument;
+    if (delivery.status !== "pending" || !delivery.nextAttemptAt || delivery.nextAttemptAt > timestamp) return null;
+
+    const endpointDoc = await transaction.get(webhookEndpointsCollection.doc(delivery.endpointId));
+    if (!endpointDoc.exists || endpointDoc.get("isActive") !== true) {
+      transaction.update(deliveryRef, {
+        status: "failed",
+        nextAttemptAt: null,
+        lastError: "El endpoint fue eliminado o desactivado",
+        updatedAt: timestamp,
+      });
+      return null;
+    }
+
+    transaction.update(deliveryRef, {
+      nextAttemptAt: new Date(now.getTime() + DELIVERY_LEASE_MS).toISOString(),
+      updatedAt: timestamp,
+    });
+    return { delivery, endpoint: { id: endpointDoc.id, ...endpointDoc.data() } as WebhookEndpointDocument };
+  });
+}
+
+/**
+ * Intenta enviar una entrega pendiente y registra el resultado: `delivered` con una respuesta 2xx;
+ * si falla, la reprograma con `retryDelaySeconds` o, tras `MAX_WEBHOOK_ATTEMPTS` intentos, la deja
+ * `failed`. Retorna el estado resultante, o null si no correspondía intentarla ahora.
+ */
+export async function deliverWebhook(deliveryId: string, now: Date): Promise<WebhookDeliveryStatus | null> {
+  const claimed = await claimDelivery(deliveryId, now);
+  if (!claimed) return null;
+
+  const { delivery, endpoint } = claimed;
+  const result = await sendWebhook(endpoint, delivery.event, now);
+  const attempts = delivery.attempts + 1;
+  const timestamp = now.toISOString();
+
+  const status: WebhookDeliveryStatus = result.ok ? "delivered" : attempts >= MAX_WEBHOOK_ATTEMPTS ? "failed" : "pending";
+  await webhookDeliveriesCollection.doc(deliveryId).update({
+    status,
+    attempts,
+    nextAttemptAt:
+      status === "pending" ? new Date(now.getTime() + retryDelaySeconds(attempts) * 1000).toISOString() : null,
+    lastAttemptAt: timestamp,
+    lastStatusCode: result.statusCode,
+    lastError: result.error,
+    deliveredAt: result.ok ? timestamp : null,
+    updatedAt: timestamp,
+  });
+
+  if (status === "failed") {
+    logger.warn("Webhook delivery failed permanently", { deliveryId, endpointId: endpoint.id, error: result.error });
+  }
+  return status;
+}
+
+/**
+ * Reintenta las entregas pendientes cuyo `nextAttemptAt` ya pasó, hasta `RETRY_BATCH_SIZE` por
+ * ejecución (las demás quedan para la siguiente). Retorna cuántas intentó.
+ */
+export async function retryWebhookDeliveries(now: Date): Promise<number> {
+  const snapshot = await webhookDeliveriesCollection
+    .where("status", "==", "pending")
+    .where("nextAttemptAt", "<=", now.toISOString())
+    .orderBy("nextAttemptAt", "asc")
+    .limit(RETRY_BATCH_SIZE)
+    .get();
+
+  const results = await Promise.all(snapshot.docs.map((doc) => deliverWebhook(doc.id, now)));
+  const attempted = results.filter((status) => status !== null).length;
+  if (attempted > 0) logger.info("retryWebhookDeliveries finished", { attempted });
+  return attempted;
+}
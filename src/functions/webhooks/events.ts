@@ -0,0 +1,101 @@
+import type { CouponDocument } from "../../types/coupon.js";
+import type { RedemptionDocument } from "../../types/redemption.js";
+import type { WebhookEvent, WebhookEventType } from "../../types/webhook.js";
+
+type CouponData = FirebaseFirestore.DocumentData;
+
+/** Campos que cambian con cada uso o reserva: solos no cuentan como `coupon.updated`. */
+const USAGE_FIELDS = new Set(["usedCount", "reservedCount", "updatedAt"]);
+
+/**
+ * Campos que cambian al agotarse un cupón o al reactivarse cuando se libera un uso: en esa
+ * transición de `exhaustedAt` se informan como `coupon.exhausted` (o nada), no como `coupon.updated`.
+ */
+const EXHAUSTION_FIELDS = new Set(["isActive", "exhaustedAt"]);
+
+/** Campos que los cupones antiguos no tienen: ausentes valen lo mismo que su valor por defecto. */
+const FIELD_DEFAULTS: Record<string, unknown> = { isArchived: false };
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/** Si cambió algún campo del cupón además de los de uso (y de los de agotamiento, si cambió `exhaustedAt`). */
+function hasConfigChanges(before: CouponData, after: CouponData): boolean {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  const exhaustionChanged = !before.exhaustedAt !== !after.exhaustedAt;
+  return [...fields].some(
+    (field) =>
+      !USAGE_FIELDS.has(field) &&
+      !(exhaustionChanged && EXHAUSTION_FIELDS.has(field)) &&
+      !sameValue(before[field] ?? FIELD_DEFAULTS[field], after[field] ?? FIELD_DEFAULTS[field]),
+  );
+}
+
+/**
+ * Agotado: se registra `exhaustedAt`. Lo hace la misma escritura que alcanza `maxUses` (un uso o
+ * `updateCoupon` bajando el límite) o, con `usageShards`, el job programado.
+ */
+function becameExhausted(before: CouponData, after: CouponData): boolean {
+  return !before.exhaustedAt && !!after.exhaustedAt;
+}
+
+/**
+ * Eventos de webhook que produce una escritura de un cupón (`before`/`after` undefined si el
+ * documento no existía o se borró). Archivar cuenta como `coupon.deleted`; borrar un cupón
+ * ya archivado no repite el evento. Un uso que no agota el cupón no produce eventos aquí:
+ * los usos se notifican como `coupon.applied` desde `redemptions`.
+ */
+export function couponEventTypes(before: CouponData | undefined, after: CouponData | undefined): WebhookEventType[] {
+  if (!before && !after) return [];
+  if (!before) return ["coupon.created"];
+  if (!after) return before.isArchived === true ? [] : ["coupon.deleted"];
+  if (before.isArchived !== true && after.isArchived === true) return ["coupon.deleted"];
+
+  const types: WebhookEventType[] = [];
+  if (hasConfigChanges(before, after)) types.push("coupon.updated");
+  if (becameExhausted(before, after)) types.push("coupon.exhausted");
+  return types;
+}
+
+/**
+ * Eventos de una escritura de `coupons/{couponId}`. `triggerEventId` es el ID del evento de
+ * Firestore, estable entre reintentos del trigger, así que re-encolar no duplica entregas.
+ */
+export function buildCouponEvents(
+  triggerEventId: string,
+  couponId: string,
+  before: CouponData | undefined,
+  after: CouponData | undefined,
+  now: Date,
+): WebhookEvent[] {
+  const types = couponEventTypes(before, after);
+  return types.map((type) => {
+    const data = (type === "coupon.deleted" ? before : after) as CouponData;
+    const coupon = { id: couponId, ...data } as CouponDocument;
+    return {
+      id: `${triggerEventId}-${type}`,
+      type,
+      siteId: coupon.siteId,
+      createdAt: now.toISOString(),
+      data: type === "coupon.deleted" ? { coupon, permanent: !after } : { coupon },
+    };
+  });
+}
+
+/** Evento `coupon.applied` de un uso registrado (sin el resultado completo de la orden). */
+export function buildRedemptionEvent(
+  triggerEventId: string,
+  redemptionId: string,
+  data: FirebaseFirestore.DocumentData,
+  now: Date,
+): WebhookEvent {
+  const { result, usageShardIndexes, ...redemption } = { id: redemptionId, ...data } as RedemptionDocument;
+  return {
+    id: `${triggerEventId}-coupon.applied`,
+    type: "coupon.applied",
+    siteId: redemption.siteId,
+    createdAt: now.toISOString(),
+    data: { redemption },
+  };
+}
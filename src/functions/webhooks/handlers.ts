@@ -0,0 +1,152 @@
+import { randomBytes } from "node:crypto";
+
+import {
+  createWebhookEndpointSchema,
+  deleteWebhookEndpointSchema,
+  getWebhookDeliveriesSchema,
+  getWebhookEndpointsSchema,
+} from "./schemas.js";
+import { webhookDeliveriesCollection, webhookEndpointsCollection } from "./delivery.js";
+import { decodeCursor, encodeCursor, formatZodError, withSiteOwner } from "../coupons/helpers.js";
+import { checkPlanFeature } from "../coupons/entitlements.js";
+import { getUserPlan } from "../../lib/limits.js";
+import { ErrorCode } from "../../types/common.js";
+import type {
+  WebhookDeliveryDocument,
+  WebhookDeliveryPage,
+  WebhookEndpoint,
+  WebhookEndpointDocument,
+} from "../../types/webhook.js";
+
+/** Endpoint sin el secreto, para listarlo. */
+function toWebhookEndpoint(doc: FirebaseFirestore.DocumentSnapshot): WebhookEndpoint {
+  const { secret, ...endpoint } = { id: doc.id, ...doc.data() } as WebhookEndpointDocument;
+  return endpoint;
+}
+
+// ── 1. createWebhookEndpoint ────────────────────────────
+
+/**
+ * Registra un endpoint que recibirá los eventos suscritos del sitio (si el plan incluye webhooks).
+ * Genera el secreto de la firma y lo retorna solo en esta respuesta.
+ */
+export const createWebhookEndpointHandler = withSiteOwner<WebhookEndpointDocument>(
+  "createWebhookEndpoint",
+  async (request, { userId }) => {
+    const parsed = createWebhookEndpointSchema.safeParse(request.data);
+    if (!parsed.success) {
+      return { data: null, error: formatZodError(parsed.error), errorCode: ErrorCode.INVALID_INPUT };
+    }
+
+    const featureError = checkPlanFeature(await getUserPlan(userId), "webhooks");
+    if (featureError) return featureError;
+
+    const { siteId, url, events } = parsed.data;
+    const now = new Date().toISOString();
+    const endpointData: Omit<WebhookEndpointDocument, "id"> = {
+      siteId,
+      url,
+      secret: `whsec_${randomBytes(24).toString("hex")}`,
+      events,
+      isActive: true,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    const docRef = webhookEndpointsCollection.doc();
+    await docRef.create(endpointData);
+    return { data: { id: docRef.id, ...endpointData }, error: null };
+  },
+);
+
+// ── 2. getWebhookEndpoints ──────────────────────────────
+
+/** Lista los endpoints del sitio, del más reciente al más antiguo, sin sus secretos. */
+export const getWebhookEndpointsHandler = withSiteOwner<WebhookEndpoint[]>(
+  "getWebhookEndpoints",
+  async (request) => {
+    const parsed = getWebhookEndpointsSchema.safeParse(request.data);
+    if (!parsed.success) {
+      return { data: null, error: formatZodError(parsed.error), errorCode: ErrorCode.INVALID_INPUT };
+    }
+
+    const snapshot = await webhookEndpointsCollection.where("siteId", "==", parsed.data.siteId).get();
+    const endpoints = snapshot.docs
+      .map(toWebhookEndpoint)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    return { data: endpoints, error: null };
+  },
+);
+
+// ── 3. deleteWebhookEndpoint ────────────────────────────
+
+/**
+ * Elimina un endpoint. Su registro de entregas se conserva; las pendientes quedan
+ * `failed` en su próximo intento.
+ */
+export const deleteWebhookEndpointHandler = withSiteOwner<{ id: string }>(
+  "deleteWebhookEndpoint",
+  async (request) => {
+    const parsed = deleteWebhookEndpointSchema.safeParse(request.data);
+    if (!parsed.success) {
+      return { data: null, error: formatZodError(parsed.error), errorCode: ErrorCode.INVALID_INPUT };
+    }
+
+    const { siteId, endpointId } = parsed.data;
+
+    const endpointRef = webhookEndpointsCollection.doc(endpointId);
+    const endpointDoc = await endpointRef.get();
+    if (!endpointDoc.exists) {
+      return { data: null, error: "Webhook no encontrado", errorCode: ErrorCode.WEBHOOK_NOT_FOUND };
+    }
+    if (endpointDoc.data()?.siteId !== siteId) {
+      return { data: null, error: "El webhook no pertenece a esta tienda", errorCode: ErrorCode.FORBIDDEN };
+    }
+
+    await endpointRef.delete();
+    return { data: { id: endpointId }, error: null };
+  },
+);
+
+// ── 4. getWebhookDeliveries ─────────────────────────────
+
+/**
+ * Registro de entregas del sitio, de la más reciente a la más antigua, paginado por cursor.
+ * Se puede filtrar por endpoint y por estado (p. ej. `failed` para ver qué no llegó).
+ */
+export const getWebhookDeliveriesHandler = withSiteOwner<WebhookDeliveryPage>(
+  "getWebhookDeliveries",
+  async (request) => {
+    const parsed = getWebhookDeliveriesSchema.safeParse(request.data);
+    if (!parsed.success) {
+      return { data: null, error: formatZodError(parsed.error), errorCode: ErrorCode.INVALID_INPUT };
+    }
+
+    const { siteId, endpointId, status, pageSize, cursor } = parsed.data;
+
+    let query: FirebaseFirestore.Query = webhookDeliveriesCollection.where("siteId", "==", siteId);
+    if (endpointId) query = query.where("endpointId", "==", endpointId);
+    if (status) query = query.where("status", "==", status);
+    query = query.orderBy("createdAt", "desc");
+
+    if (cursor) {
+      const cursorId = decodeCursor(cursor);
+      const cursorDoc = cursorId ? await webhookDeliveriesCollection.doc(cursorId).get() : null;
+      if (!cursorDoc?.exists || cursorDoc.data()?.siteId !== siteId) {
+        return { data: null, error: "cursor inválido o expirado", errorCode: ErrorCode.INVALID_INPUT };
+      }
+      query = query.startAfter(cursorDoc);
+    }
+
+    const snapshot = await query.limit(pageSize + 1).get();
+    const docs = snapshot.docs.slice(0, pageSize);
+
+    return {
+      data: {
+        deliveries: docs.map((doc) => ({ id: doc.id, ...doc.data() }) as WebhookDeliveryDocument),
+        nextCursor: snapshot.size > pageSize ? encodeCursor(docs[docs.length - 1].id) : null,
+      },
+      error: null,
+    };
+  },
+);
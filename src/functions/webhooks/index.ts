@@ -0,0 +1,68 @@
+import { type CallableOptions, onCall } from "firebase-functions/v2/https";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { onDocumentCreated, onDocumentWritten } from "firebase-functions/v2/firestore";
+import { FUNCTION_REGION } from "../../lib/config.js";
+import {
+  createWebhookEndpointHandler,
+  deleteWebhookEndpointHandler,
+  getWebhookDeliveriesHandler,
+  getWebhookEndpointsHandler,
+} from "./handlers.js";
+import { deliverWebhook, enqueueWebhookEvent, retryWebhookDeliveries } from "./delivery.js";
+import { buildCouponEvents, buildRedemptionEvent } from "./events.js";
+
+const functionConfig: CallableOptions = {
+  region: FUNCTION_REGION,
+  memory: "256MiB",
+  invoker: "public",
+  cors: true,
+};
+
+export const createWebhookEndpoint = onCall(functionConfig, createWebhookEndpointHandler);
+export const getWebhookEndpoints = onCall(functionConfig, getWebhookEndpointsHandler);
+export const deleteWebhookEndpoint = onCall(functionConfig, deleteWebhookEndpointHandler);
+export const getWebhookDeliveries = onCall(functionConfig, getWebhookDeliveriesHandler);
+
+/**
+ * Encola `coupon.created`, `coupon.updated`, `coupon.deleted` y `coupon.exhausted` por cada
+ * escritura de un cupón, incluidas las que no pasan por las funciones (campañas, jobs).
+ */
+export const onCouponWebhookEvent = onDocumentWritten(
+  { document: "coupons/{couponId}", region: FUNCTION_REGION, memory: "256MiB" },
+  async (event) => {
+    const events = buildCouponEvents(
+      event.id,
+      event.params.couponId,
+      event.data?.before.data(),
+      event.data?.after.data(),
+      new Date(event.time),
+    );
+    for (const webhookEvent of events) await enqueueWebhookEvent(webhookEvent);
+  },
+);
+
+/** Encola `coupon.applied` cuando applyCoupon/applyCoupons registran un uso. */
+export const onRedemptionWebhookEvent = onDocumentCreated(
+  { document: "redemptions/{redemptionId}", region: FUNCTION_REGION, memory: "256MiB" },
+  async (event) => {
+    const data = event.data?.data();
+    if (!data) return;
+    await enqueueWebhookEvent(buildRedemptionEvent(event.id, event.params.redemptionId, data, new Date(event.time)));
+  },
+);
+
+/** Primer intento de cada entrega, apenas se encola. */
+export const onWebhookDeliveryCreated = onDocumentCreated(
+  { document: "webhookDeliveries/{deliveryId}", region: FUNCTION_REGION, memory: "256MiB", timeoutSeconds: 60 },
+  async (event) => {
+    await deliverWebhook(event.params.deliveryId, new Date(event.time));
+  },
+);
+
+/** Reintenta cada minuto las entregas fallidas cuyo backoff ya venció. */
+export const retryWebhookDeliveriesJob = onSchedule(
+  { schedule: "every 1 minutes", region: FUNCTION_REGION, memory: "256MiB", timeoutSeconds: 300 },
+  async (event) => {
+    await retryWebhookDeliveries(new Date(event.scheduleTime));
+  },
+);
@@ -0,0 +1,113 @@
+import type { LookupAddress } from "node:dns";
+import { lookup } from "node:dns/promises";
+import { BlockList, isIP, type LookupFunction } from "node:net";
+
+/** Hosts locales: solo se aceptan como endpoint en el emulador (desarrollo y pruebas). */
+export const LOCAL_HOSTS = ["localhost", "127.0.0.1", "[::1]"];
+
+/** Rangos a los que nunca se envía un webhook: red privada, loopback, link-local (metadata), reservados. */
+const BLOCKED_RANGES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["198.51.100.0", 24],
+  ["203.0.113.0", 24],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  BLOCKED_RANGES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  // NAT64 local, 6to4 y Teredo pueden apuntar a una dirección IPv4 privada (las IPv4 mapeadas,
+  // `::ffff:a.b.c.d`, ya las compara BlockList con los rangos IPv4)
+  ["64:ff9b:1::", 48],
+  ["2002::", 16],
+  ["2001::", 32],
+  ["100::", 64],
+  ["2001:db8::", 32],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  BLOCKED_RANGES.addSubnet(network, prefix, "ipv6");
+}
+
+const LOOPBACK = new BlockList();
+LOOPBACK.addSubnet("127.0.0.0", 8, "ipv4");
+LOOPBACK.addAddress("::1", "ipv6");
+
+/** Si corre en el emulador de Functions, único entorno donde se admiten endpoints locales. */
+export function localWebhooksAllowed(): boolean {
+  return process.env.FUNCTIONS_EMULATOR === "true";
+}
+
+/** Si una IP es pública (ni privada, ni loopback, ni link-local, ni reservada). */
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return false;
+  return !BLOCKED_RANGES.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+/** Si una IP se puede usar como destino: pública, o loopback cuando corre en el emulador. */
+function isDeliverableAddress(address: string): boolean {
+  if (isPublicAddress(address)) return true;
+  return localWebhooksAllowed() && LOOPBACK.check(address, isIP(address) === 4 ? "ipv4" : "ipv6");
+}
+
+/** Host de una URL sin los corchetes de una IPv6 literal. */
+export function urlHost(url: URL): string {
+  return url.hostname.replace(/^\[(.*)\]$/, "$1");
+}
+
+/** Destino de una entrega: las direcciones ya revisadas del host, o el motivo por el que no se envía. */
+export type WebhookTarget = { addresses: LookupAddress[]; error: null } | { addresses: null; error: string };
+
+/**
+ * Resuelve el host de un endpoint al momento de enviar y revisa todas sus direcciones: si alguna
+ * no es pública retorna el error. Se revisa en cada entrega (no solo al crear el endpoint) porque
+ * el DNS puede cambiar después; la conexión debe usar estas mismas direcciones (`pinnedLookup`).
+ */
+export async function resolveWebhookTarget(value: string): Promise<WebhookTarget> {
+  const host = urlHost(new URL(value));
+  let addresses: LookupAddress[];
+  try {
+    const family = isIP(host);
+    addresses = family !== 0 ? [{ address: host, family }] : await lookup(host, { all: true, verbatim: true });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { addresses: null, error: `No se pudo resolver ${host}: ${message}` };
+  }
+
+  const blocked = addresses.find(({ address }) => !isDeliverableAddress(address));
+  if (blocked) return { addresses: null, error: `Destino no permitido: ${host} resuelve a ${blocked.address}` };
+  return { addresses, error: null };
+}
+
+/**
+ * `lookup` de la conexión que responde solo con las direcciones revisadas por
+ * `resolveWebhookTarget`, sin volver a consultar el DNS: un registro que cambia entre la revisión
+ * y la conexión (DNS rebinding) no lleva a otra dirección. El header Host y el SNI siguen siendo
+ * los del nombre original, que la conexión toma de la URL.
+ */
+export function pinnedLookup(addresses: LookupAddress[]): LookupFunction {
+  return (hostname, options, callback) => {
+    const family = options.family === "IPv4" ? 4 : options.family === "IPv6" ? 6 : options.family;
+    const candidates = family ? addresses.filter((entry) => entry.family === family) : addresses;
+    if (candidates.length === 0) {
+      callback(Object.assign(new Error(`Sin direcciones IPv${family} para ${hostname}`), { code: "ENOTFOUND" }), "");
+      return;
+    }
+    if (options.all) callback(null, candidates);
+    else callback(null, candidates[0].address, candidates[0].family);
+  };
+}
@@ -0,0 +1,63 @@
+import { isIP } from "node:net";
+import { z } from "zod";
+import { WEBHOOK_DELIVERY_STATUSES, WEBHOOK_EVENT_TYPES } from "../../types/webhook.js";
+import { paginationFields } from "../coupons/schemas.js";
+import { isPublicAddress, LOCAL_HOSTS, localWebhooksAllowed, urlHost } from "./network.js";
+
+// ── Helpers ─────────────────────────────────────────────
+
+/**
+ * Solo HTTPS hacia un host público: se rechazan las IPs literales privadas, loopback o link-local.
+ * Los endpoints locales (también por HTTP) se admiten solo en el emulador. La dirección a la que
+ * resuelve un nombre se revisa al enviar (`checkWebhookTarget`).
+ */
+export function isAllowedWebhookUrl(value: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return false;
+  }
+  if (url.username || url.password) return false;
+  if (LOCAL_HOSTS.includes(url.hostname)) {
+    return localWebhooksAllowed() && (url.protocol === "https:" || url.protocol === "http:");
+  }
+  if (isIP(urlHost(url)) && !isPublicAddress(urlHost(url))) return false;
+  return url.protocol === "https:";
+}
+
+// ── createWebhookEndpoint ───────────────────────────────
+
+export const createWebhookEndpointSchema = z.object({
+  siteId: z.string().min(1, "siteId es requerido"),
+  url: z
+    .string()
+    .trim()
+    .refine(isAllowedWebhookUrl, { message: "url debe ser una URL HTTPS pública (localhost solo en el emulador)" }),
+  events: z
+    .array(z.enum(WEBHOOK_EVENT_TYPES))
+    .min(1, "events debe incluir al menos un tipo de evento")
+    .transform((events) => [...new Set(events)]),
+});
+
+// ── getWebhookEndpoints ─────────────────────────────────
+
+export const getWebhookEndpointsSchema = z.object({
+  siteId: z.string().min(1, "siteId es requerido"),
+});
+
+// ── deleteWebhookEndpoint ───────────────────────────────
+
+export const deleteWebhookEndpointSchema = z.object({
+  siteId: z.string().min(1, "siteId es requerido"),
+  endpointId: z.string().min(1, "endpointId es requerido"),
+});
+
+// ── getWebhookDeliveries ────────────────────────────────
+
+export const getWebhookDeliveriesSchema = z.object({
+  siteId: z.string().min(1, "siteId es requerido"),
+  endpointId: z.string().min(1, "endpointId no puede ser vacío").optional(),
+  status: z.enum(WEBHOOK_DELIVERY_STATUSES).optional(),
+  ...paginationFields,
+});
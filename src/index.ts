@@ -10,6 +10,40 @@ export {
   getCoupons,
   updateCoupon,
   deleteCoupon,
+  restoreCoupon,
   validateCoupon,
   applyCoupon,
+  reserveCoupon,
+  revertCouponRedemption,
+  validateCoupons,
+  applyCoupons,
+  getAutomaticPromotions,
+  getBestCoupons,
+  getCouponStats,
+  getCouponHistory,
+  createStorefrontToken,
+  updateSiteSettings,
+  expireCouponsJob,
+  releaseReservationsJob,
+  onCouponWritten,
+  onUserPlanChanged,
+  onRedemptionWritten,
 } from "./functions/coupons/index.js";
+
+export {
+  createCampaign,
+  getCampaign,
+  onCampaignCreated,
+  resumeCampaignsJob,
+} from "./functions/campaigns/index.js";
+
+export {
+  createWebhookEndpoint,
+  getWebhookEndpoints,
+  deleteWebhookEndpoint,
+  getWebhookDeliveries,
+  onCouponWebhookEvent,
+  onRedemptionWebhookEvent,
+  onWebhookDeliveryCreated,
+  retryWebhookDeliveriesJob,
+} from "./functions/webhooks/index.js";
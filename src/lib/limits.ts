@@ -1,60 +1,112 @@
 // ============================================================================
-// Límites por plan — Helper listo para usar
+// Límites por plan
 // ============================================================================
-// No necesitas modificar este archivo. Usa `canCreateCoupon()` en tus handlers.
+// Los planes viven en la colección `plans` (límite de cupones y funciones incluidas).
+// `DEFAULT_PLANS` cubre los planes conocidos mientras no tengan documento.
+
+import { logger } from "firebase-functions";
 
 import { db } from "./firebase.js";
+import { DISCOUNT_TYPES } from "../types/coupon.js";
+import type { DiscountType } from "../types/coupon.js";
+import type { PlanDocument, PlanFeature } from "../types/plan.js";
+
+export type PlanId = string;
 
-export type PlanId = "free" | "servicio" | "tienda";
+/** Plan de los usuarios sin documento, sin `plan` o con un plan que no existe. */
+export const DEFAULT_PLAN_ID: PlanId = "free";
 
-const COUPON_LIMITS: Record<PlanId, number> = {
-  free: 3,
-  servicio: 10,
-  tienda: -1, // ilimitado
+export const DEFAULT_PLANS: Record<PlanId, Omit<PlanDocument, "id">> = {
+  free: {
+    name: "Free",
+    couponLimit: 3,
+    features: {
+      discountTypes: ["percentage", "fixed", "free_shipping"],
+      campaigns: false,
+      analytics: false,
+      usageShards: false,
+      webhooks: false,
+    },
+  },
+  servicio: {
+    name: "Servicio",
+    couponLimit: 10,
+    features: {
+      discountTypes: [...DISCOUNT_TYPES],
+      campaigns: false,
+      analytics: true,
+      usageShards: false,
+      webhooks: true,
+    },
+  },
+  tienda: {
+    name: "Tienda",
+    couponLimit: -1, // ilimitado
+    features: {
+      discountTypes: [...DISCOUNT_TYPES],
+      campaigns: true,
+      analytics: true,
+      usageShards: true,
+      webhooks: true,
+    },
+  },
 };
 
-/**
- * Obtiene el plan de un usuario desde Firestore.
- * Si el usuario no existe, retorna "free" por defecto.
- */
-export async function getUserPlan(userId: string): Promise<PlanId> {
-  const userDoc = await db.collection("users").doc(userId).get();
-  if (!userDoc.exists) return "free";
-  return (userDoc.data()?.plan as PlanId) || "free";
-}
+export const plansCollection = db.collection("plans");
 
 /**
- * Retorna el límite de cupones para un plan.
- * -1 = ilimitado.
+ * Plan leído de Firestore. Los campos ausentes o inválidos toman el valor del plan por defecto,
+ * así un documento a medio configurar nunca da más de lo que da el plan free.
  */
-export async function getCouponLimit(userId: string): Promise<number> {
-  const plan = await getUserPlan(userId);
-  return COUPON_LIMITS[plan];
+export function toPlanDocument(id: PlanId, data: FirebaseFirestore.DocumentData): PlanDocument {
+  const fallback = DEFAULT_PLANS[DEFAULT_PLAN_ID];
+  const features = (data.features ?? {}) as Record<string, unknown>;
+  const flag = (name: PlanFeature) =>
+    typeof features[name] === "boolean" ? (features[name] as boolean) : fallback.features[name];
+
+  return {
+    id,
+    name: typeof data.name === "string" ? data.name : id,
+    couponLimit:
+      Number.isInteger(data.couponLimit) && data.couponLimit >= -1 ? data.couponLimit : fallback.couponLimit,
+    features: {
+      discountTypes: Array.isArray(features.discountTypes)
+        ? features.discountTypes.filter((type): type is DiscountType => DISCOUNT_TYPES.includes(type))
+        : fallback.features.discountTypes,
+      campaigns: flag("campaigns"),
+      analytics: flag("analytics"),
+      usageShards: flag("usageShards"),
+      webhooks: flag("webhooks"),
+    },
+  };
 }
 
 /**
- * Cuenta los cupones actuales de un sitio.
+ * Elige el plan `planId` entre los documentos leídos (`stored`, por ID) y los planes por defecto.
+ * Un plan desconocido cae al plan por defecto en lugar de fallar.
  */
-export async function getCurrentCouponCount(siteId: string): Promise<number> {
-  const snapshot = await db
-    .collection("coupons")
-    .where("siteId", "==", siteId)
-    .count()
-    .get();
-  return snapshot.data().count;
+export function resolvePlan(
+  planId: PlanId,
+  stored: Record<PlanId, FirebaseFirestore.DocumentData | undefined>,
+): PlanDocument {
+  const data = stored[planId];
+  if (data) return toPlanDocument(planId, data);
+  if (DEFAULT_PLANS[planId]) return { id: planId, ...DEFAULT_PLANS[planId] };
+
+  logger.warn("Unknown plan, falling back to the default plan", { planId, fallback: DEFAULT_PLAN_ID });
+  return resolvePlan(DEFAULT_PLAN_ID, stored);
 }
 
 /**
- * Verifica si el usuario puede crear un cupón más.
+ * Obtiene el plan de un usuario desde Firestore.
+ * Si el usuario no existe o su plan no existe, retorna el plan "free".
  */
-export async function canCreateCoupon(
-  userId: string,
-  siteId: string,
-): Promise<{ allowed: boolean; current: number; limit: number }> {
-  const limit = await getCouponLimit(userId);
-  if (limit === -1) {
-    return { allowed: true, current: 0, limit: -1 };
-  }
-  const current = await getCurrentCouponCount(siteId);
-  return { allowed: current < limit, current, limit };
+export async function getUserPlan(userId: string): Promise<PlanDocument> {
+  const userDoc = await db.collection("users").doc(userId).get();
+  const plan = userDoc.data()?.plan;
+  const planId = typeof plan === "string" && plan.length > 0 ? plan : DEFAULT_PLAN_ID;
+
+  const ids = [...new Set([planId, DEFAULT_PLAN_ID])];
+  const planDocs = await db.getAll(...ids.map((id) => plansCollection.doc(id)));
+  return resolvePlan(planId, Object.fromEntries(planDocs.map((doc) => [doc.id, doc.data()])));
 }
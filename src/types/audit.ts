@@ -0,0 +1,49 @@
+import type { FunctionResponse } from "./common.js";
+
+export type AuditAction = "create" | "update" | "delete" | "activate" | "deactivate" | "archive" | "restore";
+
+/** Valor de un campo antes y después del cambio (null si no existía). */
+export interface FieldChange {
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * Entrada del historial de un cupón (colección `couponAudit`).
+ * Se escribe en la misma transacción que el cambio y se conserva aunque el cupón se elimine.
+ */
+export interface CouponAuditEntry {
+  id: string;
+  siteId: string;
+  couponId: string;
+  /** Código (o nombre de la promoción) al momento del cambio, para reconocer cupones eliminados. */
+  label: string;
+  action: AuditAction;
+  /** uid de quien hizo el cambio; en la generación de campañas, el dueño de la campaña. */
+  actorUid: string;
+  handler: string;
+  /** Solo los campos que cambiaron. */
+  changes: Record<string, FieldChange>;
+  createdAt: string;
+}
+
+// ── Requests ────────────────────────────────────────────
+
+export interface GetCouponHistoryRequest {
+  siteId: string;
+  couponId: string;
+  /** Por defecto `DEFAULT_COUPONS_PAGE_SIZE`, hasta `MAX_COUPONS_PAGE_SIZE`. */
+  pageSize?: number;
+  /** `nextCursor` de la página anterior. */
+  cursor?: string;
+}
+
+// ── Responses ───────────────────────────────────────────
+
+/** Historial del más reciente al más antiguo; `nextCursor` es null en la última página. */
+export interface CouponHistoryPage {
+  entries: CouponAuditEntry[];
+  nextCursor: string | null;
+}
+
+export type GetCouponHistoryResponse = FunctionResponse<CouponHistoryPage>;
@@ -0,0 +1,94 @@
+import type { FunctionResponse } from "./common.js";
+import type { CreateCouponRequest } from "./coupon.js";
+
+export type CampaignStatus = "pending" | "generating" | "completed" | "failed";
+
+/** Caracteres que se confunden al leer o dictar un código; ningún alfabeto los admite. */
+export const AMBIGUOUS_CODE_CHARACTERS = "0O1IL";
+
+/** Alfabeto por defecto: sin caracteres ambiguos (0/O, 1/I/L). */
+export const DEFAULT_CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+
+/** Máximo de códigos por campaña. */
+export const MAX_CAMPAIGN_QUANTITY = 10000;
+
+/** Formato de los códigos: `prefix` + `length` caracteres aleatorios de `alphabet`. */
+export interface CodePattern {
+  prefix: string;
+  length: number;
+  alphabet: string;
+}
+
+/**
+ * Configuración compartida por todos los códigos de la campaña.
+ * Cada código es de un solo uso (`maxUses: 1`) y privado.
+ */
+export type CampaignCouponSettings = Omit<
+  CreateCouponRequest,
+  "siteId" | "code" | "isAutomatic" | "name" | "visibility" | "maxUses" | "usageShards"
+>;
+
+/**
+ * Campaña de códigos de un solo uso (colección `campaigns`).
+ * Los códigos se generan en segundo plano al crear el documento; `generatedCount`
+ * avanza con cada lote escrito, así que refleja el progreso mientras `status` es `generating`.
+ */
+export interface CampaignDocument {
+  id: string;
+  siteId: string;
+  userId: string;
+  name: string;
+  settings: CampaignCouponSettings;
+  codePattern: CodePattern;
+  quantity: number;
+  status: CampaignStatus;
+  generatedCount: number;
+  /** Motivo del fallo si `status` es `failed`. */
+  error: string | null;
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+}
+
+/** Uso de los códigos de una campaña. */
+export interface CampaignStats {
+  quantity: number;
+  generatedCount: number;
+  /** Fracción generada (0 a 1). */
+  progress: number;
+  /** Códigos usados al menos una vez. */
+  redeemedCodes: number;
+  /** redeemedCodes / generatedCount (0 si aún no hay códigos). */
+  redemptionRate: number;
+}
+
+// ── Requests ────────────────────────────────────────────
+
+export interface CreateCampaignRequest {
+  siteId: string;
+  name: string;
+  codePattern: {
+    prefix?: string;
+    length: number;
+    /** Por defecto `DEFAULT_CODE_ALPHABET`. */
+    alphabet?: string;
+  };
+  quantity: number;
+  settings: CampaignCouponSettings;
+}
+
+export interface GetCampaignRequest {
+  siteId: string;
+  campaignId: string;
+}
+
+// ── Responses ───────────────────────────────────────────
+
+export type CreateCampaignResponse = FunctionResponse<CampaignDocument>;
+
+export interface GetCampaignResult {
+  campaign: CampaignDocument;
+  stats: CampaignStats;
+}
+
+export type GetCampaignResponse = FunctionResponse<GetCampaignResult>;
@@ -7,16 +7,39 @@
 
 export const ErrorCode = {
   INVALID_INPUT: "INVALID_INPUT",
+  UNAUTHENTICATED: "UNAUTHENTICATED",
   SITE_NOT_FOUND: "SITE_NOT_FOUND",
   COUPON_NOT_FOUND: "COUPON_NOT_FOUND",
   FORBIDDEN: "FORBIDDEN",
   DUPLICATE_CODE: "DUPLICATE_CODE",
   COUPON_LIMIT_REACHED: "COUPON_LIMIT_REACHED",
   COUPON_INACTIVE: "COUPON_INACTIVE",
+  COUPON_ARCHIVED: "COUPON_ARCHIVED",
+  COUPON_HAS_REDEMPTIONS: "COUPON_HAS_REDEMPTIONS",
   COUPON_EXPIRED: "COUPON_EXPIRED",
   COUPON_NOT_YET_VALID: "COUPON_NOT_YET_VALID",
   COUPON_MAX_USES: "COUPON_MAX_USES",
+  CUSTOMER_ID_REQUIRED: "CUSTOMER_ID_REQUIRED",
+  CUSTOMER_MAX_USES: "CUSTOMER_MAX_USES",
   MIN_PURCHASE_NOT_MET: "MIN_PURCHASE_NOT_MET",
+  PRODUCT_NOT_FOUND: "PRODUCT_NOT_FOUND",
+  PRODUCT_UNAVAILABLE: "PRODUCT_UNAVAILABLE",
+  INSUFFICIENT_STOCK: "INSUFFICIENT_STOCK",
+  LINE_ITEMS_REQUIRED: "LINE_ITEMS_REQUIRED",
+  CATALOG_ITEMS_REQUIRED: "CATALOG_ITEMS_REQUIRED",
+  NO_ELIGIBLE_PRODUCTS: "NO_ELIGIBLE_PRODUCTS",
+  BUY_QUANTITY_NOT_MET: "BUY_QUANTITY_NOT_MET",
+  COUPON_NOT_STACKABLE: "COUPON_NOT_STACKABLE",
+  COUPON_GROUP_CONFLICT: "COUPON_GROUP_CONFLICT",
+  ORDER_ALREADY_REDEEMED: "ORDER_ALREADY_REDEEMED",
+  REDEMPTION_NOT_FOUND: "REDEMPTION_NOT_FOUND",
+  REDEMPTION_REVERTED: "REDEMPTION_REVERTED",
+  CAMPAIGN_NOT_FOUND: "CAMPAIGN_NOT_FOUND",
+  RESERVATION_NOT_FOUND: "RESERVATION_NOT_FOUND",
+  RESERVATION_EXPIRED: "RESERVATION_EXPIRED",
+  RESERVATION_ALREADY_USED: "RESERVATION_ALREADY_USED",
+  FEATURE_NOT_IN_PLAN: "FEATURE_NOT_IN_PLAN",
+  WEBHOOK_NOT_FOUND: "WEBHOOK_NOT_FOUND",
   INTERNAL_ERROR: "INTERNAL_ERROR",
 } as const;
 
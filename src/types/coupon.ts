@@ -1,18 +1,126 @@
-import type { FunctionResponse } from "./common.js";
+import type { ErrorCode, FunctionResponse } from "./common.js";
 
-export const DISCOUNT_TYPES = ["percentage", "fixed"] as const;
+export const DISCOUNT_TYPES = ["percentage", "fixed", "free_shipping", "buy_x_get_y", "tiered"] as const;
 export type DiscountType = (typeof DISCOUNT_TYPES)[number];
 
+/** Tipos cuyo descuento no se define con `discountValue` (se guarda en 0). */
+export const VALUELESS_DISCOUNT_TYPES: readonly DiscountType[] = ["free_shipping", "tiered"];
+
+/** Tipos cuyo descuento es un porcentaje (o puede serlo, en `tiered`); admiten `maxDiscountAmount`. */
+export const PERCENTAGE_BASED_DISCOUNT_TYPES: readonly DiscountType[] = ["percentage", "buy_x_get_y", "tiered"];
+
+export const TIER_DISCOUNT_TYPES = ["percentage", "fixed"] as const;
+export type TierDiscountType = (typeof TIER_DISCOUNT_TYPES)[number];
+
+export const COUPON_VISIBILITIES = ["public", "private"] as const;
+export type CouponVisibility = (typeof COUPON_VISIBILITIES)[number];
+
+/** Máximo de cupones que se pueden combinar en un mismo carrito. */
+export const MAX_STACKED_COUPONS = 5;
+
+/** Campos por los que se puede ordenar el listado de cupones. */
+export const COUPON_SORT_FIELDS = ["createdAt", "validUntil", "usedCount"] as const;
+export type CouponSortField = (typeof COUPON_SORT_FIELDS)[number];
+
+export const DEFAULT_COUPONS_PAGE_SIZE = 20;
+export const MAX_COUPONS_PAGE_SIZE = 100;
+
+/** Máximo de contadores de uso de un cupón en modo de alto tráfico (`usageShards`). */
+export const MAX_USAGE_SHARDS = 50;
+
+/** Máximo de líneas (`lineItems` o `items`) y de unidades por línea de un carrito. */
+export const MAX_CART_LINES = 100;
+export const MAX_LINE_QUANTITY = 1000;
+
+/** Tramo de un cupón `tiered`: aplica cuando el carrito alcanza `minCartTotal`. */
+export interface DiscountTier {
+  minCartTotal: number;
+  discountType: TierDiscountType;
+  discountValue: number;
+}
+
+/** Tramo aplicado en un cálculo; `index` es su posición en `tiers`. */
+export interface AppliedTier extends DiscountTier {
+  index: number;
+}
+
+/** Siguiente tramo alcanzable y cuánto falta gastar para llegar a él. */
+export interface NextTier extends DiscountTier {
+  amountRemaining: number;
+}
+
+/**
+ * Configuración de un cupón `buy_x_get_y`: por cada `buyQuantity` unidades de `buyProductIds`,
+ * `getQuantity` unidades de `getProductIds` reciben `discountValue`% de descuento (las más baratas primero).
+ */
+export interface BuyXGetYConfig {
+  buyProductIds: string[];
+  buyQuantity: number;
+  getProductIds: string[];
+  getQuantity: number;
+}
+
 export interface Coupon {
-  code: string;
+  /** Código normalizado a mayúsculas; null en promociones automáticas. */
+  code: string | null;
+  /** Promoción automática: se aplica sin que el comprador ingrese un código. */
+  isAutomatic?: boolean;
+  /** Nombre visible de la promoción (requerido en automáticas, que no tienen código). */
+  name?: string;
+  /** `public` permite sugerirlo en getBestCoupons. Sin valor = `private`. */
+  visibility?: CouponVisibility;
+  /** Campaña que generó el código, si corresponde. */
+  campaignId?: string;
   discountType: DiscountType;
+  /**
+   * Porcentaje o monto fijo según `discountType`. Es 0 en cupones `free_shipping` y `tiered`;
+   * en `buy_x_get_y` es el porcentaje de descuento de las unidades premiadas.
+   */
   discountValue: number;
+  buyXGetY?: BuyXGetYConfig;
+  /** Tramos ordenados por `minCartTotal` ascendente; solo en cupones `tiered`. */
+  tiers?: DiscountTier[];
+  /** Tope del descuento de mercadería; solo en tipos porcentuales. Sin valor = sin tope. */
+  maxDiscountAmount?: number;
   minPurchase?: number;
   maxUses?: number;
+  /** Usos permitidos por cliente (customerId del storefront). Sin valor = sin límite. */
+  maxUsesPerCustomer?: number;
+  /** Si tiene valores, el descuento solo aplica a estos productos. */
+  productIds?: string[];
+  /** Productos a los que nunca aplica el descuento. */
+  excludedProductIds?: string[];
+  /** Si puede combinarse con otros cupones en el mismo carrito. Sin valor = no acumulable. */
+  stackable?: boolean;
+  /** Orden de aplicación al combinar cupones: mayor prioridad se aplica primero. Sin valor = 0. */
+  priority?: number;
+  /** Cupones del mismo grupo se excluyen entre sí aunque sean acumulables. */
+  exclusiveGroup?: string;
+  /**
+   * Usos confirmados (órdenes con el cupón aplicado). Con `usageShards`, el documento guarda
+   * solo los usos fuera de los contadores; `toCouponDocument` con los contadores retorna el total.
+   */
   usedCount: number;
+  /** Usos reservados por checkouts en curso (reserveCoupon), aún sin confirmar. Sin valor = 0. */
+  reservedCount?: number;
+  /**
+   * Modo de alto tráfico: cantidad de contadores (`coupons/{id}/usageShards`) entre los que se
+   * reparten los usos y el cupo de `maxUses`, para que los checkouts simultáneos no compitan por
+   * el mismo documento. Sin valor = contador único en el cupón.
+   */
+  usageShards?: number | null;
   validFrom: string;
   validUntil: string;
   isActive: boolean;
+  /** Archivado (eliminado sin borrar): no se lista por defecto ni se puede validar o aplicar. */
+  isArchived?: boolean;
+  archivedAt?: string | null;
+  /** Cuándo el job programado lo desactivó por vencido (`validUntil` pasado). */
+  expiredAt?: string | null;
+  /** Cuándo el job programado lo desactivó por agotado (`usedCount` >= `maxUses`). */
+  exhaustedAt?: string | null;
+  /** Cuándo se desactivó porque el sitio quedó sobre el límite de cupones tras un cambio de plan. */
+  planLimitedAt?: string | null;
 }
 
 export interface CouponDocument extends Coupon {
@@ -21,33 +129,143 @@ export interface CouponDocument extends Coupon {
   userId: string;
   createdAt: string;
   updatedAt: string;
+  /**
+   * Cuándo una transacción que actualizó el contador del plan (`siteCounters`) escribió el cupón
+   * al crearlo, archivarlo o restaurarlo. `onCouponWritten` no recuenta el sitio si cambió.
+   */
+  planCountedAt?: string;
+}
+
+/**
+ * Contador de usos de un cupón con `usageShards` (subcolección `usageShards`, ID = índice).
+ * `capacity` es la parte de `maxUses` asignada a este contador (null si el cupón no tiene límite):
+ * un uso o una reserva solo se registra si `usedCount + reservedCount < capacity`.
+ */
+export interface UsageShard {
+  usedCount: number;
+  reservedCount: number;
+  capacity: number | null;
+}
+
+/**
+ * Cupones de un sitio que ocupan cupo del plan (colección `siteCounters`, ID = siteId).
+ * Se actualiza en la misma transacción que crea, archiva, restaura o borra el cupón.
+ */
+export interface SiteCounterDocument {
+  siteId: string;
+  /** Cupones no archivados del sitio. */
+  couponCount: number;
+  updatedAt: string;
+}
+
+/** Línea del carrito enviada por el storefront. */
+export interface LineItem {
+  productId: string;
+  quantity: number;
+  unitPrice: number;
+}
+
+/** Línea del carrito sin precio: el backend lo toma del catálogo (`products`). */
+export interface CatalogItem {
+  productId: string;
+  quantity: number;
+}
+
+/** Detalle del descuento aplicado a una línea del carrito. */
+export interface LineItemDiscount extends LineItem {
+  lineTotal: number;
+  eligible: boolean;
+  discountAmount: number;
+}
+
+/** Unidad premiada por un cupón `buy_x_get_y`. `lineIndex` es la posición de la línea en el carrito. */
+export interface RewardedUnit {
+  lineIndex: number;
+  productId: string;
+  unitPrice: number;
+  discountAmount: number;
 }
 
 // ── Requests ────────────────────────────────────────────
 
 export interface CreateCouponRequest {
   siteId: string;
-  code: string;
+  /** Requerido salvo en promociones automáticas. */
+  code?: string;
+  isAutomatic?: boolean;
+  /** Requerido en promociones automáticas. */
+  name?: string;
+  visibility?: CouponVisibility;
   discountType: DiscountType;
-  discountValue: number;
+  /** Requerido salvo en `free_shipping` y `tiered`. */
+  discountValue?: number;
+  /** Requerido solo en `buy_x_get_y`. */
+  buyXGetY?: BuyXGetYConfig;
+  /** Requerido solo en `tiered`. */
+  tiers?: DiscountTier[];
+  /** Solo en tipos porcentuales (`percentage`, `buy_x_get_y`, `tiered`). */
+  maxDiscountAmount?: number;
   minPurchase?: number;
   maxUses?: number;
+  maxUsesPerCustomer?: number;
+  productIds?: string[];
+  excludedProductIds?: string[];
+  stackable?: boolean;
+  priority?: number;
+  exclusiveGroup?: string;
+  /** Contadores de uso para alto tráfico (2 a `MAX_USAGE_SHARDS`). */
+  usageShards?: number;
   validFrom: string;
   validUntil: string;
 }
 
-export interface GetCouponsRequest {
+/** Filtros del listado de cupones. Todos son opcionales y se combinan con AND. */
+export interface CouponListFilters {
+  /** true lista solo los archivados; por defecto se listan solo los no archivados. */
+  archived?: boolean;
+  isActive?: boolean;
+  /** true: `validUntil` ya pasó; false: aún vigentes o por comenzar. */
+  expired?: boolean;
+  discountType?: DiscountType;
+  /** Prefijo del código (sin distinguir mayúsculas). No se combina con filtros de fecha. */
+  codePrefix?: string;
+  /** Cupones cuya vigencia se superpone con el rango (extremos incluidos). */
+  validityRange?: { from: string; to: string };
+}
+
+export interface GetCouponsRequest extends CouponListFilters {
   siteId: string;
+  /** Por defecto `DEFAULT_COUPONS_PAGE_SIZE`, hasta `MAX_COUPONS_PAGE_SIZE`. */
+  pageSize?: number;
+  /** `nextCursor` de la página anterior. */
+  cursor?: string;
+  /** Por defecto `createdAt`. */
+  sortBy?: CouponSortField;
+  /** Por defecto `desc`. */
+  sortDirection?: "asc" | "desc";
 }
 
 export interface UpdateCouponRequest {
   siteId: string;
   couponId: string;
   code?: string;
+  name?: string;
+  visibility?: CouponVisibility;
   discountType?: DiscountType;
   discountValue?: number;
+  buyXGetY?: BuyXGetYConfig | null;
+  tiers?: DiscountTier[] | null;
+  maxDiscountAmount?: number | null;
   minPurchase?: number | null;
   maxUses?: number | null;
+  maxUsesPerCustomer?: number | null;
+  productIds?: string[] | null;
+  excludedProductIds?: string[] | null;
+  stackable?: boolean;
+  priority?: number;
+  exclusiveGroup?: string | null;
+  /** Cambia la cantidad de contadores de uso; null vuelve al contador único. */
+  usageShards?: number | null;
   validFrom?: string;
   validUntil?: string;
   isActive?: boolean;
@@ -56,27 +274,132 @@ export interface UpdateCouponRequest {
 export interface DeleteCouponRequest {
   siteId: string;
   couponId: string;
+  /** Borra el cupón definitivamente; solo si nunca se usó. Por defecto se archiva. */
+  permanent?: boolean;
+}
+
+export interface RestoreCouponRequest {
+  siteId: string;
+  couponId: string;
+}
+
+export interface CreateStorefrontTokenRequest {
+  siteId: string;
 }
 
 export interface ValidateCouponRequest {
   siteId: string;
   code: string;
-  cartTotal: number;
+  /** Carrito como total, como líneas con precio o como ítems a precio de catálogo (se envía uno). */
+  cartTotal?: number;
+  lineItems?: LineItem[];
+  items?: CatalogItem[];
+  /** Con `items`: rechaza cantidades mayores al stock del producto. */
+  enforceStock?: boolean;
+  /** Costo de despacho; lo descuentan los cupones `free_shipping`. */
+  shippingCost?: number;
+  /** ID o email del cliente; requerido por cupones con maxUsesPerCustomer. */
+  customerId?: string;
 }
 
 export interface ApplyCouponRequest {
   siteId: string;
   couponId: string;
   orderId: string;
-  cartTotal: number;
+  cartTotal?: number;
+  lineItems?: LineItem[];
+  items?: CatalogItem[];
+  enforceStock?: boolean;
+  shippingCost?: number;
+  customerId?: string;
+  /** Reserva tomada con reserveCoupon: se confirma en vez de volver a verificar el cupo. */
+  reservationId?: string;
+}
+
+export interface ValidateCouponsRequest {
+  siteId: string;
+  /** Códigos a combinar (hasta `MAX_STACKED_COUPONS`). */
+  codes: string[];
+  cartTotal?: number;
+  lineItems?: LineItem[];
+  items?: CatalogItem[];
+  enforceStock?: boolean;
+  shippingCost?: number;
+  customerId?: string;
+}
+
+export interface GetAutomaticPromotionsRequest {
+  siteId: string;
+  cartTotal?: number;
+  lineItems?: LineItem[];
+  items?: CatalogItem[];
+  enforceStock?: boolean;
+  shippingCost?: number;
+  customerId?: string;
+}
+
+export interface GetBestCouponsRequest {
+  siteId: string;
+  cartTotal?: number;
+  lineItems?: LineItem[];
+  items?: CatalogItem[];
+  enforceStock?: boolean;
+  shippingCost?: number;
+  customerId?: string;
+}
+
+export interface ApplyCouponsRequest {
+  siteId: string;
+  couponIds: string[];
+  orderId: string;
+  cartTotal?: number;
+  lineItems?: LineItem[];
+  items?: CatalogItem[];
+  enforceStock?: boolean;
+  shippingCost?: number;
+  customerId?: string;
+  /** Reservas tomadas con reserveCoupon (una por cupón): se confirman en vez de volver a verificar el cupo. */
+  reservationIds?: string[];
 }
 
 // ── Responses ───────────────────────────────────────────
 
 export type CreateCouponResponse = FunctionResponse<CouponDocument>;
-export type GetCouponsResponse = FunctionResponse<CouponDocument[]>;
+/** Una página del listado; `nextCursor` es null en la última. */
+export interface CouponPage {
+  coupons: CouponDocument[];
+  nextCursor: string | null;
+}
+
+export type GetCouponsResponse = FunctionResponse<CouponPage>;
 export type UpdateCouponResponse = FunctionResponse<CouponDocument>;
-export type DeleteCouponResponse = FunctionResponse<{ id: string }>;
+export interface DeleteCouponResult {
+  id: string;
+  /** true si se borró definitivamente, false si se archivó. */
+  permanent: boolean;
+}
+
+export type DeleteCouponResponse = FunctionResponse<DeleteCouponResult>;
+export type RestoreCouponResponse = FunctionResponse<CouponDocument>;
+
+/**
+ * Custom token de Firebase Auth con el claim `siteId`: el checkout inicia sesión con él
+ * (`signInWithCustomToken`) para llamar a applyCoupon, applyCoupons y reserveCoupon.
+ */
+export interface StorefrontToken {
+  token: string;
+  uid: string;
+}
+
+export type CreateStorefrontTokenResponse = FunctionResponse<StorefrontToken>;
+
+/** Configuración del sitio guardada en `sites/{siteId}` (los campos ausentes valen false). */
+export interface SiteSettings {
+  /** El storefront debe enviar `items` (precios de catálogo): se rechazan `cartTotal` y `lineItems`. */
+  requireCatalogPricing: boolean;
+}
+
+export type UpdateSiteSettingsResponse = FunctionResponse<SiteSettings>;
 
 export interface ValidateCouponResult {
   valid: boolean;
@@ -84,8 +407,25 @@ export interface ValidateCouponResult {
   code: string;
   discountType: DiscountType;
   discountValue: number;
+  /** Total del carrito usado en el cálculo (derivado del catálogo cuando se envían `items`). */
+  cartTotal: number;
+  shippingCost: number;
+  /** Descuento total: `merchandiseDiscount` + `shippingDiscount`. */
   discountAmount: number;
+  merchandiseDiscount: number;
+  shippingDiscount: number;
+  /** true si `merchandiseDiscount` quedó limitado por `maxDiscountAmount`. */
+  discountCapped: boolean;
+  /** cartTotal + shippingCost - discountAmount. */
   finalTotal: number;
+  /** Desglose por línea, solo cuando el carrito se envió como `lineItems` o `items`. */
+  lineBreakdown: LineItemDiscount[] | null;
+  /** Unidades descontadas, solo en cupones `buy_x_get_y`. */
+  rewardedUnits: RewardedUnit[] | null;
+  /** Tramo aplicado, solo en cupones `tiered`. */
+  appliedTier: AppliedTier | null;
+  /** Siguiente tramo (para mensajes de upsell); null si no es `tiered` o ya está en el último. */
+  nextTier: NextTier | null;
 }
 
 export type ValidateCouponResponse = FunctionResponse<ValidateCouponResult>;
@@ -95,9 +435,123 @@ export interface ApplyCouponResult {
   orderId: string;
   discountType: DiscountType;
   discountValue: number;
+  cartTotal: number;
+  shippingCost: number;
   discountAmount: number;
+  merchandiseDiscount: number;
+  shippingDiscount: number;
+  discountCapped: boolean;
   finalTotal: number;
-  usedCount: number;
+  /**
+   * Usos del cupón tras aplicarlo. null con `usageShards`: el total no se lee al aplicar,
+   * para no competir por los contadores (se consulta con getCoupons).
+   */
+  usedCount: number | null;
+  lineBreakdown: LineItemDiscount[] | null;
+  rewardedUnits: RewardedUnit[] | null;
+  appliedTier: AppliedTier | null;
+  nextTier: NextTier | null;
 }
 
 export type ApplyCouponResponse = FunctionResponse<ApplyCouponResult>;
+
+/** Cupón aceptado en una combinación, con su parte del descuento. */
+export interface StackedCoupon {
+  couponId: string;
+  /** null en promociones automáticas. */
+  code: string | null;
+  name: string | null;
+  discountType: DiscountType;
+  discountValue: number;
+  priority: number;
+  discountAmount: number;
+  merchandiseDiscount: number;
+  shippingDiscount: number;
+  discountCapped: boolean;
+  lineBreakdown: LineItemDiscount[] | null;
+  rewardedUnits: RewardedUnit[] | null;
+  appliedTier: AppliedTier | null;
+  nextTier: NextTier | null;
+}
+
+/**
+ * Código descartado de una combinación y el motivo. `couponId` es null si el código no existe.
+ * En applyCoupons, `code` es el couponId recibido si el cupón no existe.
+ */
+export interface RejectedCoupon {
+  code: string;
+  couponId: string | null;
+  error: string;
+  errorCode: ErrorCode;
+}
+
+export interface ValidateCouponsResult {
+  /** true si al menos un cupón quedó aplicado. */
+  valid: boolean;
+  cartTotal: number;
+  shippingCost: number;
+  /** Suma de los descuentos de `coupons`. */
+  discountAmount: number;
+  merchandiseDiscount: number;
+  shippingDiscount: number;
+  finalTotal: number;
+  /** Cupones aceptados, en el orden en que se aplicaron. */
+  coupons: StackedCoupon[];
+  rejected: RejectedCoupon[];
+}
+
+export type ValidateCouponsResponse = FunctionResponse<ValidateCouponsResult>;
+
+export interface ApplyCouponsResult {
+  orderId: string;
+  cartTotal: number;
+  shippingCost: number;
+  discountAmount: number;
+  merchandiseDiscount: number;
+  shippingDiscount: number;
+  finalTotal: number;
+  /** Cupones aplicados con su `usedCount` actualizado (null con `usageShards`, como en applyCoupon). */
+  coupons: (StackedCoupon & { usedCount: number | null })[];
+}
+
+export type ApplyCouponsResponse = FunctionResponse<ApplyCouponsResult>;
+
+export interface AutomaticPromotionsResult {
+  cartTotal: number;
+  shippingCost: number;
+  /** Promociones automáticas elegibles, cada una con su descuento calculado por separado. */
+  promotions: StackedCoupon[];
+}
+
+export type GetAutomaticPromotionsResponse = FunctionResponse<AutomaticPromotionsResult>;
+
+/** Motivo por el que un cupón no aplica al carrito (mismo formato que los errores de validateCoupon). */
+export interface CouponRejection {
+  error: string;
+  errorCode: ErrorCode;
+  /** Con `MIN_PURCHASE_NOT_MET` incluye `amountRemaining`. */
+  errorDetails: Record<string, unknown> | null;
+}
+
+/** Cupón público evaluado contra un carrito. */
+export interface CouponSuggestion {
+  couponId: string;
+  code: string;
+  discountType: DiscountType;
+  discountValue: number;
+  eligible: boolean;
+  /** Descuento que obtendría el carrito; 0 si no es elegible. */
+  discountAmount: number;
+  finalTotal: number;
+  /** null si es elegible. */
+  rejection: CouponRejection | null;
+}
+
+export interface BestCouponsResult {
+  cartTotal: number;
+  shippingCost: number;
+  /** Elegibles primero (mayor descuento primero); luego los no elegibles, los más cercanos primero. */
+  coupons: CouponSuggestion[];
+}
+
+export type GetBestCouponsResponse = FunctionResponse<BestCouponsResult>;
@@ -0,0 +1,30 @@
+import type { DiscountType } from "./coupon.js";
+
+/** Funciones que un plan puede incluir o no (además de los tipos de descuento). */
+export const PLAN_FEATURES = ["campaigns", "analytics", "usageShards", "webhooks"] as const;
+export type PlanFeature = (typeof PLAN_FEATURES)[number];
+
+export interface PlanFeatures {
+  /** Tipos de descuento con los que se pueden crear o editar cupones. */
+  discountTypes: DiscountType[];
+  /** Campañas de códigos únicos (generación masiva, createCampaign). */
+  campaigns: boolean;
+  /** Estadísticas de uso (getCouponStats). */
+  analytics: boolean;
+  /** Contadores de uso repartidos para cupones de alto tráfico (`usageShards`). */
+  usageShards: boolean;
+  /** Webhooks firmados con los eventos de cupones (createWebhookEndpoint y sus entregas). */
+  webhooks: boolean;
+}
+
+/**
+ * Plan de suscripción (colección `plans`, ID = el `plan` de `users/{userId}`).
+ * Agregar un plan o cambiar lo que incluye es editar este documento, sin deploy.
+ */
+export interface PlanDocument {
+  id: string;
+  name: string;
+  /** Cupones no archivados por sitio; -1 = ilimitado. */
+  couponLimit: number;
+  features: PlanFeatures;
+}
@@ -0,0 +1,13 @@
+/**
+ * Producto del catálogo de una tienda (colección `products`, creada por el seed).
+ * Solo se lee desde este backend para calcular precios del lado del servidor.
+ */
+export interface ProductDocument {
+  id: string;
+  siteId: string;
+  userId: string;
+  name: string;
+  price: number;
+  stock: number;
+  status: string;
+}
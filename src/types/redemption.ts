@@ -0,0 +1,65 @@
+import type { ApplyCouponResult, ApplyCouponsResult } from "./coupon.js";
+import type { FunctionResponse } from "./common.js";
+
+export type RedemptionStatus = "applied" | "reverted";
+
+/**
+ * Devolución parcial registrada contra un uso.
+ * `amount` es el monto del subtotal (antes de descuento) devuelto; `discountAmount`
+ * es la porción proporcional del descuento original que corresponde a esa devolución.
+ */
+export interface RedemptionRefund {
+  refundId: string;
+  amount: number;
+  discountAmount: number;
+  reason: string;
+  createdAt: string;
+}
+
+/**
+ * Registro de un uso de cupón en una orden (colección `redemptions`).
+ * Hay a lo sumo uno por siteId + orderId: permite que applyCoupon/applyCoupons sean idempotentes.
+ * Con varios cupones, `couponId` y `code` son los del primero aplicado y `couponIds` los lista todos.
+ */
+export interface RedemptionDocument {
+  id: string;
+  siteId: string;
+  orderId: string;
+  couponId: string;
+  /** null si el cupón principal es una promoción automática. */
+  code: string | null;
+  couponIds: string[];
+  /** Cliente normalizado (trim + minúsculas), o null si el storefront no lo envió. */
+  customerId: string | null;
+  cartTotal: number;
+  discountAmount: number;
+  finalTotal: number;
+  /** Resultado original, retornado tal cual en reintentos de la misma orden. */
+  result: ApplyCouponResult | ApplyCouponsResult;
+  status: RedemptionStatus;
+  revertedAt: string | null;
+  revertReason: string | null;
+  refunds: RedemptionRefund[];
+  refundedAmount: number;
+  refundedDiscountAmount: number;
+  /** Contador (índice) que registró el uso de cada cupón con `usageShards`, para liberarlo al revertir. */
+  usageShardIndexes?: Record<string, number>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// ── Requests ────────────────────────────────────────────
+
+export interface RevertCouponRedemptionRequest {
+  siteId: string;
+  orderId: string;
+  reason: string;
+  /** Si se envía, registra una devolución parcial en vez de revertir el uso completo. */
+  refundAmount?: number;
+  /** Identificador de la devolución parcial, para que reintentos no la dupliquen. */
+  refundId?: string;
+}
+
+// ── Responses ───────────────────────────────────────────
+
+export type RevertCouponRedemptionResponse = FunctionResponse<RedemptionDocument>;
@@ -0,0 +1,60 @@
+import type { FunctionResponse } from "./common.js";
+import type { CatalogItem, LineItem, ValidateCouponResult } from "./coupon.js";
+
+export type ReservationStatus = "active" | "confirmed" | "expired";
+
+/** Duración por defecto de una reserva (10 minutos). */
+export const DEFAULT_RESERVATION_TTL_SECONDS = 600;
+export const MIN_RESERVATION_TTL_SECONDS = 60;
+export const MAX_RESERVATION_TTL_SECONDS = 3600;
+
+/**
+ * Reserva de un uso de cupón durante el checkout (colección `reservations`).
+ * Mientras está `active` ocupa un cupo (`reservedCount` del cupón); al confirmarse con
+ * applyCoupon pasa a `confirmed` y el cupo se vuelve un uso. Si vence sin confirmarse
+ * pasa a `expired` y el cupo se libera.
+ */
+export interface CouponReservationDocument {
+  id: string;
+  siteId: string;
+  couponId: string;
+  customerId: string | null;
+  status: ReservationStatus;
+  expiresAt: string;
+  /** Contador que guarda el cupo si el cupón tiene `usageShards`; null si está en el cupón. */
+  usageShard: number | null;
+  /** Orden que confirmó la reserva. */
+  orderId: string | null;
+  confirmedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// ── Requests ────────────────────────────────────────────
+
+export interface ReserveCouponRequest {
+  siteId: string;
+  couponId: string;
+  cartTotal?: number;
+  lineItems?: LineItem[];
+  items?: CatalogItem[];
+  enforceStock?: boolean;
+  shippingCost?: number;
+  customerId?: string;
+  /** Duración de la reserva en segundos. Por defecto `DEFAULT_RESERVATION_TTL_SECONDS`. */
+  ttlSeconds?: number;
+}
+
+// ── Responses ───────────────────────────────────────────
+
+/**
+ * Preview del descuento (igual que validateCoupon) más la reserva tomada. Se reserva por
+ * `couponId`, así que `code` es null si el cupón es una promoción automática (sin código).
+ */
+export interface ReserveCouponResult extends Omit<ValidateCouponResult, "code"> {
+  code: string | null;
+  reservationId: string;
+  expiresAt: string;
+}
+
+export type ReserveCouponResponse = FunctionResponse<ReserveCouponResult>;
@@ -0,0 +1,67 @@
+import type { FunctionResponse } from "./common.js";
+
+/** Máximo de días que se pueden pedir en una serie diaria. */
+export const MAX_STATS_RANGE_DAYS = 366;
+
+/**
+ * Acumulados de uso. Los montos son en CLP enteros:
+ * `grossRevenue` es el total de las órdenes antes del descuento (subtotal + despacho)
+ * y `netRevenue` lo efectivamente cobrado (`finalTotal`), ambos netos de devoluciones.
+ */
+export interface StatsTotals {
+  redemptionCount: number;
+  discountTotal: number;
+  grossRevenue: number;
+  netRevenue: number;
+}
+
+/**
+ * Rollup pre-agregado (colección `couponStats`): uno total y uno por día (UTC)
+ * por cupón y por sitio. Se actualiza con incrementos en las mismas transacciones
+ * de applyCoupon/applyCoupons/revertCouponRedemption.
+ */
+export interface CouponStatsDocument extends StatsTotals {
+  siteId: string;
+  /** null en los rollups del sitio. */
+  couponId: string | null;
+  /** Día `YYYY-MM-DD` (UTC), o null en el rollup total. */
+  date: string | null;
+  /** Fecha del último uso registrado (solo en los rollups totales; no se retrocede al revertir). */
+  lastUsedAt?: string;
+  updatedAt: string;
+}
+
+/** Acumulados con el ticket promedio (`netRevenue / redemptionCount`, 0 sin usos). */
+export interface StatsSummary extends StatsTotals {
+  averageOrderValue: number;
+}
+
+export interface DailyStats extends StatsSummary {
+  date: string;
+}
+
+// ── Requests ────────────────────────────────────────────
+
+export interface GetCouponStatsRequest {
+  siteId: string;
+  /** Sin `couponId` se retornan las estadísticas de todo el sitio. */
+  couponId?: string;
+  /** Días `YYYY-MM-DD` (UTC), ambos incluidos; hasta `MAX_STATS_RANGE_DAYS`. */
+  from: string;
+  to: string;
+}
+
+// ── Responses ───────────────────────────────────────────
+
+export interface CouponStatsResult {
+  siteId: string;
+  couponId: string | null;
+  /** Acumulado histórico. */
+  totals: StatsSummary;
+  /** Acumulado del rango pedido. */
+  rangeTotals: StatsSummary;
+  /** Un punto por día del rango, incluidos los días sin usos. */
+  series: DailyStats[];
+}
+
+export type GetCouponStatsResponse = FunctionResponse<CouponStatsResult>;
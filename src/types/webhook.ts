@@ -0,0 +1,117 @@
+import type { FunctionResponse } from "./common.js";
+import type { CouponDocument } from "./coupon.js";
+import type { RedemptionDocument } from "./redemption.js";
+
+export const WEBHOOK_EVENT_TYPES = [
+  "coupon.created",
+  "coupon.updated",
+  "coupon.deleted",
+  "coupon.applied",
+  "coupon.exhausted",
+] as const;
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+export type WebhookDeliveryStatus = "pending" | "delivered" | "failed";
+export const WEBHOOK_DELIVERY_STATUSES = ["pending", "delivered", "failed"] as const;
+
+/** Intentos de entrega antes de dar un evento por fallido. */
+export const MAX_WEBHOOK_ATTEMPTS = 8;
+
+/**
+ * Endpoint registrado por el dueño de un sitio (colección `webhookEndpoints`).
+ * Cada evento suscrito se envía como POST JSON firmado con `secret` (HMAC-SHA256).
+ */
+export interface WebhookEndpointDocument {
+  id: string;
+  siteId: string;
+  url: string;
+  /** Secreto de la firma; solo se retorna al crear el endpoint. */
+  secret: string;
+  events: WebhookEventType[];
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Endpoint tal como se lista: sin el secreto. */
+export type WebhookEndpoint = Omit<WebhookEndpointDocument, "secret">;
+
+/** Datos de cada tipo de evento. */
+export type WebhookEventData =
+  | { coupon: CouponDocument }
+  | { coupon: CouponDocument; permanent: boolean }
+  | { redemption: Omit<RedemptionDocument, "result" | "usageShardIndexes"> };
+
+/** Cuerpo JSON que recibe el endpoint. `id` se repite en los reintentos del mismo evento. */
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventType;
+  siteId: string;
+  createdAt: string;
+  data: WebhookEventData;
+}
+
+/**
+ * Entrega de un evento a un endpoint (colección `webhookDeliveries`): es a la vez la bandeja
+ * de salida (las `pending` se reintentan desde `nextAttemptAt`) y el registro consultable.
+ */
+export interface WebhookDeliveryDocument {
+  id: string;
+  siteId: string;
+  endpointId: string;
+  eventId: string;
+  eventType: WebhookEventType;
+  event: WebhookEvent;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  /** Próximo intento; también reserva la entrega mientras un intento está en curso. null si ya no se reintenta. */
+  nextAttemptAt: string | null;
+  lastAttemptAt: string | null;
+  /** Código HTTP de la última respuesta (null si no hubo respuesta). */
+  lastStatusCode: number | null;
+  lastError: string | null;
+  deliveredAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// ── Requests ────────────────────────────────────────────
+
+export interface CreateWebhookEndpointRequest {
+  siteId: string;
+  /** HTTPS (HTTP solo para localhost). */
+  url: string;
+  events: WebhookEventType[];
+}
+
+export interface GetWebhookEndpointsRequest {
+  siteId: string;
+}
+
+export interface DeleteWebhookEndpointRequest {
+  siteId: string;
+  endpointId: string;
+}
+
+export interface GetWebhookDeliveriesRequest {
+  siteId: string;
+  endpointId?: string;
+  status?: WebhookDeliveryStatus;
+  /** Por defecto `DEFAULT_COUPONS_PAGE_SIZE`, hasta `MAX_COUPONS_PAGE_SIZE`. */
+  pageSize?: number;
+  /** `nextCursor` de la página anterior. */
+  cursor?: string;
+}
+
+// ── Responses ───────────────────────────────────────────
+
+/** Entregas de la más reciente a la más antigua; `nextCursor` es null en la última página. */
+export interface WebhookDeliveryPage {
+  deliveries: WebhookDeliveryDocument[];
+  nextCursor: string | null;
+}
+
+export type CreateWebhookEndpointResponse = FunctionResponse<WebhookEndpointDocument>;
+export type GetWebhookEndpointsResponse = FunctionResponse<WebhookEndpoint[]>;
+export type DeleteWebhookEndpointResponse = FunctionResponse<{ id: string }>;
+export type GetWebhookDeliveriesResponse = FunctionResponse<WebhookDeliveryPage>;
@@ -0,0 +1,68 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { auditAction, diffCouponFields } from "../src/functions/coupons/audit.js";
+
+const coupon = {
+  siteId: "site456",
+  code: "TEST",
+  discountType: "percentage",
+  discountValue: 10,
+  productIds: ["prod001"],
+  isActive: true,
+  updatedAt: "2026-01-01T00:00:00.000Z",
+};
+
+// ── diffCouponFields ────────────────────────────────────
+
+describe("diffCouponFields", () => {
+  it("lists only the fields that changed", () => {
+    const changes = diffCouponFields(coupon, { ...coupon, discountValue: 15, updatedAt: "2026-02-01T00:00:00.000Z" });
+    assert.deepEqual(changes, { discountValue: { before: 10, after: 15 } });
+  });
+
+  it("compares arrays and objects by value", () => {
+    assert.deepEqual(diffCouponFields(coupon, { ...coupon, productIds: ["prod001"] }), {});
+    assert.deepEqual(diffCouponFields(coupon, { ...coupon, productIds: ["prod002"] }), {
+      productIds: { before: ["prod001"], after: ["prod002"] },
+    });
+  });
+
+  it("records missing values as null", () => {
+    const changes = diffCouponFields(coupon, { ...coupon, maxDiscountAmount: 5000 });
+    assert.deepEqual(changes, { maxDiscountAmount: { before: null, after: 5000 } });
+  });
+
+  it("treats every field as new on create and removed on delete", () => {
+    assert.deepEqual(diffCouponFields(null, { siteId: "site456", id: "coupon001" }), {
+      siteId: { before: null, after: "site456" },
+    });
+    assert.deepEqual(diffCouponFields({ code: "TEST" }, null), { code: { before: "TEST", after: null } });
+  });
+});
+
+// ── auditAction ─────────────────────────────────────────
+
+describe("auditAction", () => {
+  it("classifies create and delete", () => {
+    assert.equal(auditAction(null, coupon), "create");
+    assert.equal(auditAction(coupon, null), "delete");
+  });
+
+  it("classifies isActive changes as activate/deactivate", () => {
+    assert.equal(auditAction(coupon, { ...coupon, isActive: false }), "deactivate");
+    assert.equal(auditAction({ ...coupon, isActive: false }, coupon), "activate");
+  });
+
+  it("classifies isArchived changes as archive/restore", () => {
+    assert.equal(auditAction(coupon, { ...coupon, isArchived: true }), "archive");
+    assert.equal(auditAction({ ...coupon, isArchived: true }, { ...coupon, isArchived: false }), "restore");
+  });
+
+  it("treats a missing isArchived as not archived", () => {
+    assert.equal(auditAction(coupon, { ...coupon, isArchived: false }), "update");
+  });
+
+  it("classifies other edits as update", () => {
+    assert.equal(auditAction(coupon, { ...coupon, code: "OTRO" }), "update");
+  });
+});
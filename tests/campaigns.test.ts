@@ -0,0 +1,159 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  CAMPAIGN_STALE_AFTER_MS,
+  generateCode,
+  generateDistinctCodes,
+  isCampaignStale,
+} from "../src/functions/campaigns/generator.js";
+import { codeSpace, createCampaignSchema, getCampaignSchema } from "../src/functions/campaigns/schemas.js";
+import { DEFAULT_CODE_ALPHABET } from "../src/types/campaign.js";
+
+// ── Helpers ─────────────────────────────────────────────
+
+/** Deterministic random source: cycles through the given values (mod max). */
+function sequence(...values: number[]) {
+  let i = 0;
+  return (max: number) => values[i++ % values.length] % max;
+}
+
+const validCampaign = {
+  siteId: "site456",
+  name: "Black Friday",
+  codePattern: { prefix: "bf-", length: 8 },
+  quantity: 500,
+  settings: {
+    discountType: "percentage",
+    discountValue: 15,
+    validFrom: "2025-11-01T00:00:00-03:00",
+    validUntil: "2025-12-01T00:00:00-03:00",
+  },
+};
+
+// ── generateCode ────────────────────────────────────────
+
+describe("generateCode", () => {
+  it("prepends the prefix and only uses alphabet characters", () => {
+    const code = generateCode({ prefix: "BF-", length: 4, alphabet: "ABC" }, sequence(0, 1, 2, 1));
+    assert.equal(code, "BF-ABCB");
+  });
+
+  it("never produces ambiguous characters with the default alphabet", () => {
+    const code = generateCode({ prefix: "", length: 200, alphabet: DEFAULT_CODE_ALPHABET });
+    assert.equal(code.length, 200);
+    assert.doesNotMatch(code, /[01OIL]/);
+  });
+});
+
+// ── generateDistinctCodes ───────────────────────────────
+
+describe("generateDistinctCodes", () => {
+  const pattern = { prefix: "X", length: 1, alphabet: "ABCD" };
+
+  it("skips repeated and excluded codes", () => {
+    const codes = generateDistinctCodes(pattern, 2, new Set(["XA"]), sequence(0, 0, 1, 1, 2));
+    assert.deepEqual(codes, ["XB", "XC"]);
+  });
+
+  it("throws when the pattern cannot produce enough codes", () => {
+    assert.throws(() => generateDistinctCodes(pattern, 5), /No se pudieron generar códigos distintos/);
+  });
+});
+
+// ── createCampaignSchema ────────────────────────────────
+
+describe("createCampaignSchema", () => {
+  it("accepts a valid campaign and normalizes the pattern", () => {
+    const result = createCampaignSchema.safeParse(validCampaign);
+    assert.equal(result.success, true);
+    if (result.success) {
+      assert.equal(result.data.codePattern.prefix, "BF-");
+      assert.equal(result.data.codePattern.alphabet, DEFAULT_CODE_ALPHABET);
+    }
+  });
+
+  it("rejects a prefix with invalid characters", () => {
+    const result = createCampaignSchema.safeParse({ ...validCampaign, codePattern: { prefix: "BF_", length: 8 } });
+    assert.equal(result.success, false);
+  });
+
+  it("rejects an alphabet with repeated characters", () => {
+    const result = createCampaignSchema.safeParse({
+      ...validCampaign,
+      codePattern: { length: 8, alphabet: "AABCDEFGHJK" },
+    });
+    assert.equal(result.success, false);
+  });
+
+  it("rejects an alphabet with ambiguous characters", () => {
+    for (const alphabet of ["ABCDEFGHJKO", "abcdefghjk1", "ABCDEFGHJKL"]) {
+      const result = createCampaignSchema.safeParse({ ...validCampaign, codePattern: { length: 8, alphabet } });
+      assert.equal(result.success, false, alphabet);
+    }
+  });
+
+  it("rejects a pattern with too few combinations for the quantity", () => {
+    const result = createCampaignSchema.safeParse({ ...validCampaign, codePattern: { length: 4 }, quantity: 2000 });
+    assert.equal(result.success, false);
+    if (!result.success) {
+      assert.deepEqual(result.error.issues[0].path, ["codePattern", "length"]);
+    }
+  });
+
+  it("rejects quantity above the maximum", () => {
+    const result = createCampaignSchema.safeParse({ ...validCampaign, codePattern: { length: 12 }, quantity: 10001 });
+    assert.equal(result.success, false);
+  });
+
+  it("validates discount settings with the createCoupon rules", () => {
+    const result = createCampaignSchema.safeParse({
+      ...validCampaign,
+      settings: { ...validCampaign.settings, discountValue: 150 },
+    });
+    assert.equal(result.success, false);
+  });
+
+  it("strips maxUses since every code is single-use", () => {
+    const result = createCampaignSchema.safeParse({
+      ...validCampaign,
+      settings: { ...validCampaign.settings, maxUses: 10 },
+    });
+    assert.equal(result.success, true);
+    if (result.success) {
+      assert.equal("maxUses" in result.data.settings, false);
+    }
+  });
+});
+
+describe("codeSpace", () => {
+  it("counts the pattern combinations", () => {
+    assert.equal(codeSpace({ length: 3, alphabet: "ABCDEFGHJK" }), 1000);
+  });
+});
+
+// ── getCampaignSchema ───────────────────────────────────
+
+describe("getCampaignSchema", () => {
+  it("requires campaignId", () => {
+    assert.equal(getCampaignSchema.safeParse({ siteId: "site456" }).success, false);
+    assert.equal(getCampaignSchema.safeParse({ siteId: "site456", campaignId: "c1" }).success, true);
+  });
+});
+
+// ── isCampaignStale ─────────────────────────────────────
+
+describe("isCampaignStale", () => {
+  const now = new Date("2026-06-15T12:00:00.000Z");
+  const ago = (ms: number) => new Date(now.getTime() - ms).toISOString();
+
+  it("flags unfinished campaigns without progress for the stale window", () => {
+    assert.equal(isCampaignStale({ status: "generating", updatedAt: ago(CAMPAIGN_STALE_AFTER_MS) }, now), true);
+    assert.equal(isCampaignStale({ status: "pending", updatedAt: ago(CAMPAIGN_STALE_AFTER_MS + 1) }, now), true);
+  });
+
+  it("leaves campaigns that are still progressing or already finished", () => {
+    assert.equal(isCampaignStale({ status: "generating", updatedAt: ago(60_000) }, now), false);
+    assert.equal(isCampaignStale({ status: "completed", updatedAt: ago(CAMPAIGN_STALE_AFTER_MS * 10) }, now), false);
+    assert.equal(isCampaignStale({ status: "failed", updatedAt: ago(CAMPAIGN_STALE_AFTER_MS * 10) }, now), false);
+  });
+});
@@ -0,0 +1,148 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { CallableRequest } from "firebase-functions/v2/https";
+import { db } from "../src/lib/firebase.js";
+import {
+  countsTowardPlan,
+  couponLimitError,
+  hasSiteCounterDrift,
+  reconcileSiteCounter,
+  siteToReconcile,
+} from "../src/functions/coupons/counters.js";
+import { createCouponHandler, deleteCouponHandler } from "../src/functions/coupons/handlers.js";
+import { ErrorCode } from "../src/types/common.js";
+
+// ── countsTowardPlan ────────────────────────────────────
+
+describe("countsTowardPlan", () => {
+  it("counts existing coupons that are not archived", () => {
+    assert.equal(countsTowardPlan({ siteId: "site456" }), true);
+    assert.equal(countsTowardPlan({ siteId: "site456", isArchived: false }), true);
+  });
+
+  it("does not count archived or missing coupons", () => {
+    assert.equal(countsTowardPlan({ siteId: "site456", isArchived: true }), false);
+    assert.equal(countsTowardPlan(undefined), false);
+  });
+});
+
+// ── siteToReconcile ─────────────────────────────────────
+
+describe("siteToReconcile", () => {
+  const active = { siteId: "site456", isArchived: false, usedCount: 0 };
+
+  it("reconciles when a coupon enters or leaves the plan", () => {
+    assert.equal(siteToReconcile(undefined, active), "site456");
+    assert.equal(siteToReconcile(active, undefined), "site456");
+    assert.equal(siteToReconcile(active, { ...active, isArchived: true }), "site456");
+    assert.equal(siteToReconcile({ ...active, isArchived: true }, active), "site456");
+  });
+
+  it("skips writes that keep the coupon in or out of the plan", () => {
+    assert.equal(siteToReconcile(active, { ...active, usedCount: 1 }), null);
+    assert.equal(siteToReconcile({ ...active, isArchived: true }, undefined), null);
+  });
+
+  it("skips writes that already updated the counter in their transaction", () => {
+    const counted = { ...active, planCountedAt: "2026-06-01T00:00:00.000Z" };
+    const archived = { ...counted, isArchived: true, planCountedAt: "2026-06-02T00:00:00.000Z" };
+    assert.equal(siteToReconcile(undefined, counted), null);
+    assert.equal(siteToReconcile(counted, archived), null);
+    assert.equal(siteToReconcile(archived, { ...counted, planCountedAt: "2026-06-03T00:00:00.000Z" }), null);
+  });
+
+  it("still reconciles direct writes to coupons stamped by an earlier transaction", () => {
+    const counted = { ...active, planCountedAt: "2026-06-01T00:00:00.000Z" };
+    assert.equal(siteToReconcile(counted, { ...counted, isArchived: true }), "site456");
+    assert.equal(siteToReconcile(counted, undefined), "site456");
+  });
+});
+
+// ── couponLimitError ────────────────────────────────────
+
+describe("couponLimitError", () => {
+  it("allows coupons up to the limit", () => {
+    assert.equal(couponLimitError(2, 3), null);
+    assert.equal(couponLimitError(0, 3, 3), null);
+  });
+
+  it("rejects coupons over the limit", () => {
+    const result = couponLimitError(3, 3);
+    assert.equal(result?.errorCode, ErrorCode.COUPON_LIMIT_REACHED);
+    assert.equal(result?.error, "Límite de cupones alcanzado (3/3)");
+  });
+
+  it("mentions how many coupons do not fit when several are requested", () => {
+    assert.equal(
+      couponLimitError(8, 10, 5)?.error,
+      "Límite de cupones alcanzado (8/10): no caben 5 cupones más",
+    );
+  });
+
+  it("never limits unlimited plans", () => {
+    assert.equal(couponLimitError(1000, -1, 500), null);
+  });
+});
+
+// ── Límite del plan bajo concurrencia (emulador) ────────
+// Corre solo contra el emulador de Firestore, p. ej.:
+// FIRESTORE_EMULATOR_HOST=127.0.0.1:8082 GCLOUD_PROJECT=demo-webgo-challenge npm test
+
+describe("plan limit under concurrent createCoupon", { skip: !process.env.FIRESTORE_EMULATOR_HOST }, () => {
+  const siteId = `counter-test-${Date.now()}`;
+  // Un usuario sin documento en `users` tiene plan free (3 cupones)
+  const userId = `${siteId}-owner`;
+
+  const auth = { uid: userId, token: { uid: userId } };
+  const request = (data: Record<string, unknown>) =>
+    ({ data: { siteId, ...data }, auth }) as unknown as CallableRequest<unknown>;
+
+  after(async () => {
+    const [coupons, audit] = await Promise.all([
+      db.collection("coupons").where("siteId", "==", siteId).get(),
+      db.collection("couponAudit").where("actorUid", "==", userId).get(),
+    ]);
+    const refs = [...coupons.docs, ...audit.docs].map((doc) => doc.ref);
+    await Promise.all(refs.map((ref) => ref.delete()));
+    await Promise.all([
+      db.collection("siteCounters").doc(siteId).delete(),
+      db.collection("sites").doc(siteId).delete(),
+    ]);
+  });
+
+  it("never creates more coupons than the plan allows and keeps the counter in sync", async () => {
+    await db.collection("sites").doc(siteId).set({ userId });
+
+    const results = await Promise.all(
+      Array.from({ length: 8 }, (_, i) =>
+        createCouponHandler(
+          request({
+            code: `RACE${i}`,
+            discountType: "percentage",
+            discountValue: 10,
+            validFrom: "2020-01-01T00:00:00.000Z",
+            validUntil: "2099-12-31T23:59:59.000Z",
+          }),
+        ),
+      ),
+    );
+
+    const created = results.filter((result) => result.data !== null);
+    assert.equal(created.length, 3);
+    assert.ok(results.every((result) => result.data !== null || result.errorCode === ErrorCode.COUPON_LIMIT_REACHED));
+    assert.equal((await db.collection("siteCounters").doc(siteId).get()).get("couponCount"), 3);
+
+    // Archivar libera cupo
+    const archived = await deleteCouponHandler(request({ couponId: created[0].data!.id }));
+    assert.equal(archived.error, null);
+    assert.equal((await db.collection("siteCounters").doc(siteId).get()).get("couponCount"), 2);
+
+    // Una escritura directa desincroniza el contador hasta la reconciliación
+    assert.equal(await hasSiteCounterDrift(siteId), false);
+    await db.collection("coupons").doc(`${siteId}-direct`).set({ siteId, isArchived: false });
+    assert.equal(await hasSiteCounterDrift(siteId), true);
+    assert.equal(await reconcileSiteCounter(siteId), 3);
+    assert.equal(await hasSiteCounterDrift(siteId), false);
+    assert.equal((await db.collection("siteCounters").doc(siteId).get()).get("couponCount"), 3);
+  });
+});
@@ -0,0 +1,127 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { CallableRequest } from "firebase-functions/v2/https";
+import { db } from "../src/lib/firebase.js";
+import { pickCouponsToKeep, reconcilePlanDowngrade } from "../src/functions/coupons/downgrades.js";
+import { updateCouponHandler } from "../src/functions/coupons/handlers.js";
+import { couponStatsRef } from "../src/functions/coupons/stats.js";
+import { ErrorCode } from "../src/types/common.js";
+
+// ── pickCouponsToKeep ───────────────────────────────────
+
+describe("pickCouponsToKeep", () => {
+  const coupon = (id: string, lastUsedAt: string | null, createdAt = "2026-01-01T00:00:00.000Z") => ({
+    id,
+    lastUsedAt,
+    createdAt,
+  });
+
+  it("keeps the most recently used coupons", () => {
+    const result = pickCouponsToKeep(
+      [
+        coupon("a", "2026-03-01T00:00:00.000Z"),
+        coupon("b", "2026-05-01T00:00:00.000Z"),
+        coupon("c", "2026-04-01T00:00:00.000Z"),
+      ],
+      2,
+    );
+    assert.deepEqual(result, { keep: ["b", "c"], deactivate: ["a"] });
+  });
+
+  it("ranks never-used coupons last, newest first", () => {
+    const result = pickCouponsToKeep(
+      [
+        coupon("old", null, "2026-01-01T00:00:00.000Z"),
+        coupon("new", null, "2026-02-01T00:00:00.000Z"),
+        coupon("used", "2025-12-01T00:00:00.000Z", "2025-06-01T00:00:00.000Z"),
+      ],
+      2,
+    );
+    assert.deepEqual(result, { keep: ["used", "new"], deactivate: ["old"] });
+  });
+
+  it("keeps everything on unlimited plans", () => {
+    assert.deepEqual(pickCouponsToKeep([coupon("a", null), coupon("b", null)], -1).deactivate, []);
+  });
+});
+
+// ── reconcilePlanDowngrade (emulador) ───────────────────
+// Corre solo contra el emulador de Firestore, p. ej.:
+// FIRESTORE_EMULATOR_HOST=127.0.0.1:8082 GCLOUD_PROJECT=demo-webgo-challenge npm test
+
+describe("reconcilePlanDowngrade against the Firestore emulator", { skip: !process.env.FIRESTORE_EMULATOR_HOST }, () => {
+  const siteId = `downgrade-test-${Date.now()}`;
+  const userId = `${siteId}-owner`;
+  const coupons = db.collection("coupons");
+  const NOW = new Date("2026-06-15T12:00:00.000Z");
+
+  after(async () => {
+    const [couponDocs, statsDocs, auditDocs] = await Promise.all([
+      coupons.where("siteId", "==", siteId).get(),
+      db.collection("couponStats").where("siteId", "==", siteId).get(),
+      db.collection("couponAudit").where("siteId", "==", siteId).get(),
+    ]);
+    const refs = [...couponDocs.docs, ...statsDocs.docs, ...auditDocs.docs].map((doc) => doc.ref);
+    await Promise.all(refs.map((ref) => ref.delete()));
+    await Promise.all([
+      db.collection("users").doc(userId).delete(),
+      db.collection("sites").doc(siteId).delete(),
+      db.collection("siteCounters").doc(siteId).delete(),
+    ]);
+  });
+
+  it("keeps the most recently used coupons active and refuses to reactivate the rest", async () => {
+    await db.collection("users").doc(userId).set({ plan: "free" });
+    await db.collection("sites").doc(siteId).set({ userId });
+
+    // Activos salvo c2; c1, c3, c4 y c5 tienen usos (c4 el más reciente)
+    const lastUses: Record<string, string | null> = {
+      c0: null,
+      c1: "2026-06-01T00:00:00.000Z",
+      c2: null,
+      c3: "2026-06-10T00:00:00.000Z",
+      c4: "2026-06-14T00:00:00.000Z",
+      c5: "2026-05-01T00:00:00.000Z",
+    };
+    for (const [key, lastUsedAt] of Object.entries(lastUses)) {
+      const id = `${siteId}-${key}`;
+      await coupons.doc(id).set({
+        siteId,
+        userId,
+        code: key.toUpperCase(),
+        discountType: "percentage",
+        discountValue: 10,
+        usedCount: lastUsedAt ? 1 : 0,
+        validFrom: "2020-01-01T00:00:00.000Z",
+        validUntil: "2099-12-31T23:59:59.000Z",
+        isActive: key !== "c2",
+        isArchived: false,
+        createdAt: "2026-01-01T00:00:00.000Z",
+        updatedAt: "2026-01-01T00:00:00.000Z",
+      });
+      if (lastUsedAt) {
+        await couponStatsRef(siteId, id, null).set({ siteId, couponId: id, date: null, lastUsedAt });
+      }
+    }
+
+    // free: 3 cupones. Quedan c4, c3 y c1; se desactivan c5 y c0
+    assert.equal(await reconcilePlanDowngrade(userId, NOW), 2);
+    const read = async (key: string) => (await coupons.doc(`${siteId}-${key}`).get()).data()!;
+    for (const key of ["c1", "c3", "c4"]) assert.equal((await read(key)).isActive, true);
+    for (const key of ["c0", "c5"]) {
+      const coupon = await read(key);
+      assert.equal(coupon.isActive, false);
+      assert.equal(coupon.planLimitedAt, NOW.toISOString());
+    }
+    assert.equal((await read("c2")).planLimitedAt, undefined);
+
+    // Re-ejecutar no cambia nada
+    assert.equal(await reconcilePlanDowngrade(userId, NOW), 0);
+
+    // 6 cupones sin archivar sobre un límite de 3: no se puede reactivar
+    const auth = { uid: userId, token: { uid: userId } };
+    const request = { data: { siteId, couponId: `${siteId}-c0`, isActive: true }, auth };
+    const result = await updateCouponHandler(request as unknown as CallableRequest<unknown>);
+    assert.equal(result.errorCode, ErrorCode.COUPON_LIMIT_REACHED);
+  });
+});
@@ -0,0 +1,22 @@
+import type { CouponDocument } from "../src/types/coupon.js";
+
+// Fixtures compartidas por las pruebas: cada archivo pasa solo los campos que le importan.
+
+/** Cupón activo de 10% vigente de 2025 a 2027, sin límites ni restricciones. */
+export function makeCoupon(overrides: Partial<CouponDocument> = {}): CouponDocument {
+  return {
+    id: "coupon001",
+    siteId: "site456",
+    userId: "user123",
+    code: "TEST",
+    discountType: "percentage",
+    discountValue: 10,
+    usedCount: 0,
+    validFrom: "2025-01-01T00:00:00-03:00",
+    validUntil: "2027-12-31T23:59:59-03:00",
+    isActive: true,
+    createdAt: "2025-01-01T00:00:00-03:00",
+    updatedAt: "2025-01-01T00:00:00-03:00",
+    ...overrides,
+  };
+}
@@ -1,35 +1,37 @@
-import { describe, it } from "node:test";
+import { before, describe, it } from "node:test";
 import assert from "node:assert/strict";
 import {
   calculateDiscount,
   validateCouponEligibility,
   validateUpdateFields,
   buildCleanUpdates,
+  checkSiteOwnership,
+  checkStorefrontCredential,
+  withSiteOwner,
+  withStorefrontAccess,
+  redemptionRef,
+  calculateRefundedDiscount,
+  selectTier,
+  couponLabel,
+  encodeCursor,
+  decodeCursor,
 } from "../src/functions/coupons/helpers.js";
+import { auth } from "../src/lib/firebase.js";
+import { DEFAULT_PLANS } from "../src/lib/limits.js";
+import { getCouponsHandler, createStorefrontTokenHandler } from "../src/functions/coupons/handlers.js";
 import { ErrorCode } from "../src/types/common.js";
-import type { CouponDocument } from "../src/types/coupon.js";
+import type { DiscountTier } from "../src/types/coupon.js";
+import type { PlanDocument } from "../src/types/plan.js";
+import type { CallableRequest } from "firebase-functions/v2/https";
+import { makeCoupon } from "./fixtures.js";
 
 // ── Helpers ─────────────────────────────────────────────
 
-function makeCoupon(overrides: Partial<CouponDocument> = {}): CouponDocument {
-  return {
-    id: "coupon001",
-    siteId: "site456",
-    userId: "user123",
-    code: "TEST",
-    discountType: "percentage",
-    discountValue: 10,
-    minPurchase: undefined,
-    maxUses: undefined,
-    usedCount: 0,
-    validFrom: "2025-01-01T00:00:00-03:00",
-    validUntil: "2027-12-31T23:59:59-03:00",
-    isActive: true,
-    createdAt: "2025-01-01T00:00:00-03:00",
-    updatedAt: "2025-01-01T00:00:00-03:00",
-    ...overrides,
-  };
-}
+const tiers: DiscountTier[] = [
+  { minCartTotal: 20000, discountType: "percentage", discountValue: 5 },
+  { minCartTotal: 50000, discountType: "percentage", discountValue: 10 },
+  { minCartTotal: 100000, discountType: "fixed", discountValue: 15000 },
+];
 
 // ── calculateDiscount ───────────────────────────────────
 
@@ -61,6 +63,61 @@ describe("calculateDiscount", () => {
   it("returns 0 for fixed discount on 0 cart", () => {
     assert.equal(calculateDiscount("fixed", 5000, 0), 0);
   });
+
+  it("returns the shipping cost for free_shipping", () => {
+    assert.equal(calculateDiscount("free_shipping", 0, 50000, { shippingCost: 3990 }), 3990);
+  });
+
+  it("returns 0 for free_shipping without shipping cost", () => {
+    assert.equal(calculateDiscount("free_shipping", 0, 50000), 0);
+  });
+
+  it("applies the highest tier reached", () => {
+    assert.equal(calculateDiscount("tiered", 0, 60000, { tiers }), 6000);
+    assert.equal(calculateDiscount("tiered", 0, 100000, { tiers }), 15000);
+  });
+
+  it("returns 0 for tiered below the first tier", () => {
+    assert.equal(calculateDiscount("tiered", 0, 19999, { tiers }), 0);
+  });
+
+  it("caps the discount at maxDiscountAmount", () => {
+    assert.equal(calculateDiscount("percentage", 50, 2000000, { maxDiscountAmount: 100000 }), 100000);
+  });
+
+  it("ignores maxDiscountAmount below the cap", () => {
+    assert.equal(calculateDiscount("percentage", 10, 50000, { maxDiscountAmount: 100000 }), 5000);
+  });
+
+  it("selects the tier with tierBase and discounts cartTotal", () => {
+    assert.equal(calculateDiscount("tiered", 0, 30000, { tiers, tierBase: 60000 }), 3000);
+  });
+});
+
+// ── selectTier ──────────────────────────────────────────
+
+describe("selectTier", () => {
+  it("returns the applied tier and the amount remaining for the next", () => {
+    const result = selectTier(tiers, 35000);
+    assert.equal(result.appliedTier?.index, 0);
+    assert.deepEqual(result.nextTier, { ...tiers[1], amountRemaining: 15000 });
+  });
+
+  it("applies a tier when the cart reaches exactly its threshold", () => {
+    assert.equal(selectTier(tiers, 50000).appliedTier?.index, 1);
+  });
+
+  it("has no next tier on the last tier", () => {
+    const result = selectTier(tiers, 250000);
+    assert.equal(result.appliedTier?.index, 2);
+    assert.equal(result.nextTier, null);
+  });
+
+  it("has no applied tier below the first", () => {
+    const result = selectTier(tiers, 5000);
+    assert.equal(result.appliedTier, null);
+    assert.equal(result.nextTier?.amountRemaining, 15000);
+  });
 });
 
 // ── validateCouponEligibility ───────────────────────────
@@ -78,6 +135,26 @@ describe("validateCouponEligibility", () => {
     assert.equal(result!.errorCode, ErrorCode.COUPON_INACTIVE);
   });
 
+  it("reports a coupon deactivated by exhaustion as out of uses", () => {
+    const coupon = makeCoupon({ isActive: false, maxUses: 1, usedCount: 1, exhaustedAt: "2026-01-01T00:00:00.000Z" });
+    const result = validateCouponEligibility(coupon, 50000);
+    assert.equal(result!.errorCode, ErrorCode.COUPON_MAX_USES);
+  });
+
+  it("rejects discount types the site's plan no longer includes", () => {
+    const free: PlanDocument = { id: "free", ...DEFAULT_PLANS.free };
+    const coupon = makeCoupon({ discountType: "tiered" });
+    assert.equal(validateCouponEligibility(coupon, 50000, { plan: free })?.errorCode, ErrorCode.FEATURE_NOT_IN_PLAN);
+    assert.equal(validateCouponEligibility(makeCoupon(), 50000, { plan: free }), null);
+  });
+
+  it("rejects archived coupon even if active", () => {
+    const coupon = makeCoupon({ isArchived: true, archivedAt: "2026-01-01T00:00:00.000Z" });
+    const result = validateCouponEligibility(coupon, 50000);
+    assert.notEqual(result, null);
+    assert.equal(result!.errorCode, ErrorCode.COUPON_ARCHIVED);
+  });
+
   it("rejects coupon not yet valid", () => {
     const coupon = makeCoupon({ validFrom: "2099-01-01T00:00:00-03:00" });
     const result = validateCouponEligibility(coupon, 50000);
@@ -104,6 +181,23 @@ describe("validateCouponEligibility", () => {
     assert.equal(validateCouponEligibility(coupon, 50000), null);
   });
 
+  it("rejects coupon whose remaining uses are all reserved", () => {
+    const coupon = makeCoupon({ maxUses: 10, usedCount: 8, reservedCount: 2 });
+    const result = validateCouponEligibility(coupon, 50000);
+    assert.equal(result?.errorCode, ErrorCode.COUPON_MAX_USES);
+    assert.deepEqual(result?.errorDetails, { reservedCount: 2 });
+  });
+
+  it("allows coupon with a free slot besides the reserved ones", () => {
+    const coupon = makeCoupon({ maxUses: 10, usedCount: 8, reservedCount: 1 });
+    assert.equal(validateCouponEligibility(coupon, 50000), null);
+  });
+
+  it("skips the capacity check for a buyer holding a reservation", () => {
+    const coupon = makeCoupon({ maxUses: 1, usedCount: 0, reservedCount: 1 });
+    assert.equal(validateCouponEligibility(coupon, 50000, { slotSecured: true }), null);
+  });
+
   it("allows coupon with null maxUses (unlimited)", () => {
     const coupon = makeCoupon({ maxUses: undefined, usedCount: 999 });
     assert.equal(validateCouponEligibility(coupon, 50000), null);
@@ -114,6 +208,7 @@ describe("validateCouponEligibility", () => {
     const result = validateCouponEligibility(coupon, 20000);
     assert.notEqual(result, null);
     assert.equal(result!.errorCode, ErrorCode.MIN_PURCHASE_NOT_MET);
+    assert.deepEqual(result!.errorDetails, { minPurchase: 30000, amountRemaining: 10000 });
   });
 
   it("allows cart equal to minPurchase", () => {
@@ -125,6 +220,42 @@ describe("validateCouponEligibility", () => {
     const coupon = makeCoupon({ minPurchase: undefined });
     assert.equal(validateCouponEligibility(coupon, 100), null);
   });
+
+  it("requires customerId when coupon limits uses per customer", () => {
+    const coupon = makeCoupon({ maxUsesPerCustomer: 1 });
+    const result = validateCouponEligibility(coupon, 50000);
+    assert.notEqual(result, null);
+    assert.equal(result!.errorCode, ErrorCode.CUSTOMER_ID_REQUIRED);
+  });
+
+  it("rejects customer that used up their quota", () => {
+    const coupon = makeCoupon({ maxUsesPerCustomer: 2 });
+    const result = validateCouponEligibility(coupon, 50000, { customerId: "ana@mail.cl", customerUsageCount: 2 });
+    assert.notEqual(result, null);
+    assert.equal(result!.errorCode, ErrorCode.CUSTOMER_MAX_USES);
+  });
+
+  it("allows customer below their quota", () => {
+    const coupon = makeCoupon({ maxUsesPerCustomer: 2 });
+    assert.equal(validateCouponEligibility(coupon, 50000, { customerId: "ana@mail.cl", customerUsageCount: 1 }), null);
+  });
+
+  it("ignores customer context when coupon has no per-customer limit", () => {
+    const coupon = makeCoupon();
+    assert.equal(validateCouponEligibility(coupon, 50000, { customerUsageCount: 99 }), null);
+  });
+
+  it("rejects tiered cart below the first tier with amount remaining", () => {
+    const coupon = makeCoupon({ discountType: "tiered", discountValue: 0, tiers });
+    const result = validateCouponEligibility(coupon, 12000);
+    assert.equal(result?.errorCode, ErrorCode.MIN_PURCHASE_NOT_MET);
+    assert.deepEqual(result?.errorDetails, { minCartTotal: 20000, amountRemaining: 8000 });
+  });
+
+  it("allows tiered cart that reaches the first tier", () => {
+    const coupon = makeCoupon({ discountType: "tiered", discountValue: 0, tiers });
+    assert.equal(validateCouponEligibility(coupon, 20000), null);
+  });
 });
 
 // ── validateUpdateFields ────────────────────────────────
@@ -154,6 +285,27 @@ describe("validateUpdateFields", () => {
     assert.equal(validateUpdateFields(coupon, { discountValue: 9999 }), null);
   });
 
+  it("allows switching to free_shipping without discountValue", () => {
+    assert.equal(validateUpdateFields(baseCoupon, { discountType: "free_shipping" }), null);
+  });
+
+  it("rejects discountValue on a free_shipping coupon", () => {
+    const coupon = makeCoupon({ discountType: "free_shipping", discountValue: 0 });
+    const result = validateUpdateFields(coupon, { discountValue: 10 });
+    assert.equal(result?.errorCode, ErrorCode.INVALID_INPUT);
+  });
+
+  it("requires buyXGetY when switching to buy_x_get_y", () => {
+    const result = validateUpdateFields(baseCoupon, { discountType: "buy_x_get_y" });
+    assert.equal(result?.errorCode, ErrorCode.INVALID_INPUT);
+  });
+
+  it("requires discountValue when leaving free_shipping", () => {
+    const coupon = makeCoupon({ discountType: "free_shipping", discountValue: 0 });
+    const result = validateUpdateFields(coupon, { discountType: "fixed" });
+    assert.equal(result?.errorCode, ErrorCode.INVALID_INPUT);
+  });
+
   it("allows percentage update <= 100", () => {
     assert.equal(validateUpdateFields(baseCoupon, { discountValue: 50 }), null);
   });
@@ -170,6 +322,59 @@ describe("validateUpdateFields", () => {
     assert.equal(result!.errorCode, ErrorCode.INVALID_INPUT);
   });
 
+  it("rejects excluding a product that stays included", () => {
+    const coupon = makeCoupon({ productIds: ["prod001", "prod002"] });
+    const result = validateUpdateFields(coupon, { excludedProductIds: ["prod002"] });
+    assert.notEqual(result, null);
+    assert.equal(result!.errorCode, ErrorCode.INVALID_INPUT);
+  });
+
+  it("allows excluding a product when the include list is cleared", () => {
+    const coupon = makeCoupon({ productIds: ["prod001", "prod002"] });
+    assert.equal(validateUpdateFields(coupon, { productIds: null, excludedProductIds: ["prod002"] }), null);
+  });
+
+  it("requires tiers when switching to tiered", () => {
+    const result = validateUpdateFields(baseCoupon, { discountType: "tiered" });
+    assert.equal(result?.errorCode, ErrorCode.INVALID_INPUT);
+  });
+
+  it("allows switching to tiered with tiers", () => {
+    assert.equal(validateUpdateFields(baseCoupon, { discountType: "tiered", tiers }), null);
+  });
+
+  it("rejects discountValue on a tiered coupon", () => {
+    const coupon = makeCoupon({ discountType: "tiered", discountValue: 0, tiers });
+    const result = validateUpdateFields(coupon, { discountValue: 10 });
+    assert.equal(result?.errorCode, ErrorCode.INVALID_INPUT);
+  });
+
+  it("rejects a code on an automatic promotion", () => {
+    const coupon = makeCoupon({ code: null, isAutomatic: true, name: "Promo" });
+    const result = validateUpdateFields(coupon, { code: "PROMO" });
+    assert.equal(result?.errorCode, ErrorCode.INVALID_INPUT);
+  });
+
+  it("rejects maxDiscountAmount on a fixed coupon", () => {
+    const coupon = makeCoupon({ discountType: "fixed", discountValue: 5000 });
+    const result = validateUpdateFields(coupon, { maxDiscountAmount: 10000 });
+    assert.equal(result?.errorCode, ErrorCode.INVALID_INPUT);
+  });
+
+  it("rejects maxDiscountAmount when switching to free_shipping", () => {
+    const result = validateUpdateFields(baseCoupon, { discountType: "free_shipping", maxDiscountAmount: 10000 });
+    assert.equal(result?.errorCode, ErrorCode.INVALID_INPUT);
+  });
+
+  it("allows maxDiscountAmount on a percentage coupon", () => {
+    assert.equal(validateUpdateFields(baseCoupon, { maxDiscountAmount: 10000 }), null);
+  });
+
+  it("rejects tiers on a non-tiered coupon", () => {
+    const result = validateUpdateFields(baseCoupon, { tiers });
+    assert.equal(result?.errorCode, ErrorCode.INVALID_INPUT);
+  });
+
   it("allows valid date range update", () => {
     assert.equal(
       validateUpdateFields(baseCoupon, {
@@ -207,3 +412,216 @@ describe("buildCleanUpdates", () => {
     assert.equal(keys[0], "updatedAt");
   });
 });
+
+// ── couponLabel ─────────────────────────────────────────
+
+describe("couponLabel", () => {
+  it("uses the code when present", () => {
+    assert.equal(couponLabel(makeCoupon()), "TEST");
+  });
+
+  it("falls back to the name for automatic promotions", () => {
+    assert.equal(couponLabel(makeCoupon({ code: null, isAutomatic: true, name: "Finde 10%" })), "Finde 10%");
+  });
+});
+
+// ── encodeCursor / decodeCursor ─────────────────────────
+
+describe("encodeCursor / decodeCursor", () => {
+  it("round-trips a coupon id", () => {
+    const cursor = encodeCursor("coupon001");
+    assert.notEqual(cursor, "coupon001");
+    assert.equal(decodeCursor(cursor), "coupon001");
+  });
+
+  it("rejects cursors that were not produced by encodeCursor", () => {
+    assert.equal(decodeCursor("not a cursor!"), null);
+    assert.equal(decodeCursor(encodeCursor("coupons/coupon001")), null);
+  });
+});
+
+// ── redemptionRef ───────────────────────────────────────
+
+describe("redemptionRef", () => {
+  it("is deterministic for the same site and order", () => {
+    assert.equal(redemptionRef("site456", "order-1").id, redemptionRef("site456", "order-1").id);
+  });
+
+  it("does not collide when separators appear in the ids", () => {
+    assert.notEqual(redemptionRef("site|a", "b").id, redemptionRef("site", "a|b").id);
+  });
+
+  it("accepts order ids containing slashes", () => {
+    const ref = redemptionRef("site456", "2026/10/order-1");
+    assert.equal(ref.parent.id, "redemptions");
+  });
+});
+
+// ── calculateRefundedDiscount ───────────────────────────
+
+describe("calculateRefundedDiscount", () => {
+  const redemption = { cartTotal: 50000, discountAmount: 5000, refundedDiscountAmount: 0 };
+
+  it("returns the proportional share of the original discount", () => {
+    assert.equal(calculateRefundedDiscount(redemption, 15000), 1500);
+  });
+
+  it("returns the whole discount for a full-amount refund", () => {
+    assert.equal(calculateRefundedDiscount(redemption, 50000), 5000);
+  });
+
+  it("never exceeds the discount not yet refunded", () => {
+    assert.equal(calculateRefundedDiscount({ ...redemption, refundedDiscountAmount: 4900 }, 15000), 100);
+  });
+
+  it("returns 0 for a zero cart total", () => {
+    assert.equal(calculateRefundedDiscount({ ...redemption, cartTotal: 0 }, 100), 0);
+  });
+});
+
+// ── Autorización ───────────────────────────────────────
+// uids y sitios del seed: user123 es dueño de site456, user789 de site999.
+
+function makeRequest(data: unknown, uid?: string, claims: Record<string, unknown> = {}): CallableRequest<unknown> {
+  return {
+    data,
+    auth: uid ? { uid, token: { uid, ...claims } } : undefined,
+  } as unknown as CallableRequest<unknown>;
+}
+
+describe("checkSiteOwnership", () => {
+  it("allows the site owner", () => {
+    assert.equal(checkSiteOwnership("user123", makeRequest({}, "user123").auth), null);
+  });
+
+  it("rejects a missing auth token", () => {
+    const result = checkSiteOwnership("user123", undefined);
+    assert.notEqual(result, null);
+    assert.equal(result!.errorCode, ErrorCode.UNAUTHENTICATED);
+  });
+
+  it("rejects a user that does not own the site", () => {
+    const result = checkSiteOwnership("user123", makeRequest({}, "user789").auth);
+    assert.notEqual(result, null);
+    assert.equal(result!.errorCode, ErrorCode.FORBIDDEN);
+  });
+});
+
+describe("withSiteOwner", () => {
+  const handler = withSiteOwner("test", async () => ({ data: "ok", error: null }));
+
+  it("rejects unauthenticated calls before touching Firestore", async () => {
+    const result = await handler(makeRequest({ siteId: "site456" }));
+    assert.equal(result.errorCode, ErrorCode.UNAUTHENTICATED);
+  });
+
+  it("rejects authenticated calls without siteId", async () => {
+    const result = await handler(makeRequest({}, "user123"));
+    assert.equal(result.errorCode, ErrorCode.INVALID_INPUT);
+  });
+});
+
+describe("checkStorefrontCredential", () => {
+  it("allows the site owner and sessions carrying the site claim", () => {
+    assert.equal(checkStorefrontCredential("site456", "user123", makeRequest({}, "user123").auth), null);
+    const storefront = makeRequest({}, "storefront-site456", { siteId: "site456" }).auth;
+    assert.equal(checkStorefrontCredential("site456", "user123", storefront), null);
+  });
+
+  it("rejects sessions that are not tied to the site", () => {
+    const anonymous = makeRequest({}, "anon-1").auth;
+    assert.equal(checkStorefrontCredential("site456", "user123", anonymous)?.errorCode, ErrorCode.FORBIDDEN);
+    const otherSite = makeRequest({}, "storefront-site999", { siteId: "site999" }).auth;
+    assert.equal(checkStorefrontCredential("site456", "user123", otherSite)?.errorCode, ErrorCode.FORBIDDEN);
+  });
+
+  it("rejects a missing auth token", () => {
+    assert.equal(checkStorefrontCredential("site456", "user123", undefined)?.errorCode, ErrorCode.UNAUTHENTICATED);
+  });
+});
+
+describe("withStorefrontAccess", () => {
+  it("rejects anonymous calls when a site credential is required", async () => {
+    const handler = withStorefrontAccess("test", { requireSiteCredential: true }, async () => ({
+      data: "ok",
+      error: null,
+    }));
+    const result = await handler(makeRequest({ siteId: "site456" }));
+    assert.equal(result.errorCode, ErrorCode.UNAUTHENTICATED);
+  });
+
+  it("rejects calls without siteId", async () => {
+    const handler = withStorefrontAccess("test", { requireSiteCredential: false }, async () => ({
+      data: "ok",
+      error: null,
+    }));
+    const result = await handler(makeRequest(null));
+    assert.equal(result.errorCode, ErrorCode.INVALID_INPUT);
+  });
+});
+
+// ── Autorización con el Auth emulator ───────────────────
+// Corre solo contra los emuladores con los datos de seed.ts (npm run dev + npm run seed), p. ej.:
+// FIRESTORE_EMULATOR_HOST=127.0.0.1:8082 FIREBASE_AUTH_EMULATOR_HOST=127.0.0.1:9099 \
+//   GCLOUD_PROJECT=demo-webgo-challenge npm test
+
+const emulators = Boolean(process.env.FIRESTORE_EMULATOR_HOST && process.env.FIREBASE_AUTH_EMULATOR_HOST);
+
+describe("authorization wrappers against the Auth emulator", { skip: !emulators }, () => {
+  /** Inicia sesión en el Auth emulator y arma `request.auth` desde el ID token verificado. */
+  async function signIn(endpoint: string, body: Record<string, unknown>): Promise<CallableRequest["auth"]> {
+    const url = `http://${process.env.FIREBASE_AUTH_EMULATOR_HOST}/identitytoolkit.googleapis.com/v1/accounts:${endpoint}?key=fake-api-key`;
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...body, returnSecureToken: true }),
+    });
+    const { idToken } = (await response.json()) as { idToken: string };
+    const token = await auth.verifyIdToken(idToken);
+    return { uid: token.uid, token, rawToken: idToken };
+  }
+
+  const call = <T>(handler: (request: CallableRequest<unknown>) => Promise<T>, data: unknown, session: unknown) =>
+    handler({ data, auth: session } as unknown as CallableRequest<unknown>);
+  const storefrontHandler = withStorefrontAccess("test", { requireSiteCredential: true }, async (_request, access) => ({
+    data: access.uid,
+    error: null,
+  }));
+
+  let owner: CallableRequest["auth"];
+  let rival: CallableRequest["auth"];
+  before(async () => {
+    owner = await signIn("signInWithPassword", { email: "test@webgo.cl", password: "test1234" });
+    rival = await signIn("signInWithPassword", { email: "rival@webgo.cl", password: "test1234" });
+  });
+
+  it("lets the seed owner manage their site and forbids the rival user", async () => {
+    const own = await call(getCouponsHandler, { siteId: "site456" }, owner);
+    assert.equal(own.error, null);
+    assert.ok(own.data?.coupons.every((coupon) => coupon.siteId === "site456"));
+
+    const foreign = await call(getCouponsHandler, { siteId: "site456" }, rival);
+    assert.equal(foreign.errorCode, ErrorCode.FORBIDDEN);
+  });
+
+  it("rejects anonymous sessions on operations that consume uses", async () => {
+    const anonymous = await signIn("signUp", {});
+    const result = await call(storefrontHandler, { siteId: "site456" }, anonymous);
+    assert.equal(result.errorCode, ErrorCode.FORBIDDEN);
+  });
+
+  it("accepts the storefront token only for its own site", async () => {
+    const issued = await call(createStorefrontTokenHandler, { siteId: "site456" }, owner);
+    assert.equal(issued.data?.uid, "storefront-site456");
+    const storefront = await signIn("signInWithCustomToken", { token: issued.data!.token });
+
+    const own = await call(storefrontHandler, { siteId: "site456" }, storefront);
+    assert.equal(own.data, "storefront-site456");
+    const foreign = await call(storefrontHandler, { siteId: "site999" }, storefront);
+    assert.equal(foreign.errorCode, ErrorCode.FORBIDDEN);
+
+    // Solo el dueño emite credenciales de su sitio
+    const stolen = await call(createStorefrontTokenHandler, { siteId: "site456" }, rival);
+    assert.equal(stolen.errorCode, ErrorCode.FORBIDDEN);
+  });
+});
@@ -0,0 +1,145 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { db } from "../src/lib/firebase.js";
+import {
+  exhaustionUpdates,
+  expireCoupons,
+  lifecycleChange,
+  releaseExhaustionUpdates,
+} from "../src/functions/coupons/lifecycle.js";
+import { makeCoupon } from "./fixtures.js";
+
+// ── Helpers ─────────────────────────────────────────────
+
+const NOW = new Date("2026-06-15T12:00:00.000Z");
+
+// ── lifecycleChange ─────────────────────────────────────
+
+describe("lifecycleChange", () => {
+  it("leaves valid coupons alone", () => {
+    assert.equal(lifecycleChange(makeCoupon({ maxUses: 5, usedCount: 4 }), NOW), null);
+  });
+
+  it("flags coupons past validUntil as expired", () => {
+    assert.equal(lifecycleChange(makeCoupon({ validUntil: "2026-06-15T11:59:59.000Z" }), NOW), "expired");
+  });
+
+  it("flags coupons that reached maxUses as exhausted", () => {
+    assert.equal(lifecycleChange(makeCoupon({ maxUses: 5, usedCount: 5 }), NOW), "exhausted");
+  });
+
+  it("prefers expired when both apply", () => {
+    const coupon = makeCoupon({ validUntil: "2026-01-31T00:00:00.000Z", maxUses: 1, usedCount: 1 });
+    assert.equal(lifecycleChange(coupon, NOW), "expired");
+  });
+
+  it("ignores inactive coupons so re-runs change nothing", () => {
+    assert.equal(lifecycleChange(makeCoupon({ isActive: false, validUntil: "2026-01-31T00:00:00.000Z" }), NOW), null);
+  });
+
+  it("ignores archived coupons", () => {
+    assert.equal(lifecycleChange(makeCoupon({ isArchived: true, validUntil: "2026-01-31T00:00:00.000Z" }), NOW), null);
+  });
+});
+
+// ── exhaustionUpdates / releaseExhaustionUpdates ────────
+
+describe("exhaustionUpdates", () => {
+  const timestamp = NOW.toISOString();
+
+  it("deactivates a single-counter coupon when the use reaches maxUses", () => {
+    assert.deepEqual(exhaustionUpdates(makeCoupon({ maxUses: 2, usedCount: 1 }), 2, timestamp), {
+      isActive: false,
+      exhaustedAt: timestamp,
+    });
+    assert.equal(exhaustionUpdates(makeCoupon({ maxUses: 3, usedCount: 1 }), 2, timestamp), null);
+    assert.equal(exhaustionUpdates(makeCoupon(), 100, timestamp), null);
+  });
+
+  it("leaves sharded coupons to the scheduled job", () => {
+    assert.equal(exhaustionUpdates(makeCoupon({ maxUses: 2, usageShards: 4 }), 2, timestamp), null);
+  });
+});
+
+describe("releaseExhaustionUpdates", () => {
+  const exhausted = makeCoupon({ isActive: false, maxUses: 2, usedCount: 2, exhaustedAt: NOW.toISOString() });
+
+  it("reactivates an exhausted coupon that gets a use back", () => {
+    assert.deepEqual(releaseExhaustionUpdates(exhausted, 1), { isActive: true, exhaustedAt: null });
+  });
+
+  it("keeps coupons deactivated for other reasons", () => {
+    assert.equal(releaseExhaustionUpdates(makeCoupon({ isActive: false, maxUses: 2 }), 1), null);
+    assert.equal(releaseExhaustionUpdates({ ...exhausted, expiredAt: NOW.toISOString() }, 1), null);
+    assert.equal(releaseExhaustionUpdates({ ...exhausted, planLimitedAt: NOW.toISOString() }, 1), null);
+    assert.equal(releaseExhaustionUpdates({ ...exhausted, maxUses: 1 }, 1), null);
+  });
+});
+
+// ── expireCoupons (emulador) ────────────────────────────
+// Corre solo contra el emulador de Firestore, p. ej.:
+// FIRESTORE_EMULATOR_HOST=127.0.0.1:8082 GCLOUD_PROJECT=demo-webgo-challenge npm test
+
+describe("expireCoupons against the Firestore emulator", { skip: !process.env.FIRESTORE_EMULATOR_HOST }, () => {
+  const siteId = `expiry-test-${Date.now()}`;
+  const coupons = db.collection("coupons");
+
+  after(async () => {
+    const [couponDocs, auditDocs] = await Promise.all([
+      coupons.where("siteId", "==", siteId).get(),
+      db.collection("couponAudit").where("siteId", "==", siteId).get(),
+    ]);
+    const shardDocs = await Promise.all(couponDocs.docs.map((doc) => doc.ref.collection("usageShards").get()));
+    const batch = db.batch();
+    [...couponDocs.docs, ...auditDocs.docs, ...shardDocs.flatMap((snapshot) => snapshot.docs)].forEach((doc) =>
+      batch.delete(doc.ref),
+    );
+    await batch.commit();
+  });
+
+  it("deactivates expired and exhausted coupons across pages and is safe to re-run", async () => {
+    const seed = {
+      valid: makeCoupon({ siteId, maxUses: 10, usedCount: 3 }),
+      expiredA: makeCoupon({ siteId, validUntil: "2026-03-01T00:00:00.000Z" }),
+      expiredB: makeCoupon({ siteId, validUntil: "2026-04-01T00:00:00.000Z" }),
+      expiredC: makeCoupon({ siteId, validUntil: "2026-05-01T00:00:00.000Z" }),
+      exhausted: makeCoupon({ siteId, maxUses: 2, usageShards: 2 }),
+      // Cupón de contador único agotado antes de marcarse al aplicar (o por una escritura directa)
+      legacyExhausted: makeCoupon({ siteId, maxUses: 2, usedCount: 2 }),
+      inactive: makeCoupon({ siteId, isActive: false, validUntil: "2026-02-01T00:00:00.000Z" }),
+      archived: makeCoupon({ siteId, isArchived: true, validUntil: "2026-02-01T00:00:00.000Z" }),
+    };
+    for (const [key, { id: _id, ...data }] of Object.entries(seed)) {
+      await coupons.doc(`${siteId}-${key}`).set({ isArchived: false, ...data });
+    }
+    // El total de un cupón repartido está en sus contadores, no en el documento
+    for (const index of [0, 1]) {
+      await coupons
+        .doc(`${siteId}-exhausted`)
+        .collection("usageShards")
+        .doc(String(index))
+        .set({ usedCount: 1, reservedCount: 0, capacity: 1 });
+    }
+
+    // Página de 2 para recorrer más de una página
+    const first = await expireCoupons(NOW, 2);
+    assert.ok(first.expired >= 3);
+    assert.ok(first.exhausted >= 2);
+
+    const read = async (id: string) => (await coupons.doc(`${siteId}-${id}`).get()).data()!;
+    assert.equal((await read("valid")).isActive, true);
+    for (const id of ["expiredA", "expiredB", "expiredC"]) {
+      const data = await read(id);
+      assert.equal(data.isActive, false);
+      assert.equal(data.expiredAt, NOW.toISOString());
+    }
+    for (const id of ["exhausted", "legacyExhausted"]) {
+      assert.equal((await read(id)).exhaustedAt, NOW.toISOString());
+    }
+    assert.equal((await read("inactive")).expiredAt, undefined);
+    assert.equal((await read("archived")).isActive, true);
+
+    const second = await expireCoupons(NOW, 2);
+    assert.deepEqual(second, { expired: 0, exhausted: 0 });
+  });
+});
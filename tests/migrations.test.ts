@@ -0,0 +1,67 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { db } from "../src/lib/firebase.js";
+import { backfillArchivedFlag, needsArchivedFlag } from "../src/functions/coupons/migrations.js";
+
+// ── needsArchivedFlag ───────────────────────────────────
+
+describe("needsArchivedFlag", () => {
+  it("flags only coupons without a boolean isArchived", () => {
+    assert.equal(needsArchivedFlag({ code: "HOLA" }), true);
+    assert.equal(needsArchivedFlag({ code: "HOLA", isArchived: null }), true);
+    assert.equal(needsArchivedFlag({ code: "HOLA", isArchived: false }), false);
+    assert.equal(needsArchivedFlag({ code: "HOLA", isArchived: true }), false);
+    assert.equal(needsArchivedFlag(undefined), false);
+  });
+});
+
+// ── backfillArchivedFlag (emulador) ─────────────────────
+// Corre solo contra el emulador de Firestore, p. ej.:
+// FIRESTORE_EMULATOR_HOST=127.0.0.1:8082 GCLOUD_PROJECT=demo-webgo-challenge npm test
+
+describe("backfillArchivedFlag against the Firestore emulator", { skip: !process.env.FIRESTORE_EMULATOR_HOST }, () => {
+  const siteId = `migration-test-${Date.now()}`;
+  const coupons = db.collection("coupons");
+  const coupon = (key: string, overrides: Record<string, unknown> = {}) =>
+    coupons.doc(`${siteId}-${key}`).set({
+      siteId,
+      code: key.toUpperCase(),
+      isActive: true,
+      updatedAt: "2025-01-01T00:00:00.000Z",
+      ...overrides,
+    });
+
+  before(() =>
+    Promise.all([
+      coupon("legacy-1"),
+      coupon("legacy-2"),
+      coupon("legacy-3"),
+      coupon("archived", { isArchived: true, archivedAt: "2026-01-01T00:00:00.000Z" }),
+      coupon("current", { isArchived: false }),
+    ]),
+  );
+
+  after(async () => {
+    const snapshot = await coupons.where("siteId", "==", siteId).get();
+    await Promise.all(snapshot.docs.map((doc) => doc.ref.delete()));
+  });
+
+  it("backfills legacy coupons across pages so getCoupons lists them again", async () => {
+    // Página de 2 para recorrer varias; otros tests pueden dejar cupones antiguos, así que se cuenta al menos 3
+    assert.ok((await backfillArchivedFlag(2)) >= 3);
+
+    const listed = await coupons.where("siteId", "==", siteId).where("isArchived", "==", false).get();
+    assert.deepEqual(
+      listed.docs.map((doc) => doc.id).sort(),
+      ["current", "legacy-1", "legacy-2", "legacy-3"].map((key) => `${siteId}-${key}`),
+    );
+    const legacy = (await coupons.doc(`${siteId}-legacy-1`).get()).data();
+    assert.equal(legacy?.updatedAt, "2025-01-01T00:00:00.000Z");
+    assert.equal((await coupons.doc(`${siteId}-archived`).get()).get("isArchived"), true);
+
+    // Re-ejecutarla no vuelve a tocar los cupones del sitio
+    await backfillArchivedFlag(2);
+    const again = await coupons.where("siteId", "==", siteId).where("isArchived", "==", false).get();
+    assert.equal(again.size, 4);
+  });
+});
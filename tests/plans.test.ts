@@ -0,0 +1,112 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { DEFAULT_PLANS, resolvePlan, toPlanDocument } from "../src/lib/limits.js";
+import { checkCouponEntitlements, checkPlanFeature } from "../src/functions/coupons/entitlements.js";
+import { ErrorCode } from "../src/types/common.js";
+import type { PlanDocument } from "../src/types/plan.js";
+
+const free: PlanDocument = { id: "free", ...DEFAULT_PLANS.free };
+const tienda: PlanDocument = { id: "tienda", ...DEFAULT_PLANS.tienda };
+
+// ── toPlanDocument ──────────────────────────────────────
+
+describe("toPlanDocument", () => {
+  it("reads a complete plan document", () => {
+    const plan = toPlanDocument("pro", {
+      name: "Pro",
+      couponLimit: 50,
+      features: {
+        discountTypes: ["percentage", "tiered"],
+        campaigns: true,
+        analytics: true,
+        usageShards: false,
+        webhooks: true,
+      },
+    });
+    assert.deepEqual(plan, {
+      id: "pro",
+      name: "Pro",
+      couponLimit: 50,
+      features: {
+        discountTypes: ["percentage", "tiered"],
+        campaigns: true,
+        analytics: true,
+        usageShards: false,
+        webhooks: true,
+      },
+    });
+  });
+
+  it("fills missing or invalid fields from the free plan", () => {
+    const plan = toPlanDocument("pro", { couponLimit: "many", features: { campaigns: true } });
+    assert.equal(plan.name, "pro");
+    assert.equal(plan.couponLimit, DEFAULT_PLANS.free.couponLimit);
+    assert.deepEqual(plan.features.discountTypes, DEFAULT_PLANS.free.features.discountTypes);
+    assert.equal(plan.features.campaigns, true);
+    assert.equal(plan.features.analytics, false);
+    assert.equal(plan.features.webhooks, false);
+  });
+
+  it("drops unknown discount types", () => {
+    const plan = toPlanDocument("pro", { features: { discountTypes: ["percentage", "cashback"] } });
+    assert.deepEqual(plan.features.discountTypes, ["percentage"]);
+  });
+});
+
+// ── resolvePlan ─────────────────────────────────────────
+
+describe("resolvePlan", () => {
+  it("prefers the stored plan document", () => {
+    const plan = resolvePlan("servicio", { servicio: { name: "Servicio+", couponLimit: 20 } });
+    assert.equal(plan.name, "Servicio+");
+    assert.equal(plan.couponLimit, 20);
+  });
+
+  it("uses the built-in plan when the document does not exist yet", () => {
+    assert.deepEqual(resolvePlan("tienda", {}), tienda);
+  });
+
+  it("falls back to the default plan for unknown plan ids", () => {
+    assert.deepEqual(resolvePlan("enterprise", {}), free);
+    assert.equal(resolvePlan("enterprise", { free: { name: "Gratis", couponLimit: 5 } }).couponLimit, 5);
+  });
+});
+
+// ── checkPlanFeature ────────────────────────────────────
+
+describe("checkPlanFeature", () => {
+  it("allows features included in the plan", () => {
+    assert.equal(checkPlanFeature(tienda, "campaigns"), null);
+  });
+
+  it("rejects features outside the plan with FEATURE_NOT_IN_PLAN", () => {
+    const result = checkPlanFeature(free, "analytics");
+    assert.equal(result?.errorCode, ErrorCode.FEATURE_NOT_IN_PLAN);
+    assert.deepEqual(result?.errorDetails, { planId: "free", feature: "analytics" });
+    assert.equal(checkPlanFeature(free, "webhooks")?.errorCode, ErrorCode.FEATURE_NOT_IN_PLAN);
+  });
+});
+
+// ── checkCouponEntitlements ─────────────────────────────
+
+describe("checkCouponEntitlements", () => {
+  it("allows discount types included in the plan", () => {
+    assert.equal(checkCouponEntitlements(free, { discountType: "percentage" }), null);
+  });
+
+  it("rejects discount types outside the plan", () => {
+    const result = checkCouponEntitlements(free, { discountType: "tiered" });
+    assert.equal(result?.errorCode, ErrorCode.FEATURE_NOT_IN_PLAN);
+    assert.equal(result?.errorDetails?.discountType, "tiered");
+  });
+
+  it("checks usageShards only when requested", () => {
+    assert.equal(checkCouponEntitlements(free, { discountType: "fixed", usageShards: null }), null);
+    assert.equal(checkCouponEntitlements(free, { usageShards: 4 })?.errorDetails?.feature, "usageShards");
+    assert.equal(checkCouponEntitlements(tienda, { usageShards: 4 }), null);
+  });
+
+  it("skips fields that a partial update does not send", () => {
+    assert.equal(checkCouponEntitlements(free, {}), null);
+  });
+});
@@ -0,0 +1,402 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  allocateProportionally,
+  buildCart,
+  computeCouponDiscount,
+  isProductEligible,
+  priceCatalogItems,
+  resolveCart,
+  selectRewardUnits,
+  validateCartScope,
+  validateCatalogItems,
+} from "../src/functions/coupons/pricing.js";
+import { ErrorCode } from "../src/types/common.js";
+import type { LineItem } from "../src/types/coupon.js";
+import type { ProductDocument } from "../src/types/product.js";
+import { makeCoupon } from "./fixtures.js";
+
+// ── Helpers ─────────────────────────────────────────────
+
+// Productos del seed (site456)
+const lineItems: LineItem[] = [
+  { productId: "prod001", quantity: 2, unitPrice: 15000 },
+  { productId: "prod002", quantity: 1, unitPrice: 29990 },
+  { productId: "prod003", quantity: 1, unitPrice: 45000 },
+];
+
+function makeProduct(overrides: Partial<ProductDocument> = {}): ProductDocument {
+  return {
+    id: "prod001",
+    siteId: "site456",
+    userId: "user123",
+    name: "Camiseta Básica",
+    price: 15000,
+    stock: 100,
+    status: "active",
+    ...overrides,
+  };
+}
+
+// ── buildCart ───────────────────────────────────────────
+
+describe("buildCart", () => {
+  it("uses cartTotal when no line items are sent", () => {
+    assert.deepEqual(buildCart({ cartTotal: 50000 }), { cartTotal: 50000, shippingCost: 0, lineItems: null });
+  });
+
+  it("derives the total from line items", () => {
+    assert.equal(buildCart({ lineItems }).cartTotal, 104990);
+  });
+});
+
+// ── isProductEligible ───────────────────────────────────
+
+describe("isProductEligible", () => {
+  it("accepts every product when the coupon is not scoped", () => {
+    assert.equal(isProductEligible(makeCoupon(), "prod001"), true);
+  });
+
+  it("accepts only included products", () => {
+    const coupon = makeCoupon({ productIds: ["prod001"] });
+    assert.equal(isProductEligible(coupon, "prod001"), true);
+    assert.equal(isProductEligible(coupon, "prod002"), false);
+  });
+
+  it("rejects excluded products", () => {
+    const coupon = makeCoupon({ excludedProductIds: ["prod003"] });
+    assert.equal(isProductEligible(coupon, "prod003"), false);
+    assert.equal(isProductEligible(coupon, "prod001"), true);
+  });
+});
+
+// ── allocateProportionally ──────────────────────────────
+
+describe("allocateProportionally", () => {
+  it("splits exactly by weight", () => {
+    assert.deepEqual(allocateProportionally(100, [1, 1, 2]), [25, 25, 50]);
+  });
+
+  it("distributes the rounding remainder so the sum is exact", () => {
+    const shares = allocateProportionally(100, [1, 1, 1]);
+    assert.equal(shares.reduce((a, b) => a + b, 0), 100);
+    assert.deepEqual(shares, [34, 33, 33]);
+  });
+
+  it("returns zeros when all weights are zero", () => {
+    assert.deepEqual(allocateProportionally(100, [0, 0]), [0, 0]);
+  });
+});
+
+// ── validateCartScope ───────────────────────────────────
+
+describe("validateCartScope", () => {
+  it("accepts cartTotal-only carts for unscoped coupons", () => {
+    assert.equal(validateCartScope(makeCoupon(), buildCart({ cartTotal: 50000 })), null);
+  });
+
+  it("requires line items for scoped coupons", () => {
+    const result = validateCartScope(makeCoupon({ productIds: ["prod001"] }), buildCart({ cartTotal: 50000 }));
+    assert.equal(result?.errorCode, ErrorCode.LINE_ITEMS_REQUIRED);
+  });
+
+  it("rejects carts without eligible products", () => {
+    const result = validateCartScope(makeCoupon({ productIds: ["prod005"] }), buildCart({ lineItems }));
+    assert.equal(result?.errorCode, ErrorCode.NO_ELIGIBLE_PRODUCTS);
+  });
+});
+
+// ── computeCouponDiscount ───────────────────────────────
+
+describe("computeCouponDiscount", () => {
+  it("discounts the cart total without line items", () => {
+    const result = computeCouponDiscount(makeCoupon(), buildCart({ cartTotal: 50000 }));
+    assert.equal(result.discountAmount, 5000);
+    assert.equal(result.lineBreakdown, null);
+  });
+
+  it("discounts only eligible lines", () => {
+    const coupon = makeCoupon({ productIds: ["prod001", "prod002"] });
+    const result = computeCouponDiscount(coupon, buildCart({ lineItems }));
+    assert.equal(result.discountAmount, 5999);
+    assert.equal(result.lineBreakdown![2].eligible, false);
+    assert.equal(result.lineBreakdown![2].discountAmount, 0);
+  });
+
+  it("breakdown adds up to the total discount", () => {
+    const coupon = makeCoupon({ discountType: "fixed", discountValue: 10000, excludedProductIds: ["prod003"] });
+    const result = computeCouponDiscount(coupon, buildCart({ lineItems }));
+    const sum = result.lineBreakdown!.reduce((acc, line) => acc + line.discountAmount, 0);
+    assert.equal(result.discountAmount, 10000);
+    assert.equal(sum, 10000);
+  });
+
+  it("discounts only shipping for free_shipping coupons", () => {
+    const coupon = makeCoupon({ discountType: "free_shipping", discountValue: 0 });
+    const result = computeCouponDiscount(coupon, buildCart({ cartTotal: 50000, shippingCost: 3990 }));
+    assert.equal(result.shippingDiscount, 3990);
+    assert.equal(result.merchandiseDiscount, 0);
+    assert.equal(result.discountAmount, 3990);
+  });
+
+  it("reports zero line discounts for free_shipping coupons", () => {
+    const coupon = makeCoupon({ discountType: "free_shipping", discountValue: 0 });
+    const result = computeCouponDiscount(coupon, buildCart({ lineItems, shippingCost: 3990 }));
+    assert.equal(result.lineBreakdown!.every((line) => line.discountAmount === 0), true);
+  });
+
+  it("caps fixed discounts at the eligible subtotal", () => {
+    const coupon = makeCoupon({ discountType: "fixed", discountValue: 50000, productIds: ["prod001"] });
+    const result = computeCouponDiscount(coupon, buildCart({ lineItems }));
+    assert.equal(result.discountAmount, 30000);
+  });
+});
+
+// ── validateCatalogItems / priceCatalogItems ────────────
+
+describe("validateCatalogItems", () => {
+  const products = new Map<string, ProductDocument | null>([
+    ["prod001", makeProduct()],
+    ["prod005", makeProduct({ id: "prod005", price: 59990, stock: 2 })],
+    ["prod999", makeProduct({ id: "prod999", siteId: "site999", userId: "user789" })],
+    ["prod404", null],
+    ["prodOff", makeProduct({ id: "prodOff", status: "draft" })],
+  ]);
+  const options = { enforceStock: false };
+
+  it("accepts active products of the site", () => {
+    assert.equal(validateCatalogItems("site456", [{ productId: "prod001", quantity: 3 }], products, options), null);
+  });
+
+  it("rejects missing products", () => {
+    const result = validateCatalogItems("site456", [{ productId: "prod404", quantity: 1 }], products, options);
+    assert.equal(result?.errorCode, ErrorCode.PRODUCT_NOT_FOUND);
+  });
+
+  it("rejects products from another site", () => {
+    const result = validateCatalogItems("site456", [{ productId: "prod999", quantity: 1 }], products, options);
+    assert.equal(result?.errorCode, ErrorCode.PRODUCT_NOT_FOUND);
+    assert.deepEqual(result?.errorDetails, { productIds: ["prod999"] });
+  });
+
+  it("rejects products that are not active", () => {
+    const result = validateCatalogItems("site456", [{ productId: "prodOff", quantity: 1 }], products, options);
+    assert.equal(result?.errorCode, ErrorCode.PRODUCT_UNAVAILABLE);
+  });
+
+  it("ignores stock unless enforceStock is set", () => {
+    assert.equal(validateCatalogItems("site456", [{ productId: "prod005", quantity: 5 }], products, options), null);
+  });
+
+  it("rejects quantities above stock, summing repeated lines", () => {
+    const items = [
+      { productId: "prod005", quantity: 1 },
+      { productId: "prod005", quantity: 2 },
+    ];
+    const result = validateCatalogItems("site456", items, products, { enforceStock: true });
+    assert.equal(result?.errorCode, ErrorCode.INSUFFICIENT_STOCK);
+  });
+
+  it("prices items with the catalog price", () => {
+    const lines = priceCatalogItems([{ productId: "prod005", quantity: 2 }], products);
+    assert.deepEqual(lines, [{ productId: "prod005", quantity: 2, unitPrice: 59990 }]);
+    assert.equal(buildCart({ lineItems: lines }).cartTotal, 119980);
+  });
+});
+
+describe("resolveCart", () => {
+  it("rejects client prices when the site requires catalog pricing", async () => {
+    const settings = { requireCatalogPricing: true };
+    const byTotal = await resolveCart("site456", { cartTotal: 50000 }, settings);
+    const byLines = await resolveCart("site456", { lineItems }, settings);
+    assert.equal("errorCode" in byTotal && byTotal.errorCode, ErrorCode.CATALOG_ITEMS_REQUIRED);
+    assert.equal("errorCode" in byLines && byLines.errorCode, ErrorCode.CATALOG_ITEMS_REQUIRED);
+  });
+
+  it("accepts client prices by default", async () => {
+    const cart = await resolveCart("site456", { cartTotal: 50000 }, { requireCatalogPricing: false });
+    assert.equal("cartTotal" in cart && cart.cartTotal, 50000);
+  });
+});
+
+// ── buy_x_get_y ─────────────────────────────────────────
+
+describe("selectRewardUnits", () => {
+  const shirts = { buyProductIds: ["prod001", "prod004"], getProductIds: ["prod001", "prod004"] };
+
+  it("rewards the cheapest unit once the buy quantity is met", () => {
+    const items = [
+      { productId: "prod001", quantity: 2, unitPrice: 15000 },
+      { productId: "prod004", quantity: 1, unitPrice: 12990 },
+    ];
+    const rewards = selectRewardUnits(items, { ...shirts, buyQuantity: 2, getQuantity: 1 });
+    assert.deepEqual(rewards, [{ lineIndex: 1, productId: "prod004", unitPrice: 12990 }]);
+  });
+
+  it("does not reward when the reward unit would also be needed to qualify", () => {
+    const items = [{ productId: "prod001", quantity: 2, unitPrice: 15000 }];
+    assert.deepEqual(selectRewardUnits(items, { ...shirts, buyQuantity: 2, getQuantity: 1 }), []);
+  });
+
+  it("applies the promotion as many times as the cart allows", () => {
+    const items = [{ productId: "prod001", quantity: 7, unitPrice: 15000 }];
+    assert.equal(selectRewardUnits(items, { ...shirts, buyQuantity: 2, getQuantity: 1 }).length, 2);
+  });
+
+  it("rewards a different product set", () => {
+    const items = [
+      { productId: "prod003", quantity: 1, unitPrice: 45000 },
+      { productId: "prod001", quantity: 1, unitPrice: 15000 },
+    ];
+    const rewards = selectRewardUnits(items, {
+      buyProductIds: ["prod003"],
+      buyQuantity: 1,
+      getProductIds: ["prod001"],
+      getQuantity: 1,
+    });
+    assert.deepEqual(rewards, [{ lineIndex: 1, productId: "prod001", unitPrice: 15000 }]);
+  });
+
+  it("does not reuse the cheapest buy units as rewards", () => {
+    const items = [
+      { productId: "prod004", quantity: 3, unitPrice: 12990 },
+      { productId: "prod003", quantity: 1, unitPrice: 45000 },
+    ];
+    const rewards = selectRewardUnits(items, {
+      buyProductIds: ["prod003", "prod004"],
+      buyQuantity: 2,
+      getProductIds: ["prod004"],
+      getQuantity: 1,
+    });
+    // 2 premiadas dejarían 2 que califican (faltan 4): solo cabe una aplicación
+    assert.deepEqual(rewards, [{ lineIndex: 0, productId: "prod004", unitPrice: 12990 }]);
+  });
+
+  it("counts large quantities per line without expanding the cart", () => {
+    const items = [
+      { productId: "prod001", quantity: 1000, unitPrice: 15000 },
+      { productId: "prod004", quantity: 1000, unitPrice: 12990 },
+    ];
+    const rewards = selectRewardUnits(items, { ...shirts, buyQuantity: 1, getQuantity: 1 });
+    assert.equal(rewards.length, 1000);
+    assert.ok(rewards.every((unit) => unit.lineIndex === 1));
+  });
+
+  it("breaks price ties by line order", () => {
+    const items = [
+      { productId: "prod001", quantity: 1, unitPrice: 15000 },
+      { productId: "prod004", quantity: 2, unitPrice: 15000 },
+    ];
+    const rewards = selectRewardUnits(items, { ...shirts, buyQuantity: 2, getQuantity: 1 });
+    assert.equal(rewards[0].lineIndex, 0);
+  });
+});
+
+describe("computeCouponDiscount (buy_x_get_y)", () => {
+  const coupon = makeCoupon({
+    discountType: "buy_x_get_y",
+    discountValue: 50,
+    buyXGetY: { buyProductIds: ["prod001"], buyQuantity: 2, getProductIds: ["prod001"], getQuantity: 1 },
+  });
+
+  it("discounts the reward percentage on the rewarded units", () => {
+    const cart = buildCart({ lineItems: [{ productId: "prod001", quantity: 3, unitPrice: 15000 }] });
+    const result = computeCouponDiscount(coupon, cart);
+    assert.equal(result.discountAmount, 7500);
+    assert.equal(result.rewardedUnits!.length, 1);
+    assert.equal(result.lineBreakdown![0].discountAmount, 7500);
+  });
+
+  it("requires line items", () => {
+    const result = validateCartScope(coupon, buildCart({ cartTotal: 45000 }));
+    assert.equal(result?.errorCode, ErrorCode.LINE_ITEMS_REQUIRED);
+  });
+
+  it("rejects carts below the buy quantity", () => {
+    const cart = buildCart({ lineItems: [{ productId: "prod001", quantity: 2, unitPrice: 15000 }] });
+    assert.equal(validateCartScope(coupon, cart)?.errorCode, ErrorCode.BUY_QUANTITY_NOT_MET);
+  });
+});
+
+describe("computeCouponDiscount (tiered)", () => {
+  const coupon = makeCoupon({
+    discountType: "tiered",
+    discountValue: 0,
+    tiers: [
+      { minCartTotal: 20000, discountType: "percentage", discountValue: 5 },
+      { minCartTotal: 50000, discountType: "percentage", discountValue: 10 },
+      { minCartTotal: 100000, discountType: "percentage", discountValue: 15 },
+    ],
+  });
+
+  it("applies the highest tier and reports the next one", () => {
+    const result = computeCouponDiscount(coupon, buildCart({ cartTotal: 60000 }));
+    assert.equal(result.discountAmount, 6000);
+    assert.equal(result.appliedTier?.index, 1);
+    assert.equal(result.nextTier?.minCartTotal, 100000);
+    assert.equal(result.nextTier?.amountRemaining, 40000);
+  });
+
+  it("picks the tier with the cart total and discounts only eligible lines", () => {
+    const scoped = { ...coupon, productIds: ["prod001"] };
+    const cart = buildCart({
+      lineItems: [
+        { productId: "prod001", quantity: 1, unitPrice: 20000 },
+        { productId: "prod002", quantity: 1, unitPrice: 40000 },
+      ],
+    });
+    const result = computeCouponDiscount(scoped, cart);
+    assert.equal(result.appliedTier?.index, 1);
+    assert.equal(result.discountAmount, 2000);
+    assert.equal(result.lineBreakdown![1].discountAmount, 0);
+  });
+
+  it("leaves tier fields null for other discount types", () => {
+    const result = computeCouponDiscount(makeCoupon(), buildCart({ cartTotal: 60000 }));
+    assert.equal(result.appliedTier, null);
+    assert.equal(result.nextTier, null);
+  });
+});
+
+describe("computeCouponDiscount (maxDiscountAmount)", () => {
+  it("caps a percentage discount and reports it", () => {
+    const coupon = makeCoupon({ discountValue: 50, maxDiscountAmount: 100000 });
+    const result = computeCouponDiscount(coupon, buildCart({ cartTotal: 2000000 }));
+    assert.equal(result.discountAmount, 100000);
+    assert.equal(result.discountCapped, true);
+  });
+
+  it("does not report the cap when the discount is below it", () => {
+    const coupon = makeCoupon({ discountValue: 10, maxDiscountAmount: 100000 });
+    const result = computeCouponDiscount(coupon, buildCart({ cartTotal: 50000 }));
+    assert.equal(result.discountAmount, 5000);
+    assert.equal(result.discountCapped, false);
+  });
+
+  it("spreads the capped amount across eligible lines", () => {
+    const coupon = makeCoupon({ discountValue: 50, maxDiscountAmount: 9000 });
+    const cart = buildCart({
+      lineItems: [
+        { productId: "prod001", quantity: 1, unitPrice: 20000 },
+        { productId: "prod002", quantity: 1, unitPrice: 10000 },
+      ],
+    });
+    const result = computeCouponDiscount(coupon, cart);
+    assert.deepEqual(result.lineBreakdown!.map((line) => line.discountAmount), [6000, 3000]);
+  });
+
+  it("caps the sum of buy_x_get_y rewarded units", () => {
+    const coupon = makeCoupon({
+      discountType: "buy_x_get_y",
+      discountValue: 100,
+      maxDiscountAmount: 20000,
+      buyXGetY: { buyProductIds: ["prod001"], buyQuantity: 1, getProductIds: ["prod001"], getQuantity: 1 },
+    });
+    const cart = buildCart({ lineItems: [{ productId: "prod001", quantity: 4, unitPrice: 15000 }] });
+    const result = computeCouponDiscount(coupon, cart);
+    assert.equal(result.discountAmount, 20000);
+    assert.equal(result.discountCapped, true);
+    assert.equal(result.rewardedUnits!.reduce((sum, unit) => sum + unit.discountAmount, 0), 20000);
+    assert.equal(result.lineBreakdown![0].discountAmount, 20000);
+  });
+});
@@ -0,0 +1,102 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { CallableRequest } from "firebase-functions/v2/https";
+import { db } from "../src/lib/firebase.js";
+import {
+  applyCouponHandler,
+  getAutomaticPromotionsHandler,
+  reserveCouponHandler,
+} from "../src/functions/coupons/handlers.js";
+import { ErrorCode } from "../src/types/common.js";
+
+// ── Promociones automáticas (emulador) ──────────────────
+// Corre solo contra el emulador de Firestore, p. ej.:
+// FIRESTORE_EMULATOR_HOST=127.0.0.1:8082 GCLOUD_PROJECT=demo-webgo-challenge npm test
+
+describe("automatic promotions against the Firestore emulator", { skip: !process.env.FIRESTORE_EMULATOR_HOST }, () => {
+  const siteId = `promotion-test-${Date.now()}`;
+  const userId = `${siteId}-owner`;
+  const coupons = db.collection("coupons");
+
+  const checkout = { uid: `storefront-${siteId}`, token: { uid: `storefront-${siteId}`, siteId } };
+  const request = (data: Record<string, unknown>, auth: unknown = checkout) =>
+    ({ data: { siteId, ...data }, auth }) as unknown as CallableRequest<unknown>;
+
+  const createPromotion = (key: string, overrides: Record<string, unknown> = {}) =>
+    coupons.doc(`${siteId}-${key}`).set({
+      siteId,
+      userId,
+      code: null,
+      isAutomatic: true,
+      name: `Promo ${key}`,
+      discountType: "percentage",
+      discountValue: 10,
+      usedCount: 0,
+      validFrom: "2020-01-01T00:00:00.000Z",
+      validUntil: "2099-12-31T23:59:59.000Z",
+      isActive: true,
+      isArchived: false,
+      createdAt: "2026-01-01T00:00:00.000Z",
+      updatedAt: "2026-01-01T00:00:00.000Z",
+      ...overrides,
+    });
+
+  before(async () => {
+    await db.collection("sites").doc(siteId).set({ userId });
+    await Promise.all([
+      createPromotion("weekend", { maxUses: 1, minPurchase: 10000 }),
+      createPromotion("paused", { isActive: false }),
+      createPromotion("big-cart", { minPurchase: 50000, priority: 5 }),
+    ]);
+  });
+
+  after(async () => {
+    const snapshots = await Promise.all(
+      ["coupons", "redemptions", "reservations", "couponStats", "couponAudit"].map((name) =>
+        db.collection(name).where("siteId", "==", siteId).get(),
+      ),
+    );
+    await Promise.all(snapshots.flatMap((snapshot) => snapshot.docs.map((doc) => doc.ref.delete())));
+    await db.collection("sites").doc(siteId).delete();
+  });
+
+  it("lists only the active promotions the cart qualifies for, without a session", async () => {
+    const result = await getAutomaticPromotionsHandler(request({ cartTotal: 20000 }, undefined));
+    assert.deepEqual(
+      result.data?.promotions.map((promotion) => promotion.couponId),
+      [`${siteId}-weekend`],
+    );
+    assert.equal(result.data?.promotions[0].code, null);
+    assert.equal(result.data?.promotions[0].discountAmount, 2000);
+
+    const bigCart = await getAutomaticPromotionsHandler(request({ cartTotal: 60000 }, undefined));
+    assert.deepEqual(
+      bigCart.data?.promotions.map((promotion) => promotion.couponId),
+      [`${siteId}-big-cart`, `${siteId}-weekend`],
+    );
+  });
+
+  it("reserves a promotion by couponId and reports it without a code", async () => {
+    const reserved = await reserveCouponHandler(request({ couponId: `${siteId}-big-cart`, cartTotal: 60000 }));
+    assert.equal(reserved.error, null);
+    assert.equal(reserved.data?.code, null);
+    assert.equal(reserved.data?.couponId, `${siteId}-big-cart`);
+  });
+
+  it("applies a promotion by couponId with the same usage accounting as a coded coupon", async () => {
+    const couponId = `${siteId}-weekend`;
+    const applied = await applyCouponHandler(request({ couponId, orderId: "order-1", cartTotal: 20000 }));
+    assert.equal(applied.error, null);
+    assert.equal(applied.data?.usedCount, 1);
+
+    const redemption = (await db.collection("redemptions").where("siteId", "==", siteId).get()).docs[0].data();
+    assert.equal(redemption.couponId, couponId);
+    assert.equal(redemption.code, null);
+
+    // Sin cupos la promoción deja de listarse y de aplicarse
+    const listed = await getAutomaticPromotionsHandler(request({ cartTotal: 20000 }, undefined));
+    assert.deepEqual(listed.data?.promotions, []);
+    const second = await applyCouponHandler(request({ couponId, orderId: "order-2", cartTotal: 20000 }));
+    assert.equal(second.errorCode, ErrorCode.COUPON_MAX_USES);
+  });
+});
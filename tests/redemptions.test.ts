@@ -0,0 +1,159 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { CallableRequest } from "firebase-functions/v2/https";
+import { db } from "../src/lib/firebase.js";
+import {
+  applyCouponHandler,
+  revertCouponRedemptionHandler,
+  updateCouponHandler,
+  updateSiteSettingsHandler,
+  validateCouponHandler,
+} from "../src/functions/coupons/handlers.js";
+import { ErrorCode } from "../src/types/common.js";
+
+// ── applyCoupon idempotente (emulador) ──────────────────
+// Corre solo contra el emulador de Firestore, p. ej.:
+// FIRESTORE_EMULATOR_HOST=127.0.0.1:8082 GCLOUD_PROJECT=demo-webgo-challenge npm test
+
+describe("idempotent apply and revert against the Firestore emulator", { skip: !process.env.FIRESTORE_EMULATOR_HOST }, () => {
+  const siteId = `redemption-test-${Date.now()}`;
+  const userId = `${siteId}-owner`;
+  const coupons = db.collection("coupons");
+
+  // El checkout llama con la credencial del sitio; revertir es una operación del dueño
+  const checkout = { uid: `storefront-${siteId}`, token: { uid: `storefront-${siteId}`, siteId } };
+  const owner = { uid: userId, token: { uid: userId } };
+  const request = (data: Record<string, unknown>, auth: unknown = checkout) =>
+    ({ data: { siteId, ...data }, auth }) as unknown as CallableRequest<unknown>;
+
+  const createCoupon = (key: string, overrides: Record<string, unknown> = {}) =>
+    coupons.doc(`${siteId}-${key}`).set({
+      siteId,
+      userId,
+      code: key.toUpperCase(),
+      discountType: "percentage",
+      discountValue: 10,
+      usedCount: 0,
+      validFrom: "2020-01-01T00:00:00.000Z",
+      validUntil: "2099-12-31T23:59:59.000Z",
+      isActive: true,
+      isArchived: false,
+      createdAt: "2026-01-01T00:00:00.000Z",
+      updatedAt: "2026-01-01T00:00:00.000Z",
+      ...overrides,
+    });
+  const usedCount = async (key: string) => (await coupons.doc(`${siteId}-${key}`).get()).get("usedCount");
+
+  before(() => db.collection("sites").doc(siteId).set({ userId }));
+
+  after(async () => {
+    const snapshots = await Promise.all(
+      ["coupons", "redemptions", "couponStats", "couponAudit"].map((name) =>
+        db.collection(name).where("siteId", "==", siteId).get(),
+      ),
+    );
+    await Promise.all(snapshots.flatMap((snapshot) => snapshot.docs.map((doc) => doc.ref.delete())));
+    await db.collection("sites").doc(siteId).delete();
+  });
+
+  it("returns the original result when the same order is applied twice", async () => {
+    await createCoupon("unuso", { maxUses: 1 });
+    const couponId = `${siteId}-unuso`;
+
+    const first = await applyCouponHandler(request({ couponId, orderId: "order-1", cartTotal: 20000 }));
+    const retry = await applyCouponHandler(request({ couponId, orderId: "order-1", cartTotal: 20000 }));
+    assert.equal(first.error, null);
+    assert.deepEqual(retry.data, first.data);
+    assert.equal(await usedCount("unuso"), 1);
+
+    // La misma orden con otro cupón se rechaza
+    await createCoupon("otro");
+    const replay = await applyCouponHandler(
+      request({ couponId: `${siteId}-otro`, orderId: "order-1", cartTotal: 20000 }),
+    );
+    assert.equal(replay.errorCode, ErrorCode.ORDER_ALREADY_REDEEMED);
+    assert.equal(await usedCount("otro"), 0);
+  });
+
+  it("frees the use on revert without letting the reverted order apply again", async () => {
+    await createCoupon("revert", { maxUses: 1 });
+    const couponId = `${siteId}-revert`;
+    await applyCouponHandler(request({ couponId, orderId: "order-r", cartTotal: 20000 }));
+    const exhausted = (await coupons.doc(couponId).get()).data();
+    assert.equal(exhausted?.isActive, false);
+    assert.equal(typeof exhausted?.exhaustedAt, "string");
+
+    const revert = () => revertCouponRedemptionHandler(request({ orderId: "order-r", reason: "Cancelada" }, owner));
+    assert.equal((await revert()).data?.status, "reverted");
+    assert.equal((await revert()).data?.status, "reverted");
+    assert.equal(await usedCount("revert"), 0);
+    // El uso que lo había agotado lo desactivó; al liberarse vuelve a estar disponible
+    const released = (await coupons.doc(couponId).get()).data();
+    assert.equal(released?.isActive, true);
+    assert.equal(released?.exhaustedAt, null);
+
+    const reapplied = await applyCouponHandler(request({ couponId, orderId: "order-r", cartTotal: 20000 }));
+    assert.equal(reapplied.errorCode, ErrorCode.REDEMPTION_REVERTED);
+
+    // El uso liberado lo puede tomar otra orden
+    const next = await applyCouponHandler(request({ couponId, orderId: "order-r2", cartTotal: 20000 }));
+    assert.equal(next.error, null);
+    assert.equal(await usedCount("revert"), 1);
+  });
+
+  it("marks a coupon exhausted when the owner lowers maxUses to its usedCount", async () => {
+    await createCoupon("limite", { maxUses: 10, usedCount: 3 });
+    const couponId = `${siteId}-limite`;
+
+    const updated = await updateCouponHandler(request({ couponId, maxUses: 3 }, owner));
+    assert.equal(updated.error, null);
+    assert.equal(updated.data?.isActive, false);
+    const stored = (await coupons.doc(couponId).get()).data();
+    assert.equal(stored?.isActive, false);
+    assert.equal(stored?.exhaustedAt, updated.data?.exhaustedAt);
+
+    const applied = await applyCouponHandler(request({ couponId, orderId: "order-l", cartTotal: 20000 }));
+    assert.equal(applied.errorCode, ErrorCode.COUPON_MAX_USES);
+  });
+
+  it("rejects carts priced by the client once the site requires catalog pricing", async () => {
+    await createCoupon("catalogo");
+    const couponId = `${siteId}-catalogo`;
+
+    const settings = await updateSiteSettingsHandler(request({ requireCatalogPricing: true }, owner));
+    assert.deepEqual(settings.data, { requireCatalogPricing: true });
+    try {
+      const validated = await validateCouponHandler(request({ code: "CATALOGO", cartTotal: 20000 }));
+      const applied = await applyCouponHandler(
+        request({ couponId, orderId: "order-c", lineItems: [{ productId: "p1", quantity: 1, unitPrice: 20000 }] }),
+      );
+      assert.equal(validated.errorCode, ErrorCode.CATALOG_ITEMS_REQUIRED);
+      assert.equal(applied.errorCode, ErrorCode.CATALOG_ITEMS_REQUIRED);
+      assert.equal(await usedCount("catalogo"), 0);
+    } finally {
+      await updateSiteSettingsHandler(request({ requireCatalogPricing: false }, owner));
+    }
+
+    // El checkout no puede cambiar la configuración
+    const denied = await updateSiteSettingsHandler(request({ requireCatalogPricing: false }));
+    assert.equal(denied.errorCode, ErrorCode.FORBIDDEN);
+  });
+
+  it("counts each customer once across retries of the same order", async () => {
+    await createCoupon("cliente", { maxUsesPerCustomer: 1 });
+    const couponId = `${siteId}-cliente`;
+    const apply = (orderId: string, customerId: string) =>
+      applyCouponHandler(request({ couponId, orderId, customerId, cartTotal: 20000 }));
+
+    assert.equal((await apply("order-c1", "Ana@Example.com")).error, null);
+    assert.equal((await apply("order-c1", "ana@example.com")).error, null);
+    assert.equal(await usedCount("cliente"), 1);
+
+    const second = await apply("order-c2", "ana@example.com");
+    assert.equal(second.errorCode, ErrorCode.CUSTOMER_MAX_USES);
+
+    // Revertir la orden devuelve el uso al cliente
+    await revertCouponRedemptionHandler(request({ orderId: "order-c1", reason: "Cancelada" }, owner));
+    assert.equal((await apply("order-c3", "ana@example.com")).error, null);
+  });
+});
@@ -0,0 +1,203 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { CallableRequest } from "firebase-functions/v2/https";
+import { db } from "../src/lib/firebase.js";
+import { applyCouponsHandler } from "../src/functions/coupons/handlers.js";
+import {
+  checkReservation,
+  isReservationHeld,
+  releaseExpiredReservations,
+  reservationExpiresAt,
+} from "../src/functions/coupons/reservations.js";
+import { ErrorCode } from "../src/types/common.js";
+import type { CouponReservationDocument } from "../src/types/reservation.js";
+
+const NOW = new Date("2026-06-15T12:00:00.000Z");
+
+// ── reservationExpiresAt ────────────────────────────────
+
+describe("reservationExpiresAt", () => {
+  it("adds the TTL to the reservation time", () => {
+    assert.equal(reservationExpiresAt(NOW, 600), "2026-06-15T12:10:00.000Z");
+  });
+});
+
+// ── isReservationHeld ───────────────────────────────────
+
+describe("isReservationHeld", () => {
+  const now = NOW.toISOString();
+
+  it("holds active reservations until they expire", () => {
+    assert.equal(isReservationHeld({ status: "active", expiresAt: "2026-06-15T12:00:01.000Z" }, now), true);
+  });
+
+  it("releases active reservations at their expiry time", () => {
+    assert.equal(isReservationHeld({ status: "active", expiresAt: now }, now), false);
+  });
+
+  it("does not hold confirmed or expired reservations", () => {
+    assert.equal(isReservationHeld({ status: "confirmed", expiresAt: "2026-06-15T13:00:00.000Z" }, now), false);
+    assert.equal(isReservationHeld({ status: "expired", expiresAt: "2026-06-15T13:00:00.000Z" }, now), false);
+  });
+});
+
+// ── checkReservation ────────────────────────────────────
+
+describe("checkReservation", () => {
+  const now = NOW.toISOString();
+  const reservation: CouponReservationDocument = {
+    id: "reservation-1",
+    siteId: "site456",
+    couponId: "coupon001",
+    customerId: "ana@example.com",
+    status: "active",
+    expiresAt: "2026-06-15T12:10:00.000Z",
+    usageShard: null,
+    orderId: null,
+    confirmedAt: null,
+    createdAt: "2026-06-15T11:55:00.000Z",
+    updatedAt: "2026-06-15T11:55:00.000Z",
+  };
+  const expected = { siteId: "site456", couponIds: ["coupon001", "coupon002"], customerId: "ana@example.com" };
+  const errorCode = (value: CouponReservationDocument | null, overrides: Partial<typeof expected> = {}) =>
+    checkReservation(value, { ...expected, ...overrides }, now)?.errorCode;
+
+  it("accepts a held reservation of one of the order's coupons", () => {
+    assert.equal(checkReservation(reservation, expected, now), null);
+  });
+
+  it("rejects missing reservations and those of another site or coupon", () => {
+    assert.equal(errorCode(null), ErrorCode.RESERVATION_NOT_FOUND);
+    assert.equal(errorCode(reservation, { siteId: "other-site" }), ErrorCode.RESERVATION_NOT_FOUND);
+    assert.equal(errorCode(reservation, { couponIds: ["coupon002"] }), ErrorCode.RESERVATION_NOT_FOUND);
+  });
+
+  it("rejects used, foreign and expired reservations", () => {
+    assert.equal(errorCode({ ...reservation, status: "confirmed", orderId: "o1" }), ErrorCode.RESERVATION_ALREADY_USED);
+    assert.equal(errorCode(reservation, { customerId: "otro@example.com" }), ErrorCode.FORBIDDEN);
+    assert.equal(errorCode({ ...reservation, expiresAt: now }), ErrorCode.RESERVATION_EXPIRED);
+  });
+});
+
+// ── releaseExpiredReservations (emulador) ───────────────
+// Corre solo contra el emulador de Firestore, p. ej.:
+// FIRESTORE_EMULATOR_HOST=127.0.0.1:8082 GCLOUD_PROJECT=demo-webgo-challenge npm test
+
+describe("releaseExpiredReservations against the Firestore emulator", { skip: !process.env.FIRESTORE_EMULATOR_HOST }, () => {
+  const siteId = `reservation-test-${Date.now()}`;
+  const couponRef = db.collection("coupons").doc(`${siteId}-coupon`);
+  const reservations = db.collection("reservations");
+
+  after(async () => {
+    const reservationDocs = await reservations.where("siteId", "==", siteId).get();
+    const batch = db.batch();
+    [...reservationDocs.docs.map((doc) => doc.ref), couponRef].forEach((ref) => batch.delete(ref));
+    await batch.commit();
+  });
+
+  it("releases the slots of expired reservations only, and is safe to re-run", async () => {
+    await couponRef.set({ siteId, maxUses: 3, usedCount: 0, reservedCount: 3 });
+    const reservation = (key: string, status: string, expiresAt: string) =>
+      reservations.doc(`${siteId}-${key}`).set({ siteId, couponId: couponRef.id, status, expiresAt });
+    await reservation("expiredA", "active", "2026-06-15T11:50:00.000Z");
+    await reservation("expiredB", "active", "2026-06-15T11:55:00.000Z");
+    await reservation("held", "active", "2026-06-15T12:05:00.000Z");
+    await reservation("confirmed", "confirmed", "2026-06-15T11:40:00.000Z");
+
+    // Página de 1 para recorrer más de una página
+    assert.equal(await releaseExpiredReservations(NOW, 1), 2);
+
+    const read = async (key: string) => (await reservations.doc(`${siteId}-${key}`).get()).get("status");
+    assert.equal(await read("expiredA"), "expired");
+    assert.equal(await read("expiredB"), "expired");
+    assert.equal(await read("held"), "active");
+    assert.equal(await read("confirmed"), "confirmed");
+    assert.equal((await couponRef.get()).get("reservedCount"), 1);
+
+    assert.equal(await releaseExpiredReservations(NOW, 1), 0);
+  });
+});
+
+describe("applyCoupons reservations against the Firestore emulator", { skip: !process.env.FIRESTORE_EMULATOR_HOST }, () => {
+  const siteId = `reservation-stack-test-${Date.now()}`;
+  const coupons = db.collection("coupons");
+  const reservations = db.collection("reservations");
+
+  const checkout = { uid: `storefront-${siteId}`, token: { uid: `storefront-${siteId}`, siteId } };
+  const apply = (data: Record<string, unknown>) =>
+    applyCouponsHandler({ data: { siteId, cartTotal: 20000, ...data }, auth: checkout } as unknown as CallableRequest<unknown>);
+
+  // Un cupón con su único uso reservado por `reservationKey`
+  const reservedCoupon = async (key: string, reservationKey: string, expiresAt: string) => {
+    await coupons.doc(`${siteId}-${key}`).set({
+      siteId,
+      userId: `${siteId}-owner`,
+      code: key.toUpperCase(),
+      discountType: "percentage",
+      discountValue: 10,
+      usedCount: 0,
+      reservedCount: 1,
+      maxUses: 1,
+      validFrom: "2020-01-01T00:00:00.000Z",
+      validUntil: "2099-12-31T23:59:59.000Z",
+      isActive: true,
+      isArchived: false,
+      createdAt: "2026-01-01T00:00:00.000Z",
+      updatedAt: "2026-01-01T00:00:00.000Z",
+    });
+    await reservations.doc(`${siteId}-${reservationKey}`).set({
+      siteId,
+      couponId: `${siteId}-${key}`,
+      customerId: null,
+      status: "active",
+      expiresAt,
+      usageShard: null,
+      orderId: null,
+      confirmedAt: null,
+      createdAt: "2026-01-01T00:00:00.000Z",
+      updatedAt: "2026-01-01T00:00:00.000Z",
+    });
+  };
+  const read = async (ref: FirebaseFirestore.DocumentReference) => (await ref.get()).data()!;
+
+  before(() => db.collection("sites").doc(siteId).set({ userId: `${siteId}-owner` }));
+
+  after(async () => {
+    const snapshots = await Promise.all(
+      ["coupons", "reservations", "redemptions", "couponStats", "couponAudit"].map((name) =>
+        db.collection(name).where("siteId", "==", siteId).get(),
+      ),
+    );
+    await Promise.all(snapshots.flatMap((snapshot) => snapshot.docs.map((doc) => doc.ref.delete())));
+    await db.collection("sites").doc(siteId).delete();
+  });
+
+  it("releases an expired reservation holding the last slot before checking maxUses", async () => {
+    await reservedCoupon("vencida", "stale", "2020-01-01T00:00:00.000Z");
+
+    const result = await apply({ couponIds: [`${siteId}-vencida`], orderId: "order-1" });
+    assert.equal(result.error, null);
+    assert.equal((await read(reservations.doc(`${siteId}-stale`))).status, "expired");
+    const coupon = await read(coupons.doc(`${siteId}-vencida`));
+    assert.equal(coupon.usedCount, 1);
+    assert.equal(coupon.reservedCount, 0);
+  });
+
+  it("confirms the reservation sent for a coupon instead of checking maxUses again", async () => {
+    await reservedCoupon("reservada", "held", "2099-01-01T00:00:00.000Z");
+    const couponIds = [`${siteId}-reservada`];
+
+    const withoutReservation = await apply({ couponIds, orderId: "order-2" });
+    assert.equal(withoutReservation.errorCode, ErrorCode.COUPON_MAX_USES);
+
+    const result = await apply({ couponIds, orderId: "order-3", reservationIds: [`${siteId}-held`] });
+    assert.equal(result.error, null);
+    const reservation = await read(reservations.doc(`${siteId}-held`));
+    assert.equal(reservation.status, "confirmed");
+    assert.equal(reservation.orderId, "order-3");
+    assert.equal((await read(coupons.doc(`${siteId}-reservada`))).reservedCount, 0);
+
+    const reused = await apply({ couponIds, orderId: "order-4", reservationIds: [`${siteId}-held`] });
+    assert.equal(reused.errorCode, ErrorCode.RESERVATION_ALREADY_USED);
+  });
+});
@@ -7,6 +7,16 @@ import {
   deleteCouponSchema,
   validateCouponSchema,
   applyCouponSchema,
+  revertCouponRedemptionSchema,
+  validateCouponsSchema,
+  applyCouponsSchema,
+  getAutomaticPromotionsSchema,
+  getBestCouponsSchema,
+  getCouponStatsSchema,
+  getCouponHistorySchema,
+  restoreCouponSchema,
+  reserveCouponSchema,
+  updateSiteSettingsSchema,
 } from "../src/functions/coupons/schemas.js";
 
 const validBase = {
@@ -26,11 +36,80 @@ describe("createCouponSchema", () => {
     assert.equal(result.success, true);
   });
 
+  it("stores validity dates in UTC", () => {
+    const result = createCouponSchema.safeParse(validBase);
+    assert.equal(result.success, true);
+    if (result.success) {
+      assert.equal(result.data.validFrom, "2026-01-01T03:00:00.000Z");
+      assert.equal(result.data.validUntil, "2027-01-01T02:59:59.000Z");
+    }
+  });
+
   it("accepts valid fixed coupon", () => {
     const result = createCouponSchema.safeParse({ ...validBase, discountType: "fixed", discountValue: 5000 });
     assert.equal(result.success, true);
   });
 
+  it("accepts free_shipping coupon without discountValue", () => {
+    const { discountValue: _omit, ...rest } = validBase;
+    const result = createCouponSchema.safeParse({ ...rest, discountType: "free_shipping", minPurchase: 30000 });
+    assert.equal(result.success, true);
+  });
+
+  it("rejects free_shipping coupon with discountValue", () => {
+    const result = createCouponSchema.safeParse({ ...validBase, discountType: "free_shipping" });
+    assert.equal(result.success, false);
+  });
+
+  it("rejects percentage coupon without discountValue", () => {
+    const { discountValue: _omit, ...rest } = validBase;
+    const result = createCouponSchema.safeParse(rest);
+    assert.equal(result.success, false);
+  });
+
+  it("accepts a coherent buy_x_get_y coupon", () => {
+    const result = createCouponSchema.safeParse({
+      ...validBase,
+      discountType: "buy_x_get_y",
+      discountValue: 100,
+      buyXGetY: { buyProductIds: ["prod001"], buyQuantity: 2, getProductIds: ["prod001"], getQuantity: 1 },
+    });
+    assert.equal(result.success, true);
+  });
+
+  it("rejects buy_x_get_y without configuration", () => {
+    const result = createCouponSchema.safeParse({ ...validBase, discountType: "buy_x_get_y", discountValue: 50 });
+    assert.equal(result.success, false);
+  });
+
+  it("rejects buy_x_get_y reward above 100%", () => {
+    const result = createCouponSchema.safeParse({
+      ...validBase,
+      discountType: "buy_x_get_y",
+      discountValue: 150,
+      buyXGetY: { buyProductIds: ["prod001"], buyQuantity: 2, getProductIds: ["prod001"], getQuantity: 1 },
+    });
+    assert.equal(result.success, false);
+  });
+
+  it("rejects buy_x_get_y with zero quantities", () => {
+    const result = createCouponSchema.safeParse({
+      ...validBase,
+      discountType: "buy_x_get_y",
+      discountValue: 50,
+      buyXGetY: { buyProductIds: ["prod001"], buyQuantity: 0, getProductIds: ["prod001"], getQuantity: 1 },
+    });
+    assert.equal(result.success, false);
+  });
+
+  it("rejects buyXGetY on other discount types", () => {
+    const result = createCouponSchema.safeParse({
+      ...validBase,
+      buyXGetY: { buyProductIds: ["prod001"], buyQuantity: 2, getProductIds: ["prod001"], getQuantity: 1 },
+    });
+    assert.equal(result.success, false);
+  });
+
   it("accepts optional minPurchase and maxUses", () => {
     const result = createCouponSchema.safeParse({ ...validBase, minPurchase: 10000, maxUses: 50 });
     assert.equal(result.success, true);
@@ -85,10 +164,158 @@ describe("createCouponSchema", () => {
     assert.equal(result.success, false);
   });
 
+  it("accepts included and excluded product lists", () => {
+    const result = createCouponSchema.safeParse({
+      ...validBase,
+      productIds: ["prod001", "prod002"],
+      excludedProductIds: ["prod003"],
+    });
+    assert.equal(result.success, true);
+  });
+
+  it("rejects a product both included and excluded", () => {
+    const result = createCouponSchema.safeParse({
+      ...validBase,
+      productIds: ["prod001"],
+      excludedProductIds: ["prod001"],
+    });
+    assert.equal(result.success, false);
+  });
+
+  it("rejects an empty product list", () => {
+    const result = createCouponSchema.safeParse({ ...validBase, productIds: [] });
+    assert.equal(result.success, false);
+  });
+
+  it("accepts optional maxUsesPerCustomer", () => {
+    const result = createCouponSchema.safeParse({ ...validBase, maxUsesPerCustomer: 1 });
+    assert.equal(result.success, true);
+  });
+
+  it("rejects non-integer maxUsesPerCustomer", () => {
+    const result = createCouponSchema.safeParse({ ...validBase, maxUsesPerCustomer: 1.5 });
+    assert.equal(result.success, false);
+  });
+
   it("rejects negative minPurchase", () => {
     const result = createCouponSchema.safeParse({ ...validBase, minPurchase: -100 });
     assert.equal(result.success, false);
   });
+
+  it("accepts maxDiscountAmount on a percentage coupon", () => {
+    const result = createCouponSchema.safeParse({ ...validBase, maxDiscountAmount: 20000 });
+    assert.equal(result.success, true);
+  });
+
+  it("rejects maxDiscountAmount on a fixed coupon", () => {
+    const result = createCouponSchema.safeParse({
+      ...validBase,
+      discountType: "fixed",
+      discountValue: 5000,
+      maxDiscountAmount: 20000,
+    });
+    assert.equal(result.success, false);
+  });
+
+  it("accepts an automatic promotion without code", () => {
+    const { code: _code, ...rest } = validBase;
+    const result = createCouponSchema.safeParse({ ...rest, isAutomatic: true, name: "10% fin de semana" });
+    assert.equal(result.success, true);
+  });
+
+  it("rejects an automatic promotion with code", () => {
+    const result = createCouponSchema.safeParse({ ...validBase, isAutomatic: true, name: "Promo" });
+    assert.equal(result.success, false);
+  });
+
+  it("rejects an automatic promotion without name", () => {
+    const { code: _code, ...rest } = validBase;
+    const result = createCouponSchema.safeParse({ ...rest, isAutomatic: true });
+    assert.equal(result.success, false);
+  });
+
+  it("rejects a regular coupon without code", () => {
+    const { code: _code, ...rest } = validBase;
+    const result = createCouponSchema.safeParse(rest);
+    assert.equal(result.success, false);
+  });
+
+  it("accepts public visibility", () => {
+    const result = createCouponSchema.safeParse({ ...validBase, visibility: "public" });
+    assert.equal(result.success, true);
+  });
+
+  it("rejects an unknown visibility", () => {
+    const result = createCouponSchema.safeParse({ ...validBase, visibility: "hidden" });
+    assert.equal(result.success, false);
+  });
+
+  it("accepts stacking fields", () => {
+    const result = createCouponSchema.safeParse({
+      ...validBase,
+      stackable: true,
+      priority: 5,
+      exclusiveGroup: "bienvenida",
+    });
+    assert.equal(result.success, true);
+  });
+
+  it("rejects non-integer priority", () => {
+    const result = createCouponSchema.safeParse({ ...validBase, priority: 1.5 });
+    assert.equal(result.success, false);
+  });
+
+  it("rejects non-positive maxDiscountAmount", () => {
+    const result = createCouponSchema.safeParse({ ...validBase, maxDiscountAmount: 0 });
+    assert.equal(result.success, false);
+  });
+
+  describe("tiered", () => {
+    const tieredBase = {
+      ...validBase,
+      discountType: "tiered",
+      discountValue: undefined,
+      tiers: [
+        { minCartTotal: 20000, discountType: "percentage", discountValue: 5 },
+        { minCartTotal: 50000, discountType: "fixed", discountValue: 8000 },
+      ],
+    };
+
+    it("accepts ascending tiers without discountValue", () => {
+      assert.equal(createCouponSchema.safeParse(tieredBase).success, true);
+    });
+
+    it("rejects tiered without tiers", () => {
+      const result = createCouponSchema.safeParse({ ...tieredBase, tiers: undefined });
+      assert.equal(result.success, false);
+    });
+
+    it("rejects discountValue on tiered", () => {
+      const result = createCouponSchema.safeParse({ ...tieredBase, discountValue: 10 });
+      assert.equal(result.success, false);
+    });
+
+    it("rejects tiers that are not strictly ascending", () => {
+      const result = createCouponSchema.safeParse({
+        ...tieredBase,
+        tiers: [tieredBase.tiers[1], tieredBase.tiers[0]],
+      });
+      assert.equal(result.success, false);
+    });
+
+    it("rejects a percentage tier over 100", () => {
+      const result = createCouponSchema.safeParse({
+        ...tieredBase,
+        tiers: [{ minCartTotal: 0, discountType: "percentage", discountValue: 120 }],
+      });
+      assert.equal(result.success, false);
+    });
+
+    it("rejects tiers on other discount types", () => {
+      const result = createCouponSchema.safeParse({ ...validBase, tiers: tieredBase.tiers });
+      assert.equal(result.success, false);
+    });
+  });
 });
 
 // ── getCouponsSchema ───────────────────────────────────────
@@ -108,6 +335,60 @@ describe("getCouponsSchema", () => {
     const result = getCouponsSchema.safeParse({});
     assert.equal(result.success, false);
   });
+
+  it("defaults page size and sorting", () => {
+    const result = getCouponsSchema.safeParse({ siteId: "site456" });
+    assert.equal(result.success, true);
+    if (result.success) {
+      assert.equal(result.data.pageSize, 20);
+      assert.equal(result.data.archived, false);
+      assert.equal(result.data.sortBy, "createdAt");
+      assert.equal(result.data.sortDirection, "desc");
+    }
+  });
+
+  it("rejects pageSize above the maximum", () => {
+    const result = getCouponsSchema.safeParse({ siteId: "site456", pageSize: 101 });
+    assert.equal(result.success, false);
+  });
+
+  it("rejects unknown sort fields", () => {
+    const result = getCouponsSchema.safeParse({ siteId: "site456", sortBy: "code" });
+    assert.equal(result.success, false);
+  });
+
+  it("uppercases codePrefix", () => {
+    const result = getCouponsSchema.safeParse({ siteId: "site456", codePrefix: " bien " });
+    assert.equal(result.success, true);
+    if (result.success) assert.equal(result.data.codePrefix, "BIEN");
+  });
+
+  it("normalizes validityRange to UTC", () => {
+    const result = getCouponsSchema.safeParse({
+      siteId: "site456",
+      validityRange: { from: "2026-01-01T00:00:00-03:00", to: "2026-01-31T23:59:59-03:00" },
+    });
+    assert.equal(result.success, true);
+    if (result.success) {
+      assert.deepEqual(result.data.validityRange, {
+        from: "2026-01-01T03:00:00.000Z",
+        to: "2026-02-01T02:59:59.000Z",
+      });
+    }
+  });
+
+  it("rejects validityRange with from after to", () => {
+    const result = getCouponsSchema.safeParse({
+      siteId: "site456",
+      validityRange: { from: "2026-02-01T00:00:00Z", to: "2026-01-01T00:00:00Z" },
+    });
+    assert.equal(result.success, false);
+  });
+
+  it("rejects codePrefix combined with date filters", () => {
+    const result = getCouponsSchema.safeParse({ siteId: "site456", codePrefix: "BIEN", expired: false });
+    assert.equal(result.success, false);
+  });
 });
 
 // ── updateCouponSchema ─────────────────────────────────────
@@ -170,6 +451,30 @@ describe("updateCouponSchema", () => {
     const result = updateCouponSchema.safeParse({ ...updateBase, maxUses: null });
     assert.equal(result.success, true);
   });
+
+  it("allows nullable maxUsesPerCustomer", () => {
+    const result = updateCouponSchema.safeParse({ ...updateBase, maxUsesPerCustomer: null });
+    assert.equal(result.success, true);
+  });
+
+  it("allows nullable maxDiscountAmount", () => {
+    const result = updateCouponSchema.safeParse({ ...updateBase, maxDiscountAmount: null });
+    assert.equal(result.success, true);
+  });
+
+  it("rejects maxDiscountAmount when switching to fixed", () => {
+    const result = updateCouponSchema.safeParse({ ...updateBase, discountType: "fixed", maxDiscountAmount: 5000 });
+    assert.equal(result.success, false);
+  });
+
+  it("rejects tiers when switching to another type", () => {
+    const result = updateCouponSchema.safeParse({
+      ...updateBase,
+      discountType: "fixed",
+      tiers: [{ minCartTotal: 0, discountType: "fixed", discountValue: 1000 }],
+    });
+    assert.equal(result.success, false);
+  });
 });
 
 // ── deleteCouponSchema ─────────────────────────────────────
@@ -189,6 +494,37 @@ describe("deleteCouponSchema", () => {
     const result = deleteCouponSchema.safeParse({ siteId: "", couponId: "coupon001" });
     assert.equal(result.success, false);
   });
+
+  it("archives by default", () => {
+    const result = deleteCouponSchema.safeParse({ siteId: "site456", couponId: "coupon001" });
+    assert.equal(result.success, true);
+    if (result.success) assert.equal(result.data.permanent, false);
+  });
+
+  it("accepts permanent purge", () => {
+    const result = deleteCouponSchema.safeParse({ siteId: "site456", couponId: "coupon001", permanent: true });
+    assert.equal(result.success, true);
+    if (result.success) assert.equal(result.data.permanent, true);
+  });
+});
+
+// ── restoreCouponSchema ────────────────────────────────────
+
+describe("restoreCouponSchema", () => {
+  it("requires siteId and couponId", () => {
+    assert.equal(restoreCouponSchema.safeParse({ siteId: "site456", couponId: "coupon001" }).success, true);
+    assert.equal(restoreCouponSchema.safeParse({ siteId: "site456" }).success, false);
+  });
+});
+
+// ── updateSiteSettingsSchema ───────────────────────────────
+
+describe("updateSiteSettingsSchema", () => {
+  it("requires requireCatalogPricing as a boolean", () => {
+    assert.equal(updateSiteSettingsSchema.safeParse({ siteId: "site456", requireCatalogPricing: true }).success, true);
+    assert.equal(updateSiteSettingsSchema.safeParse({ siteId: "site456" }).success, false);
+    assert.equal(updateSiteSettingsSchema.safeParse({ siteId: "site456", requireCatalogPricing: "yes" }).success, false);
+  });
 });
 
 // ── validateCouponSchema ───────────────────────────────────
@@ -209,10 +545,98 @@ describe("validateCouponSchema", () => {
     assert.equal(result.success, false);
   });
 
+  it("accepts shippingCost", () => {
+    const result = validateCouponSchema.safeParse({ siteId: "site456", code: "TEST", cartTotal: 100, shippingCost: 3990 });
+    assert.equal(result.success, true);
+  });
+
+  it("rejects negative shippingCost", () => {
+    const result = validateCouponSchema.safeParse({ siteId: "site456", code: "TEST", cartTotal: 100, shippingCost: -1 });
+    assert.equal(result.success, false);
+  });
+
   it("rejects missing code", () => {
     const result = validateCouponSchema.safeParse({ siteId: "site456", cartTotal: 50000 });
     assert.equal(result.success, false);
   });
+
+  it("accepts lineItems instead of cartTotal", () => {
+    const result = validateCouponSchema.safeParse({
+      siteId: "site456",
+      code: "TEST",
+      lineItems: [{ productId: "prod001", quantity: 2, unitPrice: 15000 }],
+    });
+    assert.equal(result.success, true);
+  });
+
+  it("rejects both cartTotal and lineItems", () => {
+    const result = validateCouponSchema.safeParse({
+      siteId: "site456",
+      code: "TEST",
+      cartTotal: 30000,
+      lineItems: [{ productId: "prod001", quantity: 2, unitPrice: 15000 }],
+    });
+    assert.equal(result.success, false);
+  });
+
+  it("accepts catalog items without prices", () => {
+    const result = validateCouponSchema.safeParse({
+      siteId: "site456",
+      code: "TEST",
+      items: [{ productId: "prod001", quantity: 2 }],
+      enforceStock: true,
+    });
+    assert.equal(result.success, true);
+  });
+
+  it("rejects catalog items together with cartTotal", () => {
+    const result = validateCouponSchema.safeParse({
+      siteId: "site456",
+      code: "TEST",
+      cartTotal: 30000,
+      items: [{ productId: "prod001", quantity: 2 }],
+    });
+    assert.equal(result.success, false);
+  });
+
+  it("rejects non-integer line quantity", () => {
+    const result = validateCouponSchema.safeParse({
+      siteId: "site456",
+      code: "TEST",
+      lineItems: [{ productId: "prod001", quantity: 1.5, unitPrice: 15000 }],
+    });
+    assert.equal(result.success, false);
+  });
+
+  it("caps line quantity and the number of cart lines", () => {
+    const tooMany = validateCouponSchema.safeParse({
+      siteId: "site456",
+      code: "TEST",
+      lineItems: [{ productId: "prod001", quantity: 1001, unitPrice: 15000 }],
+    });
+    assert.equal(tooMany.success, false);
+
+    const line = { productId: "prod001", quantity: 1 };
+    const lines = (count: number) => Array.from({ length: count }, () => line);
+    assert.equal(validateCouponSchema.safeParse({ siteId: "site456", code: "TEST", items: lines(100) }).success, true);
+    assert.equal(validateCouponSchema.safeParse({ siteId: "site456", code: "TEST", items: lines(101) }).success, false);
+  });
+
+  it("normalizes customerId", () => {
+    const result = validateCouponSchema.safeParse({
+      siteId: "site456",
+      code: "TEST",
+      cartTotal: 50000,
+      customerId: "  Ana@Mail.CL ",
+    });
+    assert.equal(result.success, true);
+    assert.equal(result.data!.customerId, "ana@mail.cl");
+  });
+
+  it("rejects blank customerId", () => {
+    const result = validateCouponSchema.safeParse({ siteId: "site456", code: "TEST", cartTotal: 50000, customerId: "  " });
+    assert.equal(result.success, false);
+  });
 });
 
 // ── applyCouponSchema ──────────────────────────────────────
@@ -256,4 +680,195 @@ describe("applyCouponSchema", () => {
     });
     assert.equal(result.success, false);
   });
+
+  it("accepts an optional reservationId", () => {
+    const base = { siteId: "site456", couponId: "coupon001", orderId: "order-001", cartTotal: 50000 };
+    assert.equal(applyCouponSchema.safeParse({ ...base, reservationId: "res-1" }).success, true);
+    assert.equal(applyCouponSchema.safeParse({ ...base, reservationId: "" }).success, false);
+  });
+});
+
+// ── reserveCouponSchema ────────────────────────────────────
+
+describe("reserveCouponSchema", () => {
+  const reserveBase = { siteId: "site456", couponId: "coupon001", cartTotal: 50000 };
+
+  it("defaults ttlSeconds to 10 minutes", () => {
+    const result = reserveCouponSchema.safeParse(reserveBase);
+    assert.equal(result.success, true);
+    if (result.success) assert.equal(result.data.ttlSeconds, 600);
+  });
+
+  it("rejects ttlSeconds outside 1 to 60 minutes", () => {
+    assert.equal(reserveCouponSchema.safeParse({ ...reserveBase, ttlSeconds: 30 }).success, false);
+    assert.equal(reserveCouponSchema.safeParse({ ...reserveBase, ttlSeconds: 3601 }).success, false);
+    assert.equal(reserveCouponSchema.safeParse({ ...reserveBase, ttlSeconds: 120.5 }).success, false);
+  });
+
+  it("requires exactly one cart input", () => {
+    const { cartTotal: _cartTotal, ...noCart } = reserveBase;
+    assert.equal(reserveCouponSchema.safeParse(noCart).success, false);
+  });
+});
+
+// ── revertCouponRedemptionSchema ───────────────────────────
+
+describe("revertCouponRedemptionSchema", () => {
+  const revertBase = { siteId: "site456", orderId: "order-001", reason: "Orden cancelada" };
+
+  it("accepts a full revert", () => {
+    const result = revertCouponRedemptionSchema.safeParse(revertBase);
+    assert.equal(result.success, true);
+  });
+
+  it("accepts a partial refund with refundId", () => {
+    const result = revertCouponRedemptionSchema.safeParse({ ...revertBase, refundAmount: 15000, refundId: "rf-1" });
+    assert.equal(result.success, true);
+  });
+
+  it("rejects a partial refund without refundId", () => {
+    const result = revertCouponRedemptionSchema.safeParse({ ...revertBase, refundAmount: 15000 });
+    assert.equal(result.success, false);
+  });
+
+  it("rejects missing reason", () => {
+    const result = revertCouponRedemptionSchema.safeParse({ siteId: "site456", orderId: "order-001" });
+    assert.equal(result.success, false);
+  });
+
+  it("rejects non-positive refundAmount", () => {
+    const result = revertCouponRedemptionSchema.safeParse({ ...revertBase, refundAmount: 0, refundId: "rf-1" });
+    assert.equal(result.success, false);
+  });
+});
+
+// ── validateCouponsSchema ───────────────────────────────
+
+describe("validateCouponsSchema", () => {
+  it("accepts several codes and deduplicates them case-insensitively", () => {
+    const result = validateCouponsSchema.safeParse({
+      siteId: "site456",
+      codes: ["welcome10", "WELCOME10", "ENVIOGRATIS"],
+      cartTotal: 50000,
+    });
+    assert.equal(result.success, true);
+    if (result.success) assert.deepEqual(result.data.codes, ["WELCOME10", "ENVIOGRATIS"]);
+  });
+
+  it("rejects an empty code list", () => {
+    const result = validateCouponsSchema.safeParse({ siteId: "site456", codes: [], cartTotal: 50000 });
+    assert.equal(result.success, false);
+  });
+
+  it("rejects more codes than the stacking limit", () => {
+    const codes = ["A", "B", "C", "D", "E", "F"];
+    const result = validateCouponsSchema.safeParse({ siteId: "site456", codes, cartTotal: 50000 });
+    assert.equal(result.success, false);
+  });
+
+  it("requires a single cart input", () => {
+    const result = validateCouponsSchema.safeParse({ siteId: "site456", codes: ["WELCOME10"] });
+    assert.equal(result.success, false);
+  });
+});
+
+// ── applyCouponsSchema ──────────────────────────────────
+
+describe("applyCouponsSchema", () => {
+  it("accepts coupon ids with an order", () => {
+    const result = applyCouponsSchema.safeParse({
+      siteId: "site456",
+      couponIds: ["coupon001", "coupon002"],
+      orderId: "order-1",
+      cartTotal: 50000,
+    });
+    assert.equal(result.success, true);
+  });
+
+  it("rejects missing orderId", () => {
+    const result = applyCouponsSchema.safeParse({ siteId: "site456", couponIds: ["coupon001"], cartTotal: 50000 });
+    assert.equal(result.success, false);
+  });
+
+  it("accepts reservation ids and drops duplicates", () => {
+    const result = applyCouponsSchema.safeParse({
+      siteId: "site456",
+      couponIds: ["coupon001", "coupon002"],
+      orderId: "order-1",
+      cartTotal: 50000,
+      reservationIds: ["reservation-1", "reservation-1"],
+    });
+    assert.equal(result.success, true);
+    assert.deepEqual(result.data?.reservationIds, ["reservation-1"]);
+  });
+});
+
+// ── getAutomaticPromotionsSchema ────────────────────────
+
+describe("getAutomaticPromotionsSchema", () => {
+  it("accepts a cart", () => {
+    const result = getAutomaticPromotionsSchema.safeParse({ siteId: "site456", cartTotal: 50000 });
+    assert.equal(result.success, true);
+  });
+
+  it("requires a cart input", () => {
+    const result = getAutomaticPromotionsSchema.safeParse({ siteId: "site456" });
+    assert.equal(result.success, false);
+  });
+});
+
+// ── getBestCouponsSchema ────────────────────────────────
+
+describe("getBestCouponsSchema", () => {
+  it("accepts line items with a customer", () => {
+    const result = getBestCouponsSchema.safeParse({
+      siteId: "site456",
+      lineItems: [{ productId: "prod001", quantity: 1, unitPrice: 15000 }],
+      customerId: "Ana@Mail.cl",
+    });
+    assert.equal(result.success, true);
+  });
+
+  it("rejects missing siteId", () => {
+    const result = getBestCouponsSchema.safeParse({ cartTotal: 50000 });
+    assert.equal(result.success, false);
+  });
+});
+
+// ── getCouponStatsSchema ───────────────────────────────────
+
+describe("getCouponStatsSchema", () => {
+  const statsBase = { siteId: "site456", from: "2026-03-01", to: "2026-03-31" };
+
+  it("accepts a site-wide range", () => {
+    assert.equal(getCouponStatsSchema.safeParse(statsBase).success, true);
+  });
+
+  it("accepts a couponId", () => {
+    assert.equal(getCouponStatsSchema.safeParse({ ...statsBase, couponId: "coupon001" }).success, true);
+  });
+
+  it("rejects non-existent dates", () => {
+    assert.equal(getCouponStatsSchema.safeParse({ ...statsBase, to: "2026-02-30" }).success, false);
+  });
+
+  it("rejects from after to", () => {
+    assert.equal(getCouponStatsSchema.safeParse({ ...statsBase, from: "2026-04-01" }).success, false);
+  });
+
+  it("rejects ranges longer than 366 days", () => {
+    assert.equal(getCouponStatsSchema.safeParse({ ...statsBase, from: "2025-01-01", to: "2026-01-01" }).success, true);
+    assert.equal(getCouponStatsSchema.safeParse({ ...statsBase, from: "2025-01-01", to: "2026-01-02" }).success, false);
+  });
+});
+
+// ── getCouponHistorySchema ─────────────────────────────────
+
+describe("getCouponHistorySchema", () => {
+  it("requires couponId and defaults pageSize", () => {
+    assert.equal(getCouponHistorySchema.safeParse({ siteId: "site456" }).success, false);
+    const result = getCouponHistorySchema.safeParse({ siteId: "site456", couponId: "coupon001" });
+    assert.equal(result.success, true);
+    if (result.success) assert.equal(result.data.pageSize, 20);
+  });
 });
@@ -0,0 +1,261 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { DocumentReference, DocumentSnapshot, Transaction } from "firebase-admin/firestore";
+import type { CallableRequest } from "firebase-functions/v2/https";
+import { db } from "../src/lib/firebase.js";
+import { buildCouponData, toCouponDocument } from "../src/functions/coupons/helpers.js";
+import { applyCouponHandler, getCouponsHandler, revertCouponRedemptionHandler } from "../src/functions/coupons/handlers.js";
+import {
+  hasShardCapacity,
+  loadCouponDocuments,
+  loadUsageShards,
+  planUsageShards,
+  splitCapacity,
+  writeUsageShards,
+} from "../src/functions/coupons/sharding.js";
+import { applyRedemptionStats, couponStatsRef } from "../src/functions/coupons/stats.js";
+import { ErrorCode } from "../src/types/common.js";
+import type { UsageShard } from "../src/types/coupon.js";
+import type { RedemptionDocument } from "../src/types/redemption.js";
+
+// ── Helpers ─────────────────────────────────────────────
+
+function shard(usedCount: number, reservedCount: number, capacity: number | null): UsageShard {
+  return { usedCount, reservedCount, capacity };
+}
+
+function makeSnapshot(data: Record<string, unknown>): DocumentSnapshot {
+  return { id: "coupon001", exists: true, data: () => data } as unknown as DocumentSnapshot;
+}
+
+/**
+ * Corre `work` registrando los documentos que escribe cada intento de transacción de `db`.
+ * Retorna las rutas escritas por intento.
+ */
+async function trackTransactionWrites(work: () => Promise<unknown>): Promise<string[][]> {
+  const attempts: string[][] = [];
+  const runTransaction = db.runTransaction;
+  db.runTransaction = ((updateFunction: (transaction: Transaction) => Promise<unknown>, options?: object) =>
+    runTransaction.call(
+      db,
+      (transaction) => {
+        const paths: string[] = [];
+        attempts.push(paths);
+        const tracked = new Proxy(transaction, {
+          get(target, property, receiver) {
+            const value = Reflect.get(target, property, receiver);
+            if (!["set", "update", "create", "delete"].includes(String(property))) {
+              return typeof value === "function" ? value.bind(target) : value;
+            }
+            return (ref: DocumentReference, ...args: unknown[]) => {
+              paths.push(ref.path);
+              return (value as (...params: unknown[]) => Transaction).call(target, ref, ...args);
+            };
+          },
+        });
+        return updateFunction(tracked);
+      },
+      options,
+    )) as typeof db.runTransaction;
+  try {
+    await work();
+  } finally {
+    db.runTransaction = runTransaction;
+  }
+  return attempts;
+}
+
+// ── splitCapacity ───────────────────────────────────────
+
+describe("splitCapacity", () => {
+  it("spreads the remainder over the first shards", () => {
+    assert.deepEqual(splitCapacity(10, 3), [4, 3, 3]);
+  });
+
+  it("leaves shards empty when there are fewer uses than shards", () => {
+    assert.deepEqual(splitCapacity(2, 4), [1, 1, 0, 0]);
+  });
+});
+
+// ── hasShardCapacity ────────────────────────────────────
+
+describe("hasShardCapacity", () => {
+  it("counts reservations against the shard capacity", () => {
+    assert.equal(hasShardCapacity(shard(2, 0, 3)), true);
+    assert.equal(hasShardCapacity(shard(2, 1, 3)), false);
+  });
+
+  it("never fills shards of coupons without maxUses", () => {
+    assert.equal(hasShardCapacity(shard(1000, 5, null)), true);
+  });
+});
+
+// ── planUsageShards ─────────────────────────────────────
+
+describe("planUsageShards", () => {
+  it("splits maxUses across new shards", () => {
+    const plan = planUsageShards({ usedCount: 0, reservedCount: 0, maxUses: 10, shards: [] }, 3);
+    assert.deepEqual(plan, { usedCount: 0, shards: [shard(0, 0, 4), shard(0, 0, 3), shard(0, 0, 3)] });
+  });
+
+  it("only hands out what is left after the coupon's own uses and reservations", () => {
+    const plan = planUsageShards({ usedCount: 6, reservedCount: 1, maxUses: 10, shards: [] }, 2);
+    assert.deepEqual(plan, { usedCount: 6, shards: [shard(0, 0, 2), shard(0, 0, 1)] });
+  });
+
+  it("keeps used and reserved slots when maxUses is lowered, so capacity never exceeds it", () => {
+    const current = { usedCount: 0, reservedCount: 0, maxUses: 5, shards: [shard(3, 0, 4), shard(0, 1, 3), shard(0, 0, 3)] };
+    const plan = planUsageShards(current, 3);
+    assert.ok("shards" in plan);
+    assert.deepEqual(plan.shards.map((s) => s.capacity), [4, 1, 0]);
+    assert.equal(plan.shards.reduce((sum, s) => sum + s.capacity!, 0), 5);
+  });
+
+  it("folds the uses of removed shards into the coupon", () => {
+    const current = { usedCount: 2, reservedCount: 0, maxUses: 20, shards: [shard(3, 0, 6), shard(4, 0, 6), shard(5, 0, 6)] };
+    assert.deepEqual(planUsageShards(current, null), { usedCount: 14, shards: [] });
+  });
+
+  it("refuses to remove shards that hold reservations", () => {
+    const current = { usedCount: 0, reservedCount: 0, maxUses: 10, shards: [shard(0, 0, 5), shard(1, 1, 5)] };
+    assert.ok("error" in planUsageShards(current, null));
+  });
+
+  it("leaves capacity unlimited for coupons without maxUses", () => {
+    const plan = planUsageShards({ usedCount: 7, reservedCount: 0, maxUses: null, shards: [] }, 2);
+    assert.deepEqual(plan, { usedCount: 7, shards: [shard(0, 0, null), shard(0, 0, null)] });
+  });
+});
+
+// ── toCouponDocument con contadores ─────────────────────
+
+describe("toCouponDocument with usage shards", () => {
+  const data = {
+    ...buildCouponData(
+      { discountType: "percentage", discountValue: 10, maxUses: 10, usageShards: 2, validFrom: "", validUntil: "" },
+      { siteId: "site456", userId: "user123", code: "FLASH", now: "2026-01-01T00:00:00.000Z" },
+    ),
+    usedCount: 1,
+  };
+
+  it("sums the shards into usedCount and reservedCount", () => {
+    const coupon = toCouponDocument(makeSnapshot(data), [shard(3, 1, 5), shard(2, 0, 4)]);
+    assert.equal(coupon.usedCount, 6);
+    assert.equal(coupon.reservedCount, 1);
+  });
+
+  it("returns the stored counts when the shards are not given", () => {
+    assert.equal(toCouponDocument(makeSnapshot(data)).usedCount, 1);
+  });
+});
+
+// ── Prueba de carga (emulador) ──────────────────────────
+// Corre solo contra el emulador de Firestore, p. ej.:
+// FIRESTORE_EMULATOR_HOST=127.0.0.1:8082 GCLOUD_PROJECT=demo-webgo-challenge npm test
+
+describe("sharded applyCoupon under concurrent load", { skip: !process.env.FIRESTORE_EMULATOR_HOST }, () => {
+  const siteId = `sharding-test-${Date.now()}`;
+  const userId = `${siteId}-owner`;
+  const couponRef = db.collection("coupons").doc(`${siteId}-flash`);
+  const MAX_USES = 25;
+  const SHARDS = 5;
+  const ATTEMPTS = 60;
+
+  // Los compradores llaman con la credencial del checkout del sitio (claim `siteId`)
+  const request = (data: Record<string, unknown>, uid: string) =>
+    ({ data: { siteId, ...data }, auth: { uid, token: { uid, siteId } } }) as unknown as CallableRequest<unknown>;
+
+  after(async () => {
+    const [redemptions, stats, statsEvents] = await Promise.all([
+      db.collection("redemptions").where("siteId", "==", siteId).get(),
+      db.collection("couponStats").where("siteId", "==", siteId).get(),
+      db.collection("couponStatsEvents").where("siteId", "==", siteId).get(),
+    ]);
+    const shards = await couponRef.collection("usageShards").get();
+    const refs = [...redemptions.docs, ...stats.docs, ...statsEvents.docs, ...shards.docs].map((doc) => doc.ref);
+    await Promise.all(refs.map((ref) => ref.delete()));
+    await Promise.all([couponRef.delete(), db.collection("sites").doc(siteId).delete()]);
+  });
+
+  it("never oversells maxUses and sums the shards on read", async () => {
+    await db.collection("sites").doc(siteId).set({ userId });
+    const couponData = buildCouponData(
+      {
+        discountType: "percentage",
+        discountValue: 10,
+        maxUses: MAX_USES,
+        usageShards: SHARDS,
+        validFrom: "2020-01-01T00:00:00.000Z",
+        validUntil: "2099-12-31T23:59:59.000Z",
+      },
+      { siteId, userId, code: "FLASH", now: new Date().toISOString() },
+    );
+    const plan = planUsageShards({ usedCount: 0, reservedCount: 0, maxUses: MAX_USES, shards: [] }, SHARDS);
+    assert.ok("shards" in plan);
+    await db.runTransaction(async (transaction) => {
+      transaction.set(couponRef, couponData);
+      writeUsageShards(transaction, couponRef.id, 0, plan.shards);
+    });
+
+    let results: Awaited<ReturnType<typeof applyCouponHandler>>[] = [];
+    const attempts = await trackTransactionWrites(async () => {
+      results = await Promise.all(
+        Array.from({ length: ATTEMPTS }, (_, i) =>
+          applyCouponHandler(
+            request({ couponId: couponRef.id, orderId: `order-${i}`, cartTotal: 10000 }, `buyer-${i}`),
+          ),
+        ),
+      );
+    });
+
+    // Ningún uso escribe un documento común a todos: ni el cupón ni los rollups de estadísticas,
+    // solo su contador y su propio registro de uso
+    const written = attempts.flat();
+    assert.ok(written.length > 0);
+    assert.ok(!written.includes(couponRef.path));
+    const ownWrite = (path: string) =>
+      path.startsWith(`${couponRef.path}/usageShards/`) || path.startsWith("redemptions/");
+    assert.ok(written.every(ownWrite));
+
+    const applied = results.filter((result) => result.data !== null);
+    const rejected = results.filter((result) => result.data === null);
+    assert.equal(applied.length, MAX_USES);
+    assert.ok(rejected.every((result) => result.errorCode === ErrorCode.COUPON_MAX_USES));
+
+    const [couponDoc] = await db.getAll(couponRef);
+    const [coupon] = await loadCouponDocuments([couponDoc]);
+    assert.equal(coupon.usedCount, MAX_USES);
+    const shards = (await loadUsageShards([couponDoc])).get(couponRef.id)!;
+    assert.ok(shards.every((s) => s.usedCount <= s.capacity!));
+
+    // Los rollups se suman después, una vez por evento del trigger aunque se reintente
+    const redemptionDocs = (await db.collection("redemptions").where("siteId", "==", siteId).get()).docs;
+    for (const doc of redemptionDocs) {
+      const redemption = doc.data() as RedemptionDocument;
+      const eventId = `${siteId}-${doc.id}`;
+      assert.equal(await applyRedemptionStats(eventId, undefined, redemption, redemption.createdAt), true);
+      assert.equal(await applyRedemptionStats(eventId, undefined, redemption, redemption.createdAt), false);
+    }
+    const total = await couponStatsRef(siteId, couponRef.id, null).get();
+    assert.equal(total.get("redemptionCount"), MAX_USES);
+
+    // Revertir un uso libera el cupo en su contador, y otro comprador puede tomarlo
+    const orderId = applied[0].data!.orderId;
+    const reverted = await revertCouponRedemptionHandler(request({ orderId, reason: "Orden cancelada" }, userId));
+    assert.equal(reverted.error, null);
+    const retry = await applyCouponHandler(
+      request({ couponId: couponRef.id, orderId: "order-retry", cartTotal: 10000 }, "buyer-retry"),
+    );
+    assert.equal(retry.error, null);
+    assert.equal((await loadCouponDocuments([await couponRef.get()]))[0].usedCount, MAX_USES);
+  });
+
+  it("refuses to sort the site's coupons by the stale stored usedCount", async () => {
+    const owner = { data: { siteId, sortBy: "usedCount" }, auth: { uid: userId, token: { uid: userId } } };
+    const sorted = await getCouponsHandler(owner as unknown as CallableRequest<unknown>);
+    assert.equal(sorted.errorCode, ErrorCode.INVALID_INPUT);
+
+    const byDate = await getCouponsHandler({ ...owner, data: { siteId } } as unknown as CallableRequest<unknown>);
+    assert.equal(byDate.error, null);
+  });
+});
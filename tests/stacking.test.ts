@@ -0,0 +1,143 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { couponLabel } from "../src/functions/coupons/helpers.js";
+import { buildCart, computeCouponDiscount } from "../src/functions/coupons/pricing.js";
+import { initialBalance, limitToBalance, resolveCouponStack } from "../src/functions/coupons/stacking.js";
+import { DEFAULT_PLANS } from "../src/lib/limits.js";
+import { ErrorCode } from "../src/types/common.js";
+import type { CouponDocument } from "../src/types/coupon.js";
+import type { PlanDocument } from "../src/types/plan.js";
+import { makeCoupon } from "./fixtures.js";
+
+// ── Helpers ─────────────────────────────────────────────
+
+const welcome = makeCoupon({ id: "c1", code: "WELCOME10", stackable: true });
+const shipping = makeCoupon({
+  id: "c2",
+  code: "ENVIOGRATIS",
+  discountType: "free_shipping",
+  discountValue: 0,
+  stackable: true,
+});
+const fixed = makeCoupon({ id: "c3", code: "MENOS5000", discountType: "fixed", discountValue: 5000, stackable: true });
+
+function candidate(coupon: CouponDocument) {
+  return { code: couponLabel(coupon), coupon };
+}
+
+// ── limitToBalance ──────────────────────────────────────
+
+describe("limitToBalance", () => {
+  it("caps each line at what remains of it", () => {
+    const cart = buildCart({
+      lineItems: [
+        { productId: "prod001", quantity: 1, unitPrice: 10000 },
+        { productId: "prod002", quantity: 1, unitPrice: 10000 },
+      ],
+    });
+    const discount = computeCouponDiscount(makeCoupon({ discountValue: 50 }), cart);
+    const result = limitToBalance(discount, { merchandise: 12000, shipping: 0, lines: [2000, 10000] });
+    assert.deepEqual(result.lineBreakdown!.map((line) => line.discountAmount), [2000, 5000]);
+    assert.equal(result.merchandiseDiscount, 7000);
+    assert.equal(result.discountAmount, 7000);
+  });
+
+  it("leaves the discount untouched on a fresh cart", () => {
+    const cart = buildCart({ cartTotal: 50000, shippingCost: 3990 });
+    const discount = computeCouponDiscount(shipping, cart);
+    assert.deepEqual(limitToBalance(discount, initialBalance(cart)), discount);
+  });
+});
+
+// ── resolveCouponStack ──────────────────────────────────
+
+describe("resolveCouponStack", () => {
+  it("combines a shipping promo with a welcome discount", () => {
+    const cart = buildCart({ cartTotal: 50000, shippingCost: 3990 });
+    const stack = resolveCouponStack([candidate(welcome), candidate(shipping)], cart);
+    assert.equal(stack.rejected.length, 0);
+    assert.equal(stack.merchandiseDiscount, 5000);
+    assert.equal(stack.shippingDiscount, 3990);
+    assert.equal(stack.finalTotal, 45000);
+  });
+
+  it("applies coupons by priority, keeping request order on ties", () => {
+    const cart = buildCart({ cartTotal: 50000 });
+    const stack = resolveCouponStack(
+      [candidate(welcome), candidate(shipping), candidate({ ...fixed, priority: 10 })],
+      cart,
+    );
+    assert.deepEqual(stack.coupons.map((c) => c.code), ["MENOS5000", "WELCOME10", "ENVIOGRATIS"]);
+  });
+
+  it("rejects everything after a non-stackable coupon", () => {
+    const cart = buildCart({ cartTotal: 50000 });
+    const exclusive = { ...fixed, stackable: false, priority: 1 };
+    const stack = resolveCouponStack([candidate(welcome), candidate(exclusive)], cart);
+    assert.deepEqual(stack.coupons.map((c) => c.code), ["MENOS5000"]);
+    assert.equal(stack.rejected[0].code, "WELCOME10");
+    assert.equal(stack.rejected[0].errorCode, ErrorCode.COUPON_NOT_STACKABLE);
+  });
+
+  it("rejects a non-stackable coupon after an accepted one", () => {
+    const cart = buildCart({ cartTotal: 50000 });
+    const stack = resolveCouponStack([candidate(welcome), candidate({ ...fixed, stackable: false })], cart);
+    assert.deepEqual(stack.coupons.map((c) => c.code), ["WELCOME10"]);
+    assert.equal(stack.rejected[0].errorCode, ErrorCode.COUPON_NOT_STACKABLE);
+  });
+
+  it("treats coupons without the flag as non-stackable", () => {
+    const cart = buildCart({ cartTotal: 50000 });
+    const legacy = { ...fixed, stackable: undefined };
+    const stack = resolveCouponStack([candidate(welcome), candidate(legacy)], cart);
+    assert.equal(stack.rejected[0].errorCode, ErrorCode.COUPON_NOT_STACKABLE);
+  });
+
+  it("keeps only one coupon per exclusive group", () => {
+    const cart = buildCart({ cartTotal: 50000 });
+    const stack = resolveCouponStack(
+      [candidate({ ...welcome, exclusiveGroup: "bienvenida" }), candidate({ ...fixed, exclusiveGroup: "bienvenida" })],
+      cart,
+    );
+    assert.deepEqual(stack.coupons.map((c) => c.code), ["WELCOME10"]);
+    assert.equal(stack.rejected[0].errorCode, ErrorCode.COUPON_GROUP_CONFLICT);
+  });
+
+  it("explains unknown and ineligible codes", () => {
+    const cart = buildCart({ cartTotal: 10000 });
+    const stack = resolveCouponStack(
+      [
+        { code: "NOEXISTE", coupon: null },
+        candidate({ ...fixed, minPurchase: 20000 }),
+        candidate(welcome),
+      ],
+      cart,
+    );
+    assert.deepEqual(
+      stack.rejected.map((r) => [r.code, r.errorCode]),
+      [
+        ["NOEXISTE", ErrorCode.COUPON_NOT_FOUND],
+        ["MENOS5000", ErrorCode.MIN_PURCHASE_NOT_MET],
+      ],
+    );
+    assert.equal(stack.rejected[0].couponId, null);
+    assert.equal(stack.coupons.length, 1);
+  });
+
+  it("rejects coupons whose discount type the site's plan no longer includes", () => {
+    const free: PlanDocument = { id: "free", ...DEFAULT_PLANS.free };
+    const tiered = makeCoupon({ id: "c5", code: "ESCALONADO", discountType: "tiered", stackable: true });
+    const stack = resolveCouponStack([candidate(tiered), candidate(shipping)], buildCart({ cartTotal: 10000 }), {
+      plan: free,
+    });
+    assert.deepEqual(stack.rejected.map((r) => [r.code, r.errorCode]), [["ESCALONADO", ErrorCode.FEATURE_NOT_IN_PLAN]]);
+    assert.deepEqual(stack.coupons.map((c) => c.code), ["ENVIOGRATIS"]);
+  });
+
+  it("never discounts more than the cart", () => {
+    const cart = buildCart({ cartTotal: 8000 });
+    const stack = resolveCouponStack([candidate(fixed), candidate({ ...fixed, id: "c4", code: "OTRO5000" })], cart);
+    assert.deepEqual(stack.coupons.map((c) => c.discountAmount), [5000, 3000]);
+    assert.equal(stack.finalTotal, 0);
+  });
+});
@@ -0,0 +1,197 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { WriteBatch } from "firebase-admin/firestore";
+import {
+  couponStatsRef,
+  applyRedemptionStats,
+  dateRange,
+  EMPTY_TOTALS,
+  recordStatsChange,
+  redemptionStats,
+  statsDate,
+  summarizeStats,
+  sumSeries,
+} from "../src/functions/coupons/stats.js";
+import type { ApplyCouponResult, ApplyCouponsResult } from "../src/types/coupon.js";
+import type { RedemptionDocument } from "../src/types/redemption.js";
+
+// ── Helpers ─────────────────────────────────────────────
+
+function makeRedemption(overrides: Partial<RedemptionDocument> = {}): RedemptionDocument {
+  return {
+    id: "site456|order-1",
+    siteId: "site456",
+    orderId: "order-1",
+    couponId: "coupon001",
+    code: "TEST",
+    couponIds: ["coupon001"],
+    customerId: null,
+    cartTotal: 50000,
+    discountAmount: 5000,
+    finalTotal: 48000,
+    result: { couponId: "coupon001", discountAmount: 5000 } as ApplyCouponResult,
+    status: "applied",
+    revertedAt: null,
+    revertReason: null,
+    refunds: [],
+    refundedAmount: 0,
+    refundedDiscountAmount: 0,
+    createdAt: "2026-03-10T15:00:00.000Z",
+    updatedAt: "2026-03-10T15:00:00.000Z",
+    ...overrides,
+  };
+}
+
+const stacked = makeRedemption({
+  couponIds: ["coupon001", "coupon002"],
+  discountAmount: 9000,
+  finalTotal: 41000,
+  result: {
+    coupons: [
+      { couponId: "coupon001", discountAmount: 6000 },
+      { couponId: "coupon002", discountAmount: 3000 },
+    ],
+  } as ApplyCouponsResult,
+});
+
+// ── redemptionStats ─────────────────────────────────────
+
+describe("redemptionStats", () => {
+  it("counts an applied order for the site and its coupon", () => {
+    const totals = { redemptionCount: 1, discountTotal: 5000, grossRevenue: 53000, netRevenue: 48000 };
+    assert.deepEqual(redemptionStats(makeRedemption()), [
+      { couponId: null, totals },
+      { couponId: "coupon001", totals },
+    ]);
+  });
+
+  it("splits the discount between stacked coupons but credits each with the whole order", () => {
+    const [site, first, second] = redemptionStats(stacked);
+    assert.equal(site.totals.discountTotal, 9000);
+    assert.equal(first.totals.discountTotal, 6000);
+    assert.equal(second.totals.discountTotal, 3000);
+    assert.equal(first.totals.netRevenue, 41000);
+    assert.equal(second.totals.grossRevenue, 50000);
+  });
+
+  it("subtracts partial refunds, sharing the refunded discount by each coupon's discount", () => {
+    const refunded = {
+      ...stacked,
+      refunds: [{ refundId: "r1", amount: 10000, discountAmount: 1800, reason: "devolución", createdAt: "" }],
+      refundedAmount: 10000,
+      refundedDiscountAmount: 1800,
+    };
+    const [site, first, second] = redemptionStats(refunded);
+    assert.deepEqual(site.totals, { redemptionCount: 1, discountTotal: 7200, grossRevenue: 40000, netRevenue: 32800 });
+    assert.equal(first.totals.discountTotal, 4800);
+    assert.equal(second.totals.discountTotal, 2400);
+  });
+
+  it("contributes nothing once reverted", () => {
+    for (const entry of redemptionStats({ ...stacked, status: "reverted" })) {
+      assert.deepEqual(entry.totals, { redemptionCount: 0, discountTotal: 0, grossRevenue: 0, netRevenue: 0 });
+    }
+  });
+});
+
+// ── summarizeStats / sumSeries ──────────────────────────
+
+describe("summarizeStats", () => {
+  it("adds the rounded average order value", () => {
+    const summary = summarizeStats({ redemptionCount: 3, discountTotal: 0, grossRevenue: 0, netRevenue: 10000 });
+    assert.equal(summary.averageOrderValue, 3333);
+  });
+
+  it("returns 0 average without redemptions", () => {
+    const summary = summarizeStats({ redemptionCount: 0, discountTotal: 0, grossRevenue: 0, netRevenue: 0 });
+    assert.equal(summary.averageOrderValue, 0);
+  });
+});
+
+describe("sumSeries", () => {
+  it("adds up every day", () => {
+    const day = summarizeStats({ redemptionCount: 2, discountTotal: 100, grossRevenue: 1000, netRevenue: 900 });
+    const totals = sumSeries([
+      { date: "2026-03-01", ...day },
+      { date: "2026-03-02", ...day },
+    ]);
+    assert.deepEqual(totals, { redemptionCount: 4, discountTotal: 200, grossRevenue: 2000, netRevenue: 1800 });
+  });
+});
+
+// ── dateRange / statsDate ───────────────────────────────
+
+describe("dateRange", () => {
+  it("lists every day including both ends", () => {
+    assert.deepEqual(dateRange("2026-02-27", "2026-03-02"), ["2026-02-27", "2026-02-28", "2026-03-01", "2026-03-02"]);
+  });
+
+  it("returns a single day when from equals to", () => {
+    assert.deepEqual(dateRange("2026-03-10", "2026-03-10"), ["2026-03-10"]);
+  });
+});
+
+describe("statsDate", () => {
+  it("buckets by UTC day", () => {
+    assert.equal(statsDate("2026-03-10T23:30:00-03:00"), "2026-03-11");
+  });
+});
+
+// ── couponStatsRef ──────────────────────────────────────
+
+describe("couponStatsRef", () => {
+  it("keeps coupon and site rollups apart", () => {
+    assert.equal(couponStatsRef("site456", "coupon001", null).id, "coupon|coupon001|total");
+    assert.equal(couponStatsRef("site456", null, "2026-03-10").id, "site|site456|2026-03-10");
+  });
+});
+
+// ── recordStatsChange ───────────────────────────────────
+
+describe("recordStatsChange", () => {
+  const contribution = [{ couponId: "coupon001", totals: { ...EMPTY_TOTALS, redemptionCount: 1 } }];
+
+  const writes = (before: typeof contribution | null, after: typeof contribution | null) => {
+    const sets: { id: string; data: Record<string, unknown> }[] = [];
+    const batch = {
+      set: (ref: { id: string }, data: Record<string, unknown>) => sets.push({ id: ref.id, data }),
+    } as unknown as WriteBatch;
+    recordStatsChange(batch, "site456", "2026-03-10T12:00:00.000Z", before, after, "2026-03-11T00:00:00.000Z");
+    return sets;
+  };
+
+  it("stamps lastUsedAt on the total rollup of a new order only", () => {
+    const [total, day] = writes(null, contribution);
+    assert.equal(total.id, "coupon|coupon001|total");
+    assert.equal(total.data.lastUsedAt, "2026-03-10T12:00:00.000Z");
+    assert.equal(day.data.lastUsedAt, undefined);
+  });
+
+  it("leaves lastUsedAt alone on refunds and reversals", () => {
+    for (const { data } of [...writes(contribution, contribution), ...writes(contribution, null)]) {
+      assert.equal(data.lastUsedAt, undefined);
+    }
+  });
+});
+
+// ── applyRedemptionStats ────────────────────────────────
+
+describe("applyRedemptionStats", () => {
+  it("writes nothing when the order's contribution does not change", async () => {
+    const redemption = {
+      siteId: "site456",
+      couponIds: ["coupon001"],
+      discountAmount: 1000,
+      finalTotal: 9000,
+      result: {},
+      status: "applied",
+      refunds: [],
+      refundedAmount: 0,
+      refundedDiscountAmount: 0,
+      createdAt: "2026-03-10T12:00:00.000Z",
+    } as unknown as RedemptionDocument;
+    const updated = { ...redemption, updatedAt: "2026-03-11T00:00:00.000Z" };
+    assert.equal(await applyRedemptionStats("event-1", redemption, updated, "2026-03-11T00:00:00.000Z"), false);
+    assert.equal(await applyRedemptionStats("event-2", undefined, undefined, "2026-03-11T00:00:00.000Z"), false);
+  });
+});
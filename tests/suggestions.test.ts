@@ -0,0 +1,57 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { buildCart } from "../src/functions/coupons/pricing.js";
+import { rankCouponSuggestions } from "../src/functions/coupons/suggestions.js";
+import { ErrorCode } from "../src/types/common.js";
+import { makeCoupon } from "./fixtures.js";
+
+// ── rankCouponSuggestions ───────────────────────────────
+
+describe("rankCouponSuggestions", () => {
+  const cart = buildCart({ cartTotal: 50000 });
+
+  it("ranks eligible coupons by discount amount", () => {
+    const ranked = rankCouponSuggestions(
+      [
+        { coupon: makeCoupon({ id: "c1", code: "DIEZ" }) },
+        { coupon: makeCoupon({ id: "c2", code: "FIJO8000", discountType: "fixed", discountValue: 8000 }) },
+        { coupon: makeCoupon({ id: "c3", code: "VEINTE", discountValue: 20 }) },
+      ],
+      cart,
+    );
+    assert.deepEqual(ranked.map((s) => s.code), ["VEINTE", "FIJO8000", "DIEZ"]);
+    assert.equal(ranked[0].discountAmount, 10000);
+    assert.equal(ranked[0].finalTotal, 40000);
+  });
+
+  it("lists ineligible coupons after eligible ones, closest minPurchase first", () => {
+    const ranked = rankCouponSuggestions(
+      [
+        { coupon: makeCoupon({ id: "c1", code: "LEJOS", minPurchase: 90000 }) },
+        { coupon: makeCoupon({ id: "c2", code: "INACTIVO", isActive: false }) },
+        { coupon: makeCoupon({ id: "c3", code: "CERCA", minPurchase: 60000 }) },
+        { coupon: makeCoupon({ id: "c4", code: "DIEZ" }) },
+      ],
+      cart,
+    );
+    assert.deepEqual(ranked.map((s) => s.code), ["DIEZ", "CERCA", "LEJOS", "INACTIVO"]);
+    assert.equal(ranked[1].eligible, false);
+    assert.equal(ranked[1].rejection?.errorCode, ErrorCode.MIN_PURCHASE_NOT_MET);
+    assert.equal(ranked[1].rejection?.errorDetails?.amountRemaining, 10000);
+    assert.equal(ranked[3].rejection?.errorCode, ErrorCode.COUPON_INACTIVE);
+  });
+
+  it("reports per-customer limits for the given customer", () => {
+    const coupon = makeCoupon({ maxUsesPerCustomer: 1 });
+    const [suggestion] = rankCouponSuggestions([{ coupon, customerUsageCount: 1 }], cart, {
+      customerId: "ana@mail.cl",
+    });
+    assert.equal(suggestion.rejection?.errorCode, ErrorCode.CUSTOMER_MAX_USES);
+  });
+
+  it("reports cart scope failures", () => {
+    const coupon = makeCoupon({ productIds: ["prod001"] });
+    const [suggestion] = rankCouponSuggestions([{ coupon }], cart);
+    assert.equal(suggestion.rejection?.errorCode, ErrorCode.LINE_ITEMS_REQUIRED);
+  });
+});